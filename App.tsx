@@ -1,10 +1,35 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Upload, Image as ImageIcon, Play, RotateCcw, Zap, StopCircle, Camera, Video, Layers, MapPin, Database, LocateFixed, Film, Loader2, AlertCircle, X, ScanEye, Home, ChevronLeft, LayoutDashboard, History as HistoryIcon, Download } from 'lucide-react';
+import { Upload, Image as ImageIcon, Play, RotateCcw, Zap, StopCircle, Camera, Video, Layers, MapPin, Database, LocateFixed, Film, Loader2, AlertCircle, X, ScanEye, Home, ChevronLeft, LayoutDashboard, History as HistoryIcon, Download, Settings, Ruler, Gauge, Spline, ShieldAlert, Bell, LayoutGrid, Eye, ScrollText } from 'lucide-react';
 import { AgentPipeline } from './components/AgentPipeline';
 import { ResultsDashboard } from './components/ResultsDashboard';
+import { SettingsPanel } from './components/SettingsPanel';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { RulesPanel } from './components/RulesPanel';
+import { ZoneEditor } from './components/ZoneEditor';
+import { IncidentsView } from './components/IncidentsView';
+import { AlertsPanel } from './components/AlertsPanel';
+import { PromptsPanel } from './components/PromptsPanel';
+import { AlertToasts } from './components/AlertToasts';
+import { MultiCameraGrid } from './components/MultiCameraGrid';
 import { analyzeTrafficImage, getLocationContext } from './services/geminiService';
-import { ObjectTracker } from './services/trackingService';
-import { AgentStatus, FullAnalysisResult, HistoryItem, LocationContextData, Violation } from './types';
+import { SchemaValidationError } from './services/validationService';
+import { BackendConfig, BackendHealth, PROFILE_LABELS, checkBackendHealth, loadBackendConfig, resolveBackendUrl, saveBackendConfig } from './services/configService';
+import { SourcePipeline } from './services/sourcePipeline';
+import { analysisScheduler } from './services/analysisScheduler';
+import { newJobId, progressState, subscribeToFeed } from './services/liveFeed';
+import { AgentProgress, DEFAULT_PIPELINE, fetchPipelineDefinition } from './services/pipelineService';
+import { PredictedTrack, renderDetections } from './services/overlayRenderer';
+import { generateIncidentReport } from './services/reportService';
+import { saveCalibration } from './services/calibrationService';
+import { loadRules, saveRules } from './services/rulesService';
+import { saveZones } from './services/zoneService';
+import { describeSource, sourceIds } from './services/sourceSettingsStore';
+import { saveServerAnalysis } from './services/analysisApi';
+import { migrateLegacyHistory, onHistoryChange, queryHistory, updateHistoryItem } from './services/historyStore';
+import { onIncidentsChange, queryIncidents } from './services/incidentStore';
+import { AlertEngine, AlertSettings, loadAlertSettings, saveAlertSettings, showBrowserNotification } from './services/alertService';
+import { postAlert } from './services/alertApi';
+import { AgentStage, Alert, AgentStatus, PipelineDefinition, CameraCalibration, DetectionItem, FullAnalysisResult, HistoryItem, LineCrossing, LocationContextData, ViolationRules, Zone } from './types';
 
 const SAMPLE_IMAGES = [
   "https://images.unsplash.com/photo-1566008885218-90abf9200ddb?q=80&w=1000&auto=format&fit=crop",
@@ -14,24 +39,58 @@ const SAMPLE_IMAGES = [
 ];
 
 // Reusable Error Banner Component
-const ErrorBanner = ({ message, onDismiss }: { message: string, onDismiss: () => void }) => (
-  <div className="bg-red-950/40 border border-red-500/50 rounded-lg p-4 mb-6 flex items-start gap-3 animate-fadeIn">
-    <AlertCircle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
-    <div className="flex-1">
-      <h4 className="text-red-300 font-bold text-sm mb-1">System Alert</h4>
-      <p className="text-red-200/80 text-sm leading-relaxed">{message}</p>
+const ErrorBanner = ({ error, onDismiss }: { error: string | SchemaValidationError, onDismiss: () => void }) => {
+  const isSchemaError = error instanceof SchemaValidationError;
+  const title = !isSchemaError ? 'System Alert' : error.source === 'server' ? 'Invalid Model Output' : 'Invalid Analysis Response';
+
+  return (
+    <div className="bg-red-950/40 border border-red-500/50 rounded-lg p-4 mb-6 flex items-start gap-3 animate-fadeIn">
+      <AlertCircle className="w-5 h-5 text-red-400 shrink-0 mt-0.5" />
+      <div className="flex-1">
+        <h4 className="text-red-300 font-bold text-sm mb-1">{title}</h4>
+        <p className="text-red-200/80 text-sm leading-relaxed">{isSchemaError ? error.message : error}</p>
+        {isSchemaError && error.issues.length > 0 && (
+          <ul className="mt-2 space-y-0.5 text-xs font-mono text-red-300/70">
+            {error.issues.slice(0, 5).map((issue, i) => <li key={i}>{issue}</li>)}
+            {error.issues.length > 5 && <li>…and {error.issues.length - 5} more</li>}
+          </ul>
+        )}
+      </div>
+      <button 
+        onClick={onDismiss}
+        className="text-red-400 hover:text-red-200 transition-colors p-1"
+      >
+        <X className="w-4 h-4" />
+      </button>
     </div>
-    <button 
-      onClick={onDismiss}
-      className="text-red-400 hover:text-red-200 transition-colors p-1"
-    >
-      <X className="w-4 h-4" />
-    </button>
-  </div>
+  );
+};
+
+type ViewState = 'home' | 'monitor' | 'grid' | 'history' | 'incidents';
+
+const RECENT_HISTORY_LIMIT = 8;
+const MAX_TOASTS = 4; // Older alert toasts are dropped beyond this
+
+const HEALTH_CHECK_INTERVAL = 60000;
+
+// Header badge showing which backend is selected and whether it answers
+const BackendStatusBadge = ({ profile, health, onClick }: { profile: string, health: BackendHealth, onClick: () => void }) => (
+  <button
+    onClick={onClick}
+    title={`${health.url || 'No URL'}${health.message ? ` — ${health.message}` : ''}`}
+    className="px-3 py-2 rounded-lg text-xs font-medium text-slate-400 hover:text-white border border-slate-800 hover:border-slate-700 flex items-center gap-2 transition-colors"
+  >
+    <span className={`w-2 h-2 rounded-full ${
+      health.state === 'online' ? 'bg-green-500' : health.state === 'offline' ? 'bg-red-500' : 'bg-slate-500 animate-pulse'
+    }`}></span>
+    <span className="hidden md:inline">{profile}</span>
+    {health.state === 'online' && health.latencyMs !== undefined && (
+      <span className="hidden md:inline font-mono text-slate-500">{health.latencyMs}ms</span>
+    )}
+    <Settings className="w-3.5 h-3.5" />
+  </button>
 );
 
-type ViewState = 'home' | 'monitor' | 'history';
-
 export default function App() {
   // Navigation State
   const [activeView, setActiveView] = useState<ViewState>('home');
@@ -40,8 +99,23 @@ export default function App() {
   const [status, setStatus] = useState<AgentStatus>(AgentStatus.IDLE);
   const [image, setImage] = useState<string | null>(null);
   const [result, setResult] = useState<FullAnalysisResult | null>(null);
-  const [error, setError] = useState<string | null>(null);
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [error, setError] = useState<string | SchemaValidationError | null>(null);
+  const [history, setHistory] = useState<HistoryItem[]>([]); // Most recent entries (home page, dashboard)
+  const [historyTotal, setHistoryTotal] = useState(0);
+  const [pendingIncidents, setPendingIncidents] = useState(0);
+
+  // Backend Configuration
+  const [backendConfig, setBackendConfig] = useState<BackendConfig>(loadBackendConfig);
+  const [backendHealth, setBackendHealth] = useState<BackendHealth>({ state: 'checking', url: resolveBackendUrl(loadBackendConfig()) });
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+
+  // Alerting
+  const [alertSettings, setAlertSettings] = useState<AlertSettings>(loadAlertSettings);
+  const alertSettingsRef = useRef<AlertSettings>(alertSettings); // Read by long-running loops holding old closures
+  const alertEngineRef = useRef<AlertEngine>(new AlertEngine());
+  const [isAlertsOpen, setIsAlertsOpen] = useState(false);
+  const [isPromptsOpen, setIsPromptsOpen] = useState(false);
+  const [toasts, setToasts] = useState<Alert[]>([]);
   
   // Modes & Queue
   const [processingQueue, setProcessingQueue] = useState<File[]>([]);
@@ -63,29 +137,98 @@ export default function App() {
   const [cameraStream, setCameraStream] = useState<MediaStream | null>(null);
   const videoProcessingRef = useRef<boolean>(false);
   
-  // Tracking Service Ref
-  const trackerRef = useRef<ObjectTracker>(new ObjectTracker());
+  // Tracking, violation events and persistence for the active source
+  const pipelineRef = useRef<SourcePipeline>(new SourcePipeline());
+  const currentJobRef = useRef<string | null>(null); // Analysis whose live progress drives `status`
+  const [feedViewers, setFeedViewers] = useState(0);
+  const [stages, setStages] = useState<AgentStage[]>([]); // Agents finished so far for the latest analysis
+  const [agentProgress, setAgentProgress] = useState<AgentProgress>({}); // Pushed per-agent state of the latest analysis
+  const [pipelineDefinition, setPipelineDefinition] = useState<PipelineDefinition>(DEFAULT_PIPELINE);
+
+  // Active Source & Per-Camera Calibration
+  const [activeSourceId, setActiveSourceId] = useState<string | null>(null);
+  const activeSourceIdRef = useRef<string | null>(null); // For long-running loops holding old closures
+  const lastFrameRef = useRef<{ timestamp: number; src: string } | null>(null); // Frame behind the latest result, for reports
+  const resultHistoryIdRef = useRef<string | null>(null); // History record behind the latest result, for later enrichment
+  const [calibration, setCalibration] = useState<CameraCalibration | null>(null);
+  const [calibrationFrame, setCalibrationFrame] = useState<string | null>(null); // Non-null while the editor is open
+  const [rules, setRules] = useState<ViolationRules>(() => loadRules(null));
+  const [isRulesOpen, setIsRulesOpen] = useState(false);
+  const [zones, setZones] = useState<Zone[]>([]);
+  const [isEditingZones, setIsEditingZones] = useState(false);
+  const [lineCrossings, setLineCrossings] = useState<LineCrossing[]>([]); // Counting-line crossings this session
 
   const isMonitorActive = !!(image || isSimulating || isCameraActive || processingVideo);
 
-  // Load History from DB (LocalStorage)
+  // Load recent History from DB (IndexedDB), migrating old localStorage history first
   useEffect(() => {
-    const saved = localStorage.getItem('multi_ai_agent_history');
-    if (saved) {
-      try {
-        setHistory(JSON.parse(saved));
-      } catch (e) {
-        console.error("Failed to load history", e);
-      }
-    }
+    const loadRecent = () => queryHistory({}, 0, RECENT_HISTORY_LIMIT)
+      .then(({ items, total }) => {
+        setHistory(items);
+        setHistoryTotal(total);
+      })
+      .catch(e => console.error("Failed to load history", e));
+
+    const unsubscribe = onHistoryChange(loadRecent);
+    migrateLegacyHistory()
+      .catch(e => console.error("Failed to migrate history", e))
+      .finally(loadRecent);
+    return unsubscribe;
   }, []);
 
-  // Save History to DB (LocalStorage)
+  // Pending incident count for the nav badge
   useEffect(() => {
-    if (history.length > 0) {
-      localStorage.setItem('multi_ai_agent_history', JSON.stringify(history));
-    }
-  }, [history]);
+    const loadPending = () => queryIncidents('pending', 0, 0)
+      .then(({ counts }) => setPendingIncidents(counts.pending))
+      .catch(e => console.error("Failed to load incidents", e));
+    loadPending();
+    return onIncidentsChange(loadPending);
+  }, []);
+
+  // Load the calibration, rules and zones saved for the active source into the tracker
+  useEffect(() => {
+    activeSourceIdRef.current = activeSourceId;
+    const saved = pipelineRef.current.loadSettings(activeSourceId);
+    setCalibration(saved.calibration);
+    setRules(saved.rules);
+    setZones(saved.zones);
+    setIsEditingZones(false);
+  }, [activeSourceId]);
+
+  // Backend Health Check (on load, on profile change, then periodically)
+  useEffect(() => {
+    let cancelled = false;
+    const url = resolveBackendUrl(backendConfig);
+    const check = async () => {
+      const health = await checkBackendHealth(url);
+      if (!cancelled) setBackendHealth(health);
+    };
+    setBackendHealth({ state: 'checking', url });
+    check();
+    const intervalId = setInterval(check, HEALTH_CHECK_INTERVAL);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [backendConfig]);
+
+  // The backend's agent pipeline, to draw it; the stock one when the backend cannot say
+  useEffect(() => {
+    let cancelled = false;
+    fetchPipelineDefinition()
+      .then(definition => { if (!cancelled) setPipelineDefinition(definition); })
+      .catch(e => {
+        console.warn("Pipeline definition unavailable:", e.message);
+        if (!cancelled) setPipelineDefinition(DEFAULT_PIPELINE);
+      });
+    return () => { cancelled = true; };
+  }, [backendConfig]);
+
+  const handleSaveBackendConfig = (config: BackendConfig) => {
+    saveBackendConfig(config);
+    setBackendConfig(config);
+    setIsSettingsOpen(false);
+  };
 
   // Effect to redraw detections when a static result is loaded (e.g. from history)
   useEffect(() => {
@@ -120,8 +263,11 @@ export default function App() {
     stopAllModes();
     // Use a small timeout to ensure state clears before setting new state
     setTimeout(() => {
-        setImage(item.thumbnail);
+        setImage(item.thumbnail || null); // Imported items may have no image
         setResult(item);
+        resultHistoryIdRef.current = item.id;
+        setStages(item.pipeline?.stages || []);
+        setAgentProgress({});
         setStatus(AgentStatus.COMPLETE);
         navigateTo('monitor');
         window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -144,6 +290,7 @@ export default function App() {
       handleVideoUpload(videoFile);
     } else if (fileList.length > 0) {
       // Batch Image Processing
+      setActiveSourceId(sourceIds.upload());
       setProcessingQueue(fileList);
       setIsProcessingQueue(true);
       processNextInQueue(fileList);
@@ -153,11 +300,13 @@ export default function App() {
 
   const handleVideoUpload = (file: File) => {
     const url = URL.createObjectURL(file);
+    setActiveSourceId(sourceIds.video(file.name));
     setImage(null); // We don't show a static image for video
     setProcessingVideo(true);
     videoProcessingRef.current = true;
     setVideoSessionData([]); // Reset video session tracking
-    trackerRef.current.reset(); // Reset tracker
+    setLineCrossings([]);
+    pipelineRef.current.reset(); // Reset tracker
     setError(null);
     
     if (videoRef.current) {
@@ -181,6 +330,7 @@ export default function App() {
     const video = videoRef.current;
     const FRAME_INTERVAL = 1.0; // Analyze 1 frame every 1 second of video (1 FPS)
     let currentTime = 0;
+    const clockBase = Date.now(); // Frame timestamps follow video time, not processing time
 
     const processNextFrame = async () => {
       if (!videoProcessingRef.current || currentTime > video.duration) {
@@ -211,7 +361,7 @@ export default function App() {
       if (frameData) {
         // Video processing doesn't throw major UI errors, it just logs them to console to avoid interruption
         try {
-          await processImage(frameData.data, frameData.mime, 'video');
+          await processImage(frameData.data, frameData.mime, 'video', clockBase + video.currentTime * 1000);
         } catch (e: any) {
           console.warn("Skipped frame due to error", e);
           // If Rate Limit, pause for 5s
@@ -264,7 +414,7 @@ export default function App() {
     reader.onloadend = async () => {
       const base64 = reader.result as string;
       setImage(base64);
-      trackerRef.current.reset(); // Reset for new file
+      pipelineRef.current.reset(); // Reset for new file
       const matches = base64.match(/^data:(.+);base64,(.+)$/);
       if (matches) {
         try {
@@ -300,9 +450,11 @@ export default function App() {
     
     setImage(null);
     setResult(null);
+    resultHistoryIdRef.current = null;
     setStatus(AgentStatus.IDLE);
     setError(null);
-    trackerRef.current.reset();
+    setLineCrossings([]);
+    pipelineRef.current.reset();
     clearOverlay();
   };
 
@@ -325,8 +477,9 @@ export default function App() {
         video: { facingMode: 'environment' } 
       });
       setCameraStream(stream);
+      setActiveSourceId(sourceIds.camera(stream.getVideoTracks()[0]?.getSettings().deviceId));
       setIsCameraActive(true);
-      trackerRef.current.reset();
+      pipelineRef.current.reset();
       setError(null);
       navigateTo('monitor');
     } catch (err) {
@@ -341,7 +494,7 @@ export default function App() {
       setError("Browser Unsupported: Your browser does not support Geolocation.");
       return;
     }
-    setStatus(AgentStatus.DATA_ANALYSIS);
+    setStatus(AgentStatus.RUNNING);
     navigator.geolocation.getCurrentPosition(
       async (position) => {
         const { latitude, longitude } = position.coords;
@@ -354,7 +507,13 @@ export default function App() {
           if (result) {
              const updated = { ...result, locationContext: context };
              setResult(updated);
-             setHistory(prev => prev.map(h => h.timestamp === updated.timestamp ? { ...updated, id: h.id, thumbnail: h.thumbnail } : h));
+             if (resultHistoryIdRef.current) {
+               updateHistoryItem(resultHistoryIdRef.current, { locationContext: context })
+                 .catch(e => console.error("Failed to update history", e));
+             }
+             if (updated.analysisId) {
+               saveServerAnalysis(updated.analysisId, updated).catch(e => console.error("Failed to update stored analysis", e));
+             }
           }
           setStatus(AgentStatus.COMPLETE);
         } catch (e) {
@@ -380,9 +539,10 @@ export default function App() {
   const startSimulation = async () => {
     stopAllModes();
     simulationRef.current = true;
+    setActiveSourceId(sourceIds.simulation());
     setIsSimulating(true);
     setError(null);
-    trackerRef.current.reset();
+    pipelineRef.current.reset();
     navigateTo('monitor');
     
     for (let i = 0; i < SAMPLE_IMAGES.length; i++) {
@@ -421,44 +581,55 @@ export default function App() {
   };
 
   // Live Camera Processing Loop (Dynamic Backoff)
+  // One frame at a time: the next capture is scheduled when the previous analysis settles,
+  // so the loop does not depend on `status`, which now follows the server's agent progress
   useEffect(() => {
-    let timeoutId: any;
+    if (!isCameraActive) return;
+    let timeoutId: ReturnType<typeof setTimeout>;
     let isMounted = true;
 
     const loop = async () => {
         if (!isMounted) return;
-        
-        // Only run if active and previous cycle is complete (IDLE/COMPLETE/ERROR)
-        // Note: processImage sets status to SCANNING, so loop naturally pauses until completion
-        if (isCameraActive && videoRef.current && (status === AgentStatus.IDLE || status === AgentStatus.COMPLETE || status === AgentStatus.ERROR)) {
-           const frame = captureFrame(videoRef.current);
-           if (frame) {
-             try {
-                await processImage(frame.data, frame.mime, 'camera');
-                // Normal delay
-                timeoutId = setTimeout(loop, 4000);
-             } catch (e: any) {
-                console.warn("Camera loop error:", e.message);
-                // Backoff delay if Rate Limit
-                const delay = (e.message && (e.message.includes("Rate Limit") || e.message.includes("429"))) ? 10000 : 4000;
-                timeoutId = setTimeout(loop, delay);
-             }
-             return;
-           }
+        const capturedAt = Date.now();
+        const frame = videoRef.current ? captureFrame(videoRef.current) : null;
+        if (!frame) {
+          // Camera not ready yet, check again soon
+          timeoutId = setTimeout(loop, 1000);
+          return;
         }
-        // If busy or no frame, check again soon
-        timeoutId = setTimeout(loop, 1000);
+
+        let delay = 4000;
+        try {
+          await processImage(frame.data, frame.mime, 'camera', capturedAt);
+        } catch (e: any) {
+          console.warn("Camera loop error:", e.message);
+          // Backoff delay if Rate Limit
+          if (e.message && (e.message.includes("Rate Limit") || e.message.includes("429"))) delay = 10000;
+        }
+        if (isMounted) timeoutId = setTimeout(loop, delay);
     };
 
-    if (isCameraActive) {
-        loop();
-    }
+    loop();
 
     return () => {
         isMounted = false;
         clearTimeout(timeoutId);
     };
-  }, [isCameraActive, status]); // Re-evaluates when status changes (e.g. finishes processing)
+  }, [isCameraActive]);
+
+  // The active source's live feed: server-side agent progress of our own requests, and
+  // how many viewers are watching (other browsers can follow it from the camera grid)
+  useEffect(() => {
+    if (!isMonitorActive) return;
+    return subscribeToFeed(activeSourceId || sourceIds.upload(), event => {
+      if (event.type === 'viewers') setFeedViewers(event.count);
+      else if (event.type === 'progress' && event.progress.jobId === currentJobRef.current) {
+        const { agent, stage } = event.progress;
+        setAgentProgress(prev => ({ ...prev, [agent]: progressState(event.progress) }));
+        if (stage) setStages(prev => [...prev.filter(s => s.agent !== stage.agent), stage]);
+      }
+    });
+  }, [activeSourceId, isMonitorActive]);
 
   useEffect(() => {
     if (isCameraActive && videoRef.current && cameraStream) {
@@ -467,7 +638,7 @@ export default function App() {
   }, [isCameraActive, cameraStream]);
 
   // DRAWING UTILS
-  const drawDetections = (detections: any[]) => {
+  const drawDetections = (detections: DetectionItem[], predictedTracks: PredictedTrack[] = []) => {
     const canvas = overlayCanvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
@@ -482,81 +653,7 @@ export default function App() {
 
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
-    detections.forEach(det => {
-        if (det.box_2d) {
-            // box: [ymin, xmin, ymax, xmax] 0-1000 normalized
-            const [ymin, xmin, ymax, xmax] = det.box_2d;
-            
-            const x = (xmin / 1000) * canvas.width;
-            const y = (ymin / 1000) * canvas.height;
-            const w = ((xmax - xmin) / 1000) * canvas.width;
-            const h = ((ymax - ymin) / 1000) * canvas.height;
-
-            const isTracked = !!det.trackId;
-
-            // Box Color based on Status
-            let color = isTracked ? '#06b6d4' : '#94a3b8'; // Cyan for tracked, Slate for untracked
-            let lineWidth = 2;
-            
-            if (det.isSpeeding) {
-                color = '#ef4444'; // Red
-                lineWidth = 4;
-            } else if (det.isWrongWay) {
-                color = '#f59e0b'; // Orange
-                lineWidth = 3;
-            } else if (isTracked) {
-                color = '#22d3ee'; // Bright Cyan for active tracking
-                lineWidth = 2;
-            }
-
-            ctx.strokeStyle = color;
-            ctx.lineWidth = lineWidth;
-            
-            // Draw Box
-            ctx.strokeRect(x, y, w, h);
-            
-            // Draw distinct overlay for tracked items
-            if (isTracked) {
-                ctx.fillStyle = color + '20'; // 20 hex = ~12% opacity
-                ctx.fillRect(x, y, w, h);
-            }
-
-            // Draw Label Background
-            ctx.fillStyle = color;
-            const labelHeight = 22;
-            ctx.fillRect(x, y - labelHeight, w, labelHeight);
-            
-            // Draw Text
-            ctx.fillStyle = det.isSpeeding || det.isWrongWay ? '#fff' : '#000';
-            ctx.font = 'bold 11px "JetBrains Mono", monospace';
-            
-            // Construct Label
-            let labelText = det.object.toUpperCase();
-            if (isTracked) {
-                labelText = `[#${det.trackId}] ${labelText}`;
-            }
-            
-            // Override label for severe violations to keep it readable
-            if (det.isSpeeding) labelText = `⚠️ SPEEDING [#${det.trackId}]`;
-            else if (det.isWrongWay) labelText = `⛔ WRONG WAY [#${det.trackId}]`;
-            
-            ctx.fillText(labelText, x + 4, y - 6);
-            
-            // Draw Speed if available (secondary bottom tag)
-            if (det.estimatedSpeed !== undefined) {
-                const speedText = `${det.estimatedSpeed} km/h`;
-                const speedMetrics = ctx.measureText(speedText);
-                const sw = speedMetrics.width + 10;
-                
-                ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
-                ctx.fillRect(x, y + h, sw, 16);
-                
-                ctx.fillStyle = '#fff';
-                ctx.font = '10px monospace';
-                ctx.fillText(speedText, x + 4, y + h + 12);
-            }
-        }
-    });
+    renderDetections(ctx, canvas.width, canvas.height, detections, predictedTracks);
   };
 
   const clearOverlay = () => {
@@ -613,62 +710,105 @@ export default function App() {
     }
   };
 
-  const processImage = async (base64Data: string, mimeType: string, mode: 'single' | 'video' | 'camera' = 'single') => {
+  // PDF report for the current result, or the whole session while a video has been analysed
+  const handleGenerateReport = async () => {
+    if (!result) return;
+    const frame = lastFrameRef.current?.timestamp === result.timestamp ? lastFrameRef.current.src : image || undefined;
+    const session = videoSessionData.some(r => r.timestamp === result.timestamp) ? videoSessionData : [result];
+    await generateIncidentReport(session.map(r => ({
+      result: r,
+      image: r.timestamp === result.timestamp ? frame : undefined,
+      sourceId: activeSourceId || undefined,
+    })));
+  };
+
+  // Calibration Editor (opens on a still of the current frame)
+  const openCalibration = () => {
+    if (videoRef.current && (isCameraActive || processingVideo)) {
+      const frame = captureFrame(videoRef.current);
+      if (frame) setCalibrationFrame(`data:${frame.mime};base64,${frame.data}`);
+    } else if (image) {
+      setCalibrationFrame(image);
+    }
+  };
+
+  const handleSaveCalibration = (next: CameraCalibration | null) => {
+    if (activeSourceId) saveCalibration(activeSourceId, next);
+    setCalibration(next);
+    pipelineRef.current.tracker.setCalibration(next);
+    setCalibrationFrame(null);
+  };
+
+  const handleSaveRules = (next: ViolationRules) => {
+    if (activeSourceId) saveRules(activeSourceId, next);
+    setRules(next);
+    pipelineRef.current.tracker.setRules(next);
+    setIsRulesOpen(false);
+  };
+
+  const handleSaveAlertSettings = (next: AlertSettings) => {
+    saveAlertSettings(next);
+    setAlertSettings(next);
+    alertSettingsRef.current = next;
+    alertEngineRef.current.reset();
+    setIsAlertsOpen(false);
+  };
+
+  // Sends alerts over the enabled channels; delivery problems are logged, never shown as analysis errors
+  const deliverAlerts = (alerts: Alert[]) => {
+    const { channels } = alertSettingsRef.current;
+    if (channels.toast) setToasts(prev => [...alerts, ...prev].slice(0, MAX_TOASTS));
+    alerts.forEach(alert => {
+      if (channels.notification) showBrowserNotification(alert);
+      if (channels.webhook) postAlert(alert).catch(e => console.error("Failed to forward alert", e));
+    });
+  };
+
+  // Results from the camera grid go through the same alert rules as the monitor
+  const handleGridResult = (result: FullAnalysisResult, sourceId: string) => {
+    const alerts = alertEngineRef.current.evaluate(alertSettingsRef.current.rules, result, sourceId);
+    if (alerts.length > 0) deliverAlerts(alerts);
+  };
+
+  const handleZonesChange = (next: Zone[]) => {
+    if (activeSourceId) saveZones(activeSourceId, next);
+    setZones(next);
+    pipelineRef.current.tracker.setZones(next);
+  };
+
+  // `capturedAt` is the frame's capture time, used by the tracker for real elapsed time between frames
+  const processImage = async (base64Data: string, mimeType: string, mode: 'single' | 'video' | 'camera' = 'single', capturedAt = Date.now()) => {
     try {
-      setStatus(AgentStatus.VISION_SCANNING);
-      // Only delay if not in streaming modes
-      if (mode === 'single') await new Promise(r => setTimeout(r, 500));
-      
-      setStatus(AgentStatus.DATA_ANALYSIS);
-      const data = await analyzeTrafficImage(base64Data, mimeType);
-      
-      // RUN TRACKER
-      const trackedDetections = trackerRef.current.update(data.detections, data.timestamp);
-      data.detections = trackedDetections;
+      const jobId = newJobId();
+      currentJobRef.current = jobId;
+      setStages([]);
+      setAgentProgress({});
+      setStatus(AgentStatus.RUNNING);
+      const sourceId = activeSourceIdRef.current || undefined;
+      const data = await analysisScheduler.schedule(sourceId || sourceIds.upload(), () => analyzeTrafficImage(base64Data, mimeType, sourceId, jobId));
+      currentJobRef.current = null; // Progress still in flight must not undo the result
+      setStages(data.pipeline?.stages || []);
       
-      // EXTRACT TRACKING-BASED VIOLATIONS
-      const newViolations: Violation[] = [];
-      trackedDetections.forEach(d => {
-        if (d.isSpeeding) {
-            newViolations.push({
-                type: 'Speeding',
-                description: `Vehicle ID:${d.trackId} moving at ${d.estimatedSpeed}km/h (Limit: 80)`,
-                severity: 'High'
-            });
-        }
-        if (d.isWrongWay) {
-            newViolations.push({
-                type: 'Wrong Lane',
-                description: `Vehicle ID:${d.trackId} detected moving against dominant traffic flow.`,
-                severity: 'High'
-            });
-        }
-      });
+      // Tracking, violation events and persistence for this source
+      const frameSrc = `data:${mimeType};base64,${base64Data}`;
+      const { crossings, predictedTracks, historyId } = pipelineRef.current.process(data, frameSrc, capturedAt, sourceId);
+      if (crossings.length > 0) setLineCrossings(prev => [...prev, ...crossings]);
 
-      // Merge Tracking Violations with Gemini Visual Violations
-      if (newViolations.length > 0) {
-          data.analysis.detectedViolations = [...data.analysis.detectedViolations, ...newViolations];
-      }
-      
       // Update UI with Bounding Boxes
-      drawDetections(trackedDetections);
+      drawDetections(data.detections, predictedTracks);
       
-      setStatus(AgentStatus.REPORT_GENERATION);
-      if (mode === 'single') await new Promise(r => setTimeout(r, 500));
-
       setResult(data);
+      resultHistoryIdRef.current = historyId ?? null;
+      lastFrameRef.current = { timestamp: data.timestamp, src: frameSrc };
+
+      // Alert rules run on the final, tracked result
+      const alerts = alertEngineRef.current.evaluate(alertSettingsRef.current.rules, data, sourceId);
+      if (alerts.length > 0) deliverAlerts(alerts);
       
       // Accumulate video data for tracking visualization
       if (mode === 'video') {
         setVideoSessionData(prev => [...prev, data]);
       }
-      
-      const historyItem: HistoryItem = {
-        ...data,
-        id: Math.random().toString(36).substr(2, 9),
-        thumbnail: `data:${mimeType};base64,${base64Data}`
-      };
-      setHistory(prev => [historyItem, ...prev]);
 
       setStatus(AgentStatus.COMPLETE);
       return true;
@@ -677,7 +817,7 @@ export default function App() {
       console.error("Process Image Error:", errorMessage);
       
       if (mode === 'single') {
-        setError(errorMessage);
+        setError(err instanceof SchemaValidationError ? err : errorMessage);
         setStatus(AgentStatus.ERROR);
       }
       // For video/camera, we throw so the caller can log warn, but we don't break the whole UI state
@@ -723,6 +863,14 @@ export default function App() {
                 )}
              </button>
 
+             <button 
+                onClick={() => navigateTo('grid')} 
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${activeView === 'grid' ? 'text-cyan-400 bg-cyan-950/30 border border-cyan-900' : 'text-slate-400 hover:text-white'}`}
+             >
+                <LayoutGrid className="w-4 h-4" />
+                <span className="hidden md:inline">Grid</span>
+             </button>
+
              <button 
                 onClick={() => navigateTo('history')} 
                 className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${activeView === 'history' ? 'text-purple-400 bg-purple-950/30 border border-purple-900' : 'text-slate-400 hover:text-white'}`}
@@ -730,14 +878,93 @@ export default function App() {
                 <HistoryIcon className="w-4 h-4" />
                 <span className="hidden md:inline">Database</span>
              </button>
+
+             <button 
+                onClick={() => navigateTo('incidents')} 
+                className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 ${activeView === 'incidents' ? 'text-amber-400 bg-amber-950/30 border border-amber-900' : 'text-slate-400 hover:text-white'}`}
+             >
+                <ShieldAlert className="w-4 h-4" />
+                <span className="hidden md:inline">Incidents</span>
+                {pendingIncidents > 0 && (
+                  <span className="px-1.5 rounded-full bg-amber-500 text-slate-900 text-[10px] font-bold">{pendingIncidents}</span>
+                )}
+             </button>
+
+             <button 
+                onClick={() => setIsAlertsOpen(true)} 
+                title="Alert rules"
+                className="px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 text-slate-400 hover:text-white"
+             >
+                <Bell className="w-4 h-4" />
+             </button>
+
+             <button 
+                onClick={() => setIsPromptsOpen(true)} 
+                title="Agent prompts"
+                className="px-3 py-2 rounded-lg text-sm font-medium transition-colors flex items-center gap-2 text-slate-400 hover:text-white"
+             >
+                <ScrollText className="w-4 h-4" />
+             </button>
+
+             <BackendStatusBadge
+                profile={PROFILE_LABELS[backendConfig.profile]}
+                health={backendHealth}
+                onClick={() => setIsSettingsOpen(true)}
+             />
           </nav>
         </div>
       </header>
 
+      {calibrationFrame && activeSourceId && (
+        <CalibrationPanel
+          frameUrl={calibrationFrame}
+          sourceLabel={describeSource(activeSourceId)}
+          calibration={calibration}
+          onSave={handleSaveCalibration}
+          onClose={() => setCalibrationFrame(null)}
+        />
+      )}
+
+      {isRulesOpen && activeSourceId && (
+        <RulesPanel
+          sourceLabel={describeSource(activeSourceId)}
+          rules={rules}
+          onSave={handleSaveRules}
+          onClose={() => setIsRulesOpen(false)}
+        />
+      )}
+
+      {isAlertsOpen && (
+        <AlertsPanel
+          settings={alertSettings}
+          backendOnline={backendHealth.state === 'online'}
+          onSave={handleSaveAlertSettings}
+          onClose={() => setIsAlertsOpen(false)}
+        />
+      )}
+
+      {isPromptsOpen && (
+        <PromptsPanel
+          definition={pipelineDefinition}
+          backendOnline={backendHealth.state === 'online'}
+          onClose={() => setIsPromptsOpen(false)}
+        />
+      )}
+
+      <AlertToasts alerts={toasts} onDismiss={id => setToasts(prev => prev.filter(t => t.id !== id))} />
+
+      {isSettingsOpen && (
+        <SettingsPanel
+          config={backendConfig}
+          onSave={handleSaveBackendConfig}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
       <main className="max-w-7xl mx-auto px-4 py-8">
         
         {/* Error Display */}
-        {error && <ErrorBanner message={error} onDismiss={() => setError(null)} />}
+        {error && <ErrorBanner error={error} onDismiss={() => setError(null)} />}
 
         {/* HOME VIEW: Upload & Hero */}
         {activeView === 'home' && (
@@ -801,7 +1028,9 @@ export default function App() {
                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
                     {history.slice(0, 4).map((h, i) => (
                         <div key={i} className="rounded-lg overflow-hidden border border-slate-700 relative group cursor-pointer" onClick={() => handleLoadHistoryItem(h)}>
-                            <img src={h.thumbnail} className="w-full h-24 object-cover opacity-60 group-hover:opacity-100 transition-opacity" />
+                            {h.thumbnail
+                              ? <img src={h.thumbnail} className="w-full h-24 object-cover opacity-60 group-hover:opacity-100 transition-opacity" />
+                              : <div className="w-full h-24 bg-slate-900" />}
                             <div className="absolute bottom-0 w-full p-2 bg-gradient-to-t from-black/80 to-transparent text-[10px] text-white font-mono">
                                 {new Date(h.timestamp).toLocaleTimeString()}
                             </div>
@@ -841,6 +1070,9 @@ export default function App() {
                       {/* OVERLAY LAYER (Bounding Boxes) */}
                       <canvas ref={overlayCanvasRef} className="absolute inset-0 z-20 w-full h-full pointer-events-none" />
 
+                      {/* ZONE LAYER (Lanes, stop lines, crosswalks; interactive while editing) */}
+                      <ZoneEditor zones={zones} editing={isEditingZones} onChange={handleZonesChange} onClose={() => setIsEditingZones(false)} />
+
                       {/* SCANNER EFFECT LAYER */}
                       {(status !== AgentStatus.IDLE && status !== AgentStatus.COMPLETE && status !== AgentStatus.ERROR) && (
                           <div className="absolute inset-0 pointer-events-none z-30">
@@ -878,6 +1110,29 @@ export default function App() {
                         <button onClick={handleCaptureScreenshot} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors flex items-center gap-2 text-sm font-medium border border-transparent hover:border-slate-700">
                           <Download className="w-4 h-4" /> Snapshot
                         </button>
+
+                        {activeSourceId && (
+                          <button onClick={openCalibration} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors flex items-center gap-2 text-sm font-medium border border-transparent hover:border-slate-700">
+                            <Ruler className="w-4 h-4" /> Calibrate
+                            <span className={`text-[10px] px-1.5 py-0.5 rounded ${calibration ? 'bg-green-500/20 text-green-400' : 'bg-slate-700 text-slate-400'}`}>
+                              {calibration ? 'ON' : 'OFF'}
+                            </span>
+                          </button>
+                        )}
+
+                        {activeSourceId && (
+                          <button onClick={() => setIsRulesOpen(true)} className="px-4 py-2 rounded-lg text-slate-400 hover:text-white hover:bg-slate-800 transition-colors flex items-center gap-2 text-sm font-medium border border-transparent hover:border-slate-700">
+                            <Gauge className="w-4 h-4" /> Rules
+                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 font-mono">{rules.speedLimit} km/h</span>
+                          </button>
+                        )}
+
+                        {activeSourceId && (
+                          <button onClick={() => setIsEditingZones(!isEditingZones)} className={`px-4 py-2 rounded-lg transition-colors flex items-center gap-2 text-sm font-medium border ${isEditingZones ? 'text-white bg-slate-800 border-slate-700' : 'text-slate-400 hover:text-white hover:bg-slate-800 border-transparent hover:border-slate-700'}`}>
+                            <Spline className="w-4 h-4" /> Zones
+                            <span className="text-[10px] px-1.5 py-0.5 rounded bg-slate-700 text-slate-300 font-mono">{zones.length}</span>
+                          </button>
+                        )}
                       </div>
 
                       <div className="flex gap-3">
@@ -913,7 +1168,16 @@ export default function App() {
                 </div>
 
                 {/* Pipeline Viz */}
-                {(status !== AgentStatus.IDLE || result) && <div className="mb-8"><AgentPipeline status={status} /></div>}
+                {(status !== AgentStatus.IDLE || result) && (
+                  <div className="mb-8">
+                    <AgentPipeline status={status} definition={pipelineDefinition} progress={agentProgress} stages={stages} promptRevision={status === AgentStatus.COMPLETE ? result?.pipeline?.promptRevision : undefined} />
+                    {feedViewers > 1 && (
+                      <p className="text-center text-xs text-slate-500 flex items-center justify-center gap-1">
+                        <Eye className="w-3 h-3" /> {feedViewers - 1} other viewer{feedViewers > 2 ? 's' : ''} watching this source
+                      </p>
+                    )}
+                  </div>
+                )}
 
                 {/* Results */}
                 {(result) && (
@@ -921,8 +1185,13 @@ export default function App() {
                      <ResultsDashboard 
                         data={result} 
                         history={history} 
+                        historyTotal={historyTotal}
+                        serverHistory={backendHealth.state === 'online'}
                         videoSessionData={videoSessionData} 
+                        lineCrossings={lineCrossings}
+                        countLines={zones.filter(z => z.kind === 'countLine')}
                         onLoadHistoryItem={handleLoadHistoryItem}
+                        onGenerateReport={handleGenerateReport}
                      />
                    </div>
                 )}
@@ -937,6 +1206,19 @@ export default function App() {
           )}
         </div>
 
+        {/* GRID VIEW: Several sources at once. Kept mounted so the feeds keep being analysed from other views */}
+        <div className={activeView === 'grid' ? 'animate-fadeIn' : 'hidden'}>
+           <div className="mb-6 flex items-center justify-between">
+             <button onClick={goBack} className="text-sm text-slate-400 hover:text-white flex items-center gap-1">
+                <ChevronLeft className="w-4 h-4" /> Back
+             </button>
+             <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                <LayoutGrid className="w-5 h-5 text-cyan-400" /> Multi-Camera Grid
+             </h2>
+           </div>
+           <MultiCameraGrid pipeline={pipelineDefinition} onResult={handleGridResult} />
+        </div>
+
         {/* HISTORY VIEW: Database */}
         {activeView === 'history' && (
            <div className="animate-fadeIn">
@@ -953,12 +1235,29 @@ export default function App() {
               <ResultsDashboard 
                 data={null} 
                 history={history} 
+                historyTotal={historyTotal}
+                serverHistory={backendHealth.state === 'online'}
                 videoSessionData={[]} 
                 onLoadHistoryItem={handleLoadHistoryItem}
               />
            </div>
         )}
 
+        {/* INCIDENTS VIEW: Violation review */}
+        {activeView === 'incidents' && (
+           <div className="animate-fadeIn">
+              <div className="mb-6 flex items-center justify-between">
+                <button onClick={goBack} className="text-sm text-slate-400 hover:text-white flex items-center gap-1">
+                   <ChevronLeft className="w-4 h-4" /> Back
+                </button>
+                <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                   <ShieldAlert className="w-5 h-5 text-amber-400" /> Violation Incidents
+                </h2>
+              </div>
+              <IncidentsView />
+           </div>
+        )}
+
       </main>
     </div>
   );
@@ -0,0 +1,22 @@
+// Guards the routes that change what the server does for everyone (alert
+// webhook, prompt templates, ingested streams): callers must send
+// "Authorization: Bearer <ADMIN_TOKEN>". With no token configured those
+// routes are disabled rather than open.
+
+const crypto = require("crypto");
+const { HttpError } = require("./errors");
+
+// Compares digests so the check takes as long whatever the guess
+const sameToken = (a, b) => {
+  const digest = (value) => crypto.createHash("sha256").update(value).digest();
+  return crypto.timingSafeEqual(digest(a), digest(b));
+};
+
+const requireAdminToken = (adminToken) => (req, res, next) => {
+  if (!adminToken) throw new HttpError(403, "This change is disabled on this backend; set ADMIN_TOKEN to allow it.");
+  const [scheme, token] = (req.get("Authorization") || "").split(" ");
+  if (scheme !== "Bearer" || !token || !sameToken(token, adminToken)) throw new HttpError(401, "A valid admin token is required.");
+  next();
+};
+
+module.exports = { requireAdminToken };
@@ -0,0 +1,167 @@
+// Pipeline definitions: which agents run on a frame, what each reads from the
+// others, and which outputs make up the result (see pipeline.json). Loading
+// checks everything that would otherwise only fail halfway through an
+// analysis: unknown schemas, references to missing or disabled agents, cycles.
+
+const fs = require("fs");
+const path = require("path");
+const { resolveSchema } = require("../validation");
+const { getPromptSet } = require("./prompts");
+
+const DEFAULT_DEFINITION = path.join(__dirname, "pipeline.json");
+const ID_PATTERN = /^[a-z][a-zA-Z0-9_-]*$/;
+const RESULT_KEYS = ["detections", "analysis", "report"];
+
+// "vision.detections" -> "vision"
+const agentOf = (ref) => ref.split(".")[0];
+
+const inputRefs = (input) => {
+  if (input === undefined) return [];
+  return typeof input === "string" ? [input] : Object.values(input);
+};
+
+const normalizeAgent = (raw, index) => {
+  const where = `agents[${index}]`;
+  if (!raw || typeof raw !== "object") throw new Error(`${where} must be an object.`);
+  if (typeof raw.id !== "string" || !ID_PATTERN.test(raw.id)) {
+    throw new Error(`${where}.id must be a name such as "vision" (letters, digits, - and _).`);
+  }
+  const who = `agent "${raw.id}"`;
+
+  const { input } = raw;
+  const validInput =
+    input === undefined ||
+    typeof input === "string" ||
+    (input && typeof input === "object" && !Array.isArray(input) && Object.values(input).every((ref) => typeof ref === "string"));
+  if (!validInput) throw new Error(`${who}: input must be an agent reference or an object of them.`);
+
+  const after = raw.after === undefined ? [] : raw.after;
+  if (!Array.isArray(after) || !after.every((id) => typeof id === "string")) {
+    throw new Error(`${who}: after must be a list of agent ids.`);
+  }
+  if (raw.instructions !== undefined && typeof raw.instructions !== "string") {
+    throw new Error(`${who}: instructions must be a string.`);
+  }
+  if (raw.schema === undefined) throw new Error(`${who}: schema is required.`);
+
+  let schema;
+  try {
+    schema = resolveSchema(raw.schema);
+  } catch (err) {
+    throw new Error(`${who}: ${err.message}`);
+  }
+  if (schema.type !== "object") throw new Error(`${who}: schema must describe a JSON object.`);
+
+  return {
+    id: raw.id,
+    label: typeof raw.label === "string" ? raw.label : raw.id,
+    description: typeof raw.description === "string" ? raw.description : "",
+    enabled: raw.enabled !== false,
+    optional: raw.optional === true,
+    image: raw.image === true,
+    input,
+    instructions: raw.instructions,
+    schema,
+    dependsOn: [...new Set([...inputRefs(input).map(agentOf), ...after])],
+  };
+};
+
+const findCycle = (agents) => {
+  const byId = new Map(agents.map((agent) => [agent.id, agent]));
+  const state = new Map(); // id -> "visiting" | "done"
+  const visit = (id, trail) => {
+    if (state.get(id) === "done") return null;
+    if (state.get(id) === "visiting") return [...trail.slice(trail.indexOf(id)), id];
+    state.set(id, "visiting");
+    for (const dep of byId.get(id).dependsOn) {
+      const cycle = visit(dep, [...trail, id]);
+      if (cycle) return cycle;
+    }
+    state.set(id, "done");
+    return null;
+  };
+  for (const agent of agents) {
+    const cycle = visit(agent.id, []);
+    if (cycle) return cycle;
+  }
+  return null;
+};
+
+// Throws with a message naming the offending agent; returns the definition
+// with defaults filled in, schemas resolved and dependencies worked out.
+const parsePipelineDefinition = (raw) => {
+  if (!raw || typeof raw !== "object") throw new Error("Definition must be a JSON object.");
+  if (!Array.isArray(raw.agents) || raw.agents.length === 0) throw new Error("agents must be a non-empty list.");
+
+  const agents = raw.agents.map(normalizeAgent);
+  const byId = new Map();
+  agents.forEach((agent) => {
+    if (byId.has(agent.id)) throw new Error(`Agent id "${agent.id}" is used twice.`);
+    byId.set(agent.id, agent);
+  });
+
+  const defaultPrompts = getPromptSet();
+  agents.forEach((agent) => {
+    agent.dependsOn.forEach((dep) => {
+      if (dep === agent.id) throw new Error(`agent "${agent.id}" depends on itself.`);
+      if (!byId.has(dep)) throw new Error(`agent "${agent.id}" refers to unknown agent "${dep}".`);
+      if (agent.enabled && !byId.get(dep).enabled) {
+        throw new Error(`agent "${agent.id}" depends on "${dep}", which is disabled.`);
+      }
+    });
+    if (agent.instructions === undefined && !defaultPrompts[agent.id]) {
+      throw new Error(`agent "${agent.id}" needs instructions (there is no built-in prompt for it).`);
+    }
+  });
+
+  const cycle = findCycle(agents);
+  if (cycle) throw new Error(`Agents depend on each other in a cycle: ${cycle.join(" -> ")}.`);
+
+  const result = raw.result || {};
+  RESULT_KEYS.forEach((key) => {
+    const ref = result[key];
+    if (typeof ref !== "string") throw new Error(`result.${key} must name the agent output to use.`);
+    const agent = byId.get(agentOf(ref));
+    if (!agent || !agent.enabled || agent.optional) {
+      throw new Error(`result.${key} must come from an enabled, non-optional agent ("${ref}").`);
+    }
+  });
+
+  return {
+    name: typeof raw.name === "string" ? raw.name : "custom",
+    agents,
+    result: Object.fromEntries(RESULT_KEYS.map((key) => [key, result[key]])),
+  };
+};
+
+const loadPipelineDefinition = (filePath = DEFAULT_DEFINITION) => {
+  try {
+    return parsePipelineDefinition(JSON.parse(fs.readFileSync(filePath, "utf8")));
+  } catch (err) {
+    throw new Error(`Invalid pipeline definition ${filePath}: ${err.message}`);
+  }
+};
+
+// Agent id -> the instructions it starts with: its own from the definition, else the built-in prompt
+const defaultPrompts = (definition) => {
+  const builtIn = getPromptSet();
+  return Object.fromEntries(
+    definition.agents.map((agent) => [agent.id, agent.instructions !== undefined ? agent.instructions : builtIn[agent.id]])
+  );
+};
+
+// What the UI needs to draw the pipeline; instructions and schemas stay on the server
+const describePipeline = (definition) => ({
+  name: definition.name,
+  agents: definition.agents.map(({ id, label, description, enabled, optional, image, dependsOn }) => ({
+    id,
+    label,
+    description,
+    enabled,
+    optional,
+    image,
+    dependsOn,
+  })),
+});
+
+module.exports = { loadPipelineDefinition, parsePipelineDefinition, describePipeline, defaultPrompts, agentOf };
@@ -0,0 +1,187 @@
+// Agent pipeline run as a DAG (see definition.js and pipeline.json). Each
+// agent is a single provider call with its own instructions and schema; its
+// INPUT is taken from the outputs of the agents it depends on, and agents
+// whose dependencies are done run concurrently. The result carries a
+// `pipeline` record: per agent its latency, attempts, token usage, cost and
+// validated output (or error, for optional agents), so the UI can show what
+// each stage did, and which prompt version each agent was given. Callers can
+// follow along through onProgress({ agent, state }), state being started,
+// completed (with that stage's record), failed or skipped.
+
+const { HttpError, SchemaValidationError } = require("../errors");
+const { getSchema, validate, coerce, parseModelJson } = require("../validation");
+const { getPromptSet } = require("./prompts");
+const { loadPipelineDefinition, defaultPrompts, agentOf } = require("./definition");
+
+const MAX_ATTEMPTS = Number(process.env.AGENT_MAX_ATTEMPTS) || 3;
+
+const addUsage = (total, usage = {}) => {
+  total.inputTokens += usage.inputTokens || 0;
+  total.outputTokens += usage.outputTokens || 0;
+  total.totalTokens = total.inputTokens + total.outputTokens;
+  return total;
+};
+
+const emptyUsage = () => ({ inputTokens: 0, outputTokens: 0, totalTokens: 0 });
+
+// USD, or undefined when the provider does not know its model's price
+const costOf = (pricing, usage) => {
+  if (!pricing) return undefined;
+  const cost = (usage.inputTokens * pricing.inputPerMillion + usage.outputTokens * pricing.outputPerMillion) / 1e6;
+  return Math.round(cost * 1e8) / 1e8;
+};
+
+// Calls the provider until its output parses and validates against the
+// agent's schema. Each retry tells the model what was wrong last time.
+// Attempts and usage are tallied as they happen: rejected attempts were
+// billed too, including those of an agent that fails in the end.
+const runAgent = async (provider, agent, { schema, instructions, ...request }, tally) => {
+  let feedback = "";
+  let issues = [];
+
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    tally.attempts = attempt;
+    const response = await provider.generate({ agent, instructions: instructions + feedback, schema, ...request });
+    addUsage(tally.usage, response.usage);
+
+    let output;
+    try {
+      output = coerce(schema, parseModelJson(response.text));
+      issues = validate(schema, output);
+    } catch (err) {
+      issues = [`response is not valid JSON (${err.message})`];
+    }
+    if (issues.length === 0) return output;
+
+    console.warn(`${agent} agent attempt ${attempt}/${MAX_ATTEMPTS} rejected: ${issues.slice(0, 5).join("; ")}`);
+    feedback =
+      `\n\nYour previous response was rejected: ${issues.slice(0, 10).join("; ")}. ` +
+      "Respond again with JSON that matches the schema exactly.";
+  }
+
+  throw new SchemaValidationError(agent, issues);
+};
+
+// "vision.detections" -> outputs.vision.detections
+const lookup = (outputs, ref) =>
+  ref
+    .split(".")
+    .slice(1)
+    .reduce((value, key) => (value == null ? value : value[key]), outputs[agentOf(ref)]);
+
+const agentInput = (outputs, input) => {
+  if (input === undefined) return undefined;
+  if (typeof input === "string") return lookup(outputs, input);
+  return Object.fromEntries(Object.entries(input).map(([key, ref]) => [key, lookup(outputs, ref)]));
+};
+
+let defaultDefinition = null;
+
+// Without a prompt store (prompts/store.js) every agent gets its built-in
+// instructions, which is what a new store starts with as revision 1
+const builtInTemplates = (definition) => {
+  const texts = defaultPrompts(definition);
+  return {
+    revision: 1,
+    prompts: Object.fromEntries(Object.keys(texts).map((agent) => [agent, { version: 1, text: texts[agent] }])),
+  };
+};
+
+// templates: the prompt store's snapshot() for this analysis
+const runTrafficPipeline = async (provider, { prompt, image, mimeType, definition, templates }, onProgress = () => {}) => {
+  if (!getPromptSet(prompt)) throw new HttpError(400, `Unknown prompt "${prompt}".`);
+  if (!definition) definition = defaultDefinition || (defaultDefinition = loadPipelineDefinition());
+  if (!templates) templates = builtInTemplates(definition);
+
+  const frame = { data: image, mimeType };
+  const agents = definition.agents.filter((agent) => agent.enabled);
+  const byId = new Map(agents.map((agent) => [agent.id, agent]));
+  const outputs = {};
+  const stages = new Map();
+  const runs = new Map(); // id -> promise of whether the agent produced output
+  const startedAt = Date.now();
+
+  const execute = async (agent) => {
+    onProgress({ agent: agent.id, state: "started" });
+    const stageStartedAt = Date.now();
+    const tally = { attempts: 0, usage: emptyUsage() };
+    const template = templates.prompts[agent.id] || builtInTemplates(definition).prompts[agent.id];
+    const stageOf = (fields) => ({
+      agent: agent.id,
+      model: provider.model,
+      startedAt: stageStartedAt,
+      durationMs: Date.now() - stageStartedAt,
+      attempts: Math.max(1, tally.attempts),
+      usage: tally.usage,
+      costUsd: costOf(provider.pricing, tally.usage),
+      promptVersion: template.version,
+      ...fields,
+    });
+
+    try {
+      const output = await runAgent(
+        provider,
+        agent.id,
+        {
+          schema: agent.schema,
+          instructions: template.text,
+          input: agentInput(outputs, agent.input),
+          image: agent.image ? frame : undefined,
+        },
+        tally
+      );
+      outputs[agent.id] = output;
+      const stage = stageOf({ output });
+      stages.set(agent.id, stage);
+      onProgress({ agent: agent.id, state: "completed", stage });
+      return true;
+    } catch (err) {
+      onProgress({ agent: agent.id, state: "failed", error: err.message });
+      if (!agent.optional) throw err;
+      // An optional agent's failure only costs the agents that need its output
+      console.warn(`Optional ${agent.id} agent failed:`, err.message);
+      stages.set(agent.id, stageOf({ error: err.message }));
+      return false;
+    }
+  };
+
+  const run = (agent) => {
+    if (!runs.has(agent.id)) {
+      runs.set(
+        agent.id,
+        Promise.all(agent.dependsOn.map((id) => run(byId.get(id)))).then((done) => {
+          if (done.every(Boolean)) return execute(agent);
+          onProgress({ agent: agent.id, state: "skipped" });
+          return false;
+        })
+      );
+    }
+    return runs.get(agent.id);
+  };
+
+  await Promise.all(agents.map(run));
+
+  const finished = agents.filter((agent) => stages.has(agent.id)).map((agent) => stages.get(agent.id));
+  const usage = finished.reduce((total, stage) => addUsage(total, stage.usage), emptyUsage());
+  const result = {
+    timestamp: Date.now(),
+    detections: lookup(outputs, definition.result.detections),
+    analysis: lookup(outputs, definition.result.analysis),
+    report: lookup(outputs, definition.result.report),
+    pipeline: {
+      provider: provider.name,
+      model: provider.model,
+      promptRevision: templates.revision,
+      totalMs: Date.now() - startedAt,
+      usage,
+      costUsd: costOf(provider.pricing, usage),
+      stages: finished,
+    },
+  };
+
+  const issues = validate(getSchema("FullAnalysisResult"), result);
+  if (issues.length > 0) throw new SchemaValidationError("pipeline", issues);
+  return result;
+};
+
+module.exports = { runTrafficPipeline };
@@ -0,0 +1,18 @@
+// Agent pipeline the backend runs on every frame:
+//   GET /api/pipeline  agents with their labels, enabled/optional flags, whether they
+//                      see the image, and the agents each depends on
+
+const express = require("express");
+const { describePipeline } = require("./definition");
+
+const createPipelineRouter = (definition) => {
+  const router = express.Router();
+
+  router.get("/", (req, res) => {
+    res.json(describePipeline(definition));
+  });
+
+  return router;
+};
+
+module.exports = { createPipelineRouter };
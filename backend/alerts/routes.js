@@ -0,0 +1,84 @@
+// REST API for alerts raised by the UI's alert rules:
+//   GET  /api/alerts               alerts received since start-up, newest first (limit)
+//   POST /api/alerts               record an Alert and forward it to the webhook, if configured
+//   GET  /api/alerts/webhook       webhook URL and whether a signing secret is set
+//   PUT  /api/alerts/webhook       set { url, secret? }; an empty url disables delivery
+//   POST /api/alerts/webhook/test  send a test alert and return the delivery result
+// Changing or testing the webhook needs the admin token (see adminToken.js), and
+// the URL's host must pass ALERT_ALLOWED_HOSTS (see hostPolicy.js).
+
+const express = require("express");
+const { HttpError } = require("../errors");
+const { requireAdminToken } = require("../adminToken");
+const { getSchema, validate } = require("../validation");
+const { isHttpUrl } = require("./webhook");
+
+const RECENT_LIMIT = 200;
+
+const createAlertsRouter = (webhook, { adminToken, hostPolicy }) => {
+  const router = express.Router();
+  const admin = requireAdminToken(adminToken);
+  const alertSchema = getSchema("Alert");
+  const recent = [];
+
+  router.get("/", (req, res) => {
+    const limit = req.query.limit === undefined ? 50 : Number(req.query.limit);
+    if (!Number.isInteger(limit) || limit < 0) throw new HttpError(400, "Query parameter 'limit' must be a non-negative integer.");
+    res.json(recent.slice(0, limit));
+  });
+
+  router.post("/", (req, res, next) => {
+    const alert = req.body;
+    const issues = validate(alertSchema, alert);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: "Body is not a valid Alert.", issues });
+    }
+    recent.unshift(alert);
+    recent.length = Math.min(recent.length, RECENT_LIMIT);
+
+    if (!webhook.enabled) return res.status(202).json({ delivered: false, error: "No webhook configured" });
+    webhook
+      .send({ event: "alert", alert })
+      .then((delivery) => {
+        if (!delivery.delivered) console.error("Alert webhook delivery failed:", delivery.error || `HTTP ${delivery.status}`);
+        res.status(202).json(delivery);
+      })
+      .catch(next);
+  });
+
+  router.get("/webhook", (req, res) => {
+    res.json(webhook.describe());
+  });
+
+  router.put("/webhook", admin, async (req, res, next) => {
+    try {
+      const { url } = req.body || {};
+      if (typeof url === "string" && isHttpUrl(url)) await hostPolicy.check(url);
+      res.json(webhook.configure(req.body));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post("/webhook/test", admin, (req, res, next) => {
+    const alert = {
+      id: `test-${Date.now()}`,
+      ruleId: "test",
+      ruleName: "Webhook test",
+      message: "Test alert from the traffic monitor backend.",
+      severity: "Low",
+      timestamp: Date.now(),
+    };
+    webhook.send({ event: "test", alert }).then((delivery) => res.json(delivery)).catch(next);
+  });
+
+  // Errors thrown by the handlers above
+  router.use((err, req, res, next) => {
+    if (!(err instanceof HttpError)) return next(err);
+    res.status(err.status).json({ error: err.message });
+  });
+
+  return router;
+};
+
+module.exports = { createAlertsRouter };
@@ -0,0 +1,81 @@
+// Outgoing alert webhook: POSTs alerts as JSON to a configured URL. When a
+// secret is set the body is signed with HMAC-SHA256 and sent in the
+// X-Alert-Signature header ("sha256=<hex>") so receivers can verify it.
+// The URL and secret start from ALERT_WEBHOOK_URL / ALERT_WEBHOOK_SECRET and
+// changes made through the API are saved to a JSON file. Redirects are not
+// followed: only the configured URL's own host is checked (see hostPolicy.js).
+
+const fs = require("fs");
+const path = require("path");
+const crypto = require("crypto");
+const { HttpError } = require("../errors");
+
+const TIMEOUT_MS = 5000;
+
+const signBody = (secret, body) => "sha256=" + crypto.createHmac("sha256", secret).update(body).digest("hex");
+
+const isHttpUrl = (value) => {
+  try {
+    return ["http:", "https:"].includes(new URL(value).protocol);
+  } catch (err) {
+    return false;
+  }
+};
+
+const readSaved = (configPath) => {
+  if (!configPath || !fs.existsSync(configPath)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(configPath, "utf8"));
+  } catch (err) {
+    console.error(`Ignoring unreadable alert webhook config (${configPath}):`, err.message);
+    return null;
+  }
+};
+
+const openWebhook = (configPath, defaults = {}) => {
+  let config = { url: defaults.url || "", secret: defaults.secret || "", ...readSaved(configPath) };
+
+  const describe = () => ({ url: config.url, hasSecret: Boolean(config.secret) });
+
+  // An empty url disables delivery; an omitted secret keeps the current one
+  const configure = ({ url, secret } = {}) => {
+    if (typeof url !== "string" || (url !== "" && !isHttpUrl(url))) {
+      throw new HttpError(400, "'url' must be an http(s) URL, or empty to disable the webhook.");
+    }
+    if (secret !== undefined && typeof secret !== "string") throw new HttpError(400, "'secret' must be a string.");
+    config = { url, secret: secret === undefined ? config.secret : secret };
+    if (configPath) {
+      fs.mkdirSync(path.dirname(configPath), { recursive: true });
+      fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+    }
+    return describe();
+  };
+
+  // Resolves with the delivery outcome; an unreachable receiver is reported, not thrown
+  const send = async (payload) => {
+    if (!config.url) throw new HttpError(409, "No alert webhook is configured.");
+    const body = JSON.stringify(payload);
+    const headers = { "Content-Type": "application/json", "User-Agent": "multi-ai-traffic-alerts" };
+    if (config.secret) headers["X-Alert-Signature"] = signBody(config.secret, body);
+
+    const started = Date.now();
+    try {
+      const response = await fetch(config.url, { method: "POST", headers, body, redirect: "error", signal: AbortSignal.timeout(TIMEOUT_MS) });
+      return { delivered: response.ok, status: response.status, latencyMs: Date.now() - started };
+    } catch (err) {
+      const error = err.name === "TimeoutError" ? "Timed out" : (err.cause && err.cause.code) || err.message;
+      return { delivered: false, error, latencyMs: Date.now() - started };
+    }
+  };
+
+  return {
+    describe,
+    configure,
+    send,
+    get enabled() {
+      return Boolean(config.url);
+    },
+  };
+};
+
+module.exports = { openWebhook, signBody, isHttpUrl };
@@ -0,0 +1,155 @@
+// REST API over the analysis database:
+//   GET    /api/analyses              list with facet counts (filters: from, to, minCongestion,
+//                                     maxCongestion, q; repeatable facets: sourceId, flowStatus,
+//                                     violationType, severity, model, promptRevision; sort:
+//                                     timestamp|congestion|vehicles|violations, order: asc|desc;
+//                                     paging: limit, offset)
+//   POST   /api/analyses              import one result (optional id, sourceId, base64 image +
+//                                     mimeType: image/jpeg, png, webp or gif); an existing id is
+//                                     replaced instead
+//   GET    /api/analyses/sources      distinct source ids
+//   GET    /api/analyses/:id          one analysis
+//   GET    /api/analyses/:id/image    the analysed frame
+//   PUT    /api/analyses/:id          replace the result (client-side enrichment)
+//   DELETE /api/analyses/:id          delete an analysis and its image
+//   POST   /api/analyses/bulk-delete  delete { ids: [...] }, returns { deleted }
+
+const express = require("express");
+const { HttpError } = require("../errors");
+const { getSchema, validate } = require("../validation");
+const { SORT_COLUMNS, IMAGE_EXTENSIONS, isImageType } = require("./store");
+
+const NUMBER_FILTERS = ["from", "to", "minCongestion", "maxCongestion"];
+
+// Repeated query parameters (?severity=High&severity=Medium) arrive as arrays
+const toList = (value) => (value === undefined ? [] : [].concat(value).map(String).filter(Boolean));
+
+const parseFilters = (query) => {
+  const filters = {
+    sourceIds: toList(query.sourceId),
+    flowStatuses: toList(query.flowStatus),
+    violationTypes: toList(query.violationType),
+    severities: toList(query.severity),
+    models: toList(query.model),
+    promptRevisions: toList(query.promptRevision),
+    text: query.q || undefined,
+  };
+  NUMBER_FILTERS.forEach((key) => {
+    if (query[key] === undefined || query[key] === "") return;
+    const value = Number(query[key]);
+    if (!Number.isFinite(value)) throw new HttpError(400, `Query parameter '${key}' must be a number.`);
+    filters[key] = value;
+  });
+  return filters;
+};
+
+const parsePaging = (query) => {
+  const limit = query.limit === undefined ? 25 : Number(query.limit);
+  const offset = query.offset === undefined ? 0 : Number(query.offset);
+  if (!Number.isInteger(limit) || !Number.isInteger(offset)) {
+    throw new HttpError(400, "Query parameters 'limit' and 'offset' must be integers.");
+  }
+  return { limit, offset };
+};
+
+const parseSort = (query) => {
+  const field = query.sort === undefined ? "timestamp" : String(query.sort);
+  const direction = query.order === undefined ? "desc" : String(query.order);
+  if (!(field in SORT_COLUMNS)) {
+    throw new HttpError(400, `Query parameter 'sort' must be one of: ${Object.keys(SORT_COLUMNS).join(", ")}.`);
+  }
+  if (direction !== "asc" && direction !== "desc") throw new HttpError(400, "Query parameter 'order' must be 'asc' or 'desc'.");
+  return { field, direction };
+};
+
+const MAX_ID_LENGTH = 100;
+
+// Identifiers and image travel with client copies of a record but are not part of the stored result
+const splitBody = (body) => {
+  const { id, analysisId, sourceId, hasImage, thumbnail, image, mimeType, ...result } = body || {};
+  return { id, sourceId, image, mimeType, result };
+};
+
+const createAnalysesRouter = (store) => {
+  const router = express.Router();
+  const resultSchema = getSchema("FullAnalysisResult");
+
+  router.get("/", (req, res) => {
+    res.json(store.list(parseFilters(req.query), parsePaging(req.query), parseSort(req.query)));
+  });
+
+  router.post("/", (req, res) => {
+    const { id, sourceId, image, mimeType, result } = splitBody(req.body);
+    if (id !== undefined && (typeof id !== "string" || !id || id.length > MAX_ID_LENGTH)) {
+      throw new HttpError(400, `'id' must be a non-empty string of at most ${MAX_ID_LENGTH} characters.`);
+    }
+    if (image !== undefined && !isImageType(mimeType)) {
+      throw new HttpError(400, `'mimeType' must be one of ${Object.keys(IMAGE_EXTENSIONS).join(", ")}.`);
+    }
+    const issues = validate(resultSchema, result);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: "Body is not a valid FullAnalysisResult.", issues });
+    }
+    if (id && store.update(id, result, { sourceId })) return res.json(store.get(id));
+    const newId = store.insert(result, { id, sourceId, image, mimeType });
+    res.status(201).json(store.get(newId));
+  });
+
+  router.post("/bulk-delete", (req, res) => {
+    const ids = req.body && req.body.ids;
+    if (!Array.isArray(ids) || !ids.every((id) => typeof id === "string")) {
+      throw new HttpError(400, "Body must be { ids: string[] }.");
+    }
+    res.json({ deleted: store.removeMany(ids) });
+  });
+
+  router.get("/sources", (req, res) => {
+    res.json(store.sources());
+  });
+
+  router.get("/:id", (req, res) => {
+    const record = store.get(req.params.id);
+    if (!record) throw new HttpError(404, "Analysis not found.");
+    res.json(record);
+  });
+
+  router.get("/:id/image", (req, res) => {
+    const image = store.getImage(req.params.id);
+    if (!image) throw new HttpError(404, "Image not found.");
+    // Records stored before types were checked may carry anything; those are not rendered
+    const known = isImageType(image.mimeType);
+    res
+      .set({
+        "Cache-Control": "private, max-age=86400",
+        "X-Content-Type-Options": "nosniff",
+        "Content-Disposition": `inline; filename="frame.${known ? IMAGE_EXTENSIONS[image.mimeType] : "bin"}"`,
+      })
+      .type(known ? image.mimeType : "application/octet-stream")
+      .send(image.data);
+  });
+
+  router.put("/:id", (req, res) => {
+    const { sourceId, result } = splitBody(req.body);
+    const issues = validate(resultSchema, result);
+    if (issues.length > 0) {
+      return res.status(400).json({ error: "Body is not a valid FullAnalysisResult.", issues });
+    }
+    if (!store.update(req.params.id, result, { sourceId })) throw new HttpError(404, "Analysis not found.");
+    res.json(store.get(req.params.id));
+  });
+
+  router.delete("/:id", (req, res) => {
+    if (!store.remove(req.params.id)) throw new HttpError(404, "Analysis not found.");
+    res.status(204).end();
+  });
+
+  // Errors thrown by the handlers above
+  router.use((err, req, res, next) => {
+    if (!(err instanceof HttpError)) return next(err);
+    res.status(err.status).json({ error: err.message });
+  });
+
+  return router;
+};
+
+module.exports = { createAnalysesRouter };
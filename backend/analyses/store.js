@@ -0,0 +1,289 @@
+// SQLite-backed analysis database: every FullAnalysisResult (see types.ts) with
+// its source frame. Filterable columns are denormalized from the result JSON.
+
+const crypto = require("crypto");
+const fs = require("fs");
+const path = require("path");
+const Database = require("better-sqlite3");
+
+const MAX_PAGE_SIZE = 200;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS analyses (
+    id TEXT PRIMARY KEY,
+    timestamp INTEGER NOT NULL,
+    source_id TEXT NOT NULL DEFAULT '',
+    congestion INTEGER NOT NULL,
+    flow_status TEXT NOT NULL DEFAULT '',
+    total_vehicles INTEGER NOT NULL,
+    pedestrian_count INTEGER NOT NULL,
+    violation_count INTEGER NOT NULL,
+    model TEXT NOT NULL DEFAULT '',
+    prompt_revision TEXT NOT NULL DEFAULT '',
+    search_text TEXT NOT NULL,
+    result TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS analyses_timestamp ON analyses (timestamp);
+  CREATE INDEX IF NOT EXISTS analyses_source_time ON analyses (source_id, timestamp);
+  CREATE INDEX IF NOT EXISTS analyses_congestion ON analyses (congestion);
+
+  CREATE TABLE IF NOT EXISTS analysis_violations (
+    analysis_id TEXT NOT NULL REFERENCES analyses (id) ON DELETE CASCADE,
+    type TEXT NOT NULL,
+    severity TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS analysis_violations_type ON analysis_violations (type, analysis_id);
+  CREATE INDEX IF NOT EXISTS analysis_violations_severity ON analysis_violations (severity, analysis_id);
+  CREATE INDEX IF NOT EXISTS analysis_violations_analysis ON analysis_violations (analysis_id);
+
+  CREATE TABLE IF NOT EXISTS analysis_images (
+    analysis_id TEXT PRIMARY KEY REFERENCES analyses (id) ON DELETE CASCADE,
+    mime_type TEXT NOT NULL,
+    data BLOB NOT NULL
+  );
+`;
+
+// Columns added after the first release: [name, definition, backfill expression]
+const MIGRATIONS = [
+  ["flow_status", "TEXT NOT NULL DEFAULT ''", "COALESCE(json_extract(result, '$.analysis.trafficFlowStatus'), '')"],
+  ["model", "TEXT NOT NULL DEFAULT ''", "COALESCE(json_extract(result, '$.pipeline.model'), '')"],
+  ["prompt_revision", "TEXT NOT NULL DEFAULT ''", "COALESCE(CAST(json_extract(result, '$.pipeline.promptRevision') AS TEXT), '')"],
+];
+
+const migrate = (db) => {
+  const columns = db.prepare("PRAGMA table_info(analyses)").all().map((c) => c.name);
+  MIGRATIONS.filter(([name]) => !columns.includes(name)).forEach(([name, definition, backfill]) => {
+    db.exec(`ALTER TABLE analyses ADD COLUMN ${name} ${definition}`);
+    db.exec(`UPDATE analyses SET ${name} = ${backfill}`);
+  });
+};
+
+const searchText = (result) =>
+  [
+    result.report.summary,
+    ...result.report.recommendations,
+    result.analysis.trafficFlowStatus,
+    ...result.analysis.detectedViolations.flatMap((v) => [v.type, v.description]),
+    ...result.detections.map((d) => d.object),
+    (result.locationContext && result.locationContext.address) || "",
+  ]
+    .join(" ")
+    .toLowerCase();
+
+const toRow = (id, result, sourceId) => ({
+  id,
+  timestamp: result.timestamp,
+  source_id: sourceId || "",
+  congestion: result.analysis.congestionLevel,
+  flow_status: result.analysis.trafficFlowStatus,
+  total_vehicles: result.analysis.totalVehicles,
+  pedestrian_count: result.analysis.pedestrianCount,
+  violation_count: result.analysis.detectedViolations.length,
+  model: (result.pipeline && result.pipeline.model) || "",
+  prompt_revision: result.pipeline && result.pipeline.promptRevision ? String(result.pipeline.promptRevision) : "",
+  search_text: searchText(result),
+  result: JSON.stringify(result),
+});
+
+// Stored row -> API record (a HistoryItem without its thumbnail URL)
+const toRecord = (row) => ({
+  ...JSON.parse(row.result),
+  id: row.id,
+  analysisId: row.id,
+  ...(row.source_id ? { sourceId: row.source_id } : {}),
+  hasImage: !!row.has_image,
+});
+
+const escapeLike = (value) => value.replace(/[\\%_]/g, (c) => `\\${c}`);
+
+// Sortable fields -> columns
+// Frames are served back from the backend's own origin, so only these types are stored
+const IMAGE_EXTENSIONS = { "image/jpeg": "jpg", "image/png": "png", "image/webp": "webp", "image/gif": "gif" };
+
+const isImageType = (mimeType) => typeof mimeType === "string" && Object.hasOwn(IMAGE_EXTENSIONS, mimeType);
+
+const SORT_COLUMNS = {
+  timestamp: "a.timestamp",
+  congestion: "a.congestion",
+  vehicles: "a.total_vehicles",
+  violations: "a.violation_count",
+};
+
+// Faceted filters: a record matches if it has any of the listed values
+const FACETS = {
+  source: { filter: "sourceIds", column: "a.source_id" },
+  flowStatus: { filter: "flowStatuses", column: "a.flow_status" },
+  violationType: { filter: "violationTypes", column: "v.type", violation: true },
+  severity: { filter: "severities", column: "v.severity", violation: true },
+  model: { filter: "models", column: "a.model" },
+  promptRevision: { filter: "promptRevisions", column: "a.prompt_revision" },
+};
+
+// `column IN (@name0, @name1, ...)` with its parameters
+const inList = (column, name, values, params) => {
+  values.forEach((value, i) => {
+    params[`${name}${i}`] = value;
+  });
+  return `${column} IN (${values.map((_, i) => `@${name}${i}`).join(", ")})`;
+};
+
+// Filters -> SQL WHERE clause; every field is optional. Facet filters are
+// left out with `withFacets: false`, for counting facet values.
+const buildWhere = (filters, { withFacets = true } = {}) => {
+  const clauses = [];
+  const params = {};
+  if (filters.from !== undefined) {
+    clauses.push("a.timestamp >= @from");
+    params.from = filters.from;
+  }
+  if (filters.to !== undefined) {
+    clauses.push("a.timestamp <= @to");
+    params.to = filters.to;
+  }
+  if (filters.minCongestion !== undefined) {
+    clauses.push("a.congestion >= @minCongestion");
+    params.minCongestion = filters.minCongestion;
+  }
+  if (filters.maxCongestion !== undefined) {
+    clauses.push("a.congestion <= @maxCongestion");
+    params.maxCongestion = filters.maxCongestion;
+  }
+  if (withFacets) {
+    Object.entries(FACETS).forEach(([name, facet]) => {
+      const values = filters[facet.filter] || [];
+      if (values.length === 0) return;
+      const clause = inList(facet.column, name, values, params);
+      clauses.push(
+        facet.violation
+          ? `EXISTS (SELECT 1 FROM analysis_violations v WHERE v.analysis_id = a.id AND ${clause})`
+          : clause
+      );
+    });
+  }
+  String(filters.text || "")
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word, i) => {
+      clauses.push(`a.search_text LIKE @word${i} ESCAPE '\\'`);
+      params[`word${i}`] = `%${escapeLike(word)}%`;
+    });
+  return { where: clauses.length ? `WHERE ${clauses.join(" AND ")}` : "", params };
+};
+
+const openAnalysisStore = (filePath) => {
+  if (filePath !== ":memory:") fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const db = new Database(filePath);
+  db.pragma("journal_mode = WAL");
+  db.pragma("foreign_keys = ON");
+  db.exec(SCHEMA);
+  migrate(db);
+
+  const statements = {
+    insert: db.prepare(`
+      INSERT INTO analyses (id, timestamp, source_id, congestion, flow_status, total_vehicles, pedestrian_count, violation_count, model, prompt_revision, search_text, result)
+      VALUES (@id, @timestamp, @source_id, @congestion, @flow_status, @total_vehicles, @pedestrian_count, @violation_count, @model, @prompt_revision, @search_text, @result)
+    `),
+    update: db.prepare(`
+      UPDATE analyses SET timestamp = @timestamp, source_id = @source_id, congestion = @congestion, flow_status = @flow_status,
+        total_vehicles = @total_vehicles, pedestrian_count = @pedestrian_count, violation_count = @violation_count, model = @model,
+        prompt_revision = @prompt_revision, search_text = @search_text, result = @result
+      WHERE id = @id
+    `),
+    insertViolation: db.prepare("INSERT INTO analysis_violations (analysis_id, type, severity) VALUES (?, ?, ?)"),
+    clearViolations: db.prepare("DELETE FROM analysis_violations WHERE analysis_id = ?"),
+    insertImage: db.prepare("INSERT INTO analysis_images (analysis_id, mime_type, data) VALUES (?, ?, ?)"),
+    get: db.prepare(`
+      SELECT a.*, EXISTS (SELECT 1 FROM analysis_images i WHERE i.analysis_id = a.id) AS has_image
+      FROM analyses a WHERE a.id = ?
+    `),
+    getImage: db.prepare("SELECT mime_type, data FROM analysis_images WHERE analysis_id = ?"),
+    remove: db.prepare("DELETE FROM analyses WHERE id = ?"),
+    sources: db.prepare("SELECT DISTINCT source_id FROM analyses WHERE source_id != '' ORDER BY source_id"),
+    count: db.prepare("SELECT COUNT(*) AS n FROM analyses"),
+  };
+
+  const writeViolations = (id, result) => {
+    statements.clearViolations.run(id);
+    result.analysis.detectedViolations.forEach((v) => statements.insertViolation.run(id, v.type, v.severity));
+  };
+
+  const insert = db.transaction((result, { id = crypto.randomUUID(), sourceId, image, mimeType } = {}) => {
+    statements.insert.run(toRow(id, result, sourceId));
+    writeViolations(id, result);
+    if (image && isImageType(mimeType)) statements.insertImage.run(id, mimeType, Buffer.from(image, "base64"));
+    return id;
+  });
+
+  // Replaces the stored result (e.g. after client-side tracking or location enrichment)
+  const update = db.transaction((id, result, { sourceId } = {}) => {
+    const existing = statements.get.get(id);
+    if (!existing) return false;
+    statements.update.run(toRow(id, result, sourceId === undefined ? existing.source_id : sourceId));
+    writeViolations(id, result);
+    return true;
+  });
+
+  // Value -> count for every facet, over the non-facet filters only, so
+  // selecting one value leaves the alternatives visible
+  const countFacets = (filters) => {
+    const { where, params } = buildWhere(filters, { withFacets: false });
+    const facets = {};
+    Object.entries(FACETS).forEach(([name, facet]) => {
+      const rows = facet.violation
+        ? db
+            .prepare(`
+              SELECT ${facet.column} AS value, COUNT(DISTINCT a.id) AS n
+              FROM analyses a JOIN analysis_violations v ON v.analysis_id = a.id ${where}
+              GROUP BY value
+            `)
+            .all(params)
+        : db.prepare(`SELECT ${facet.column} AS value, COUNT(*) AS n FROM analyses a ${where} GROUP BY value`).all(params);
+      facets[name] = Object.fromEntries(rows.filter((row) => row.value).map((row) => [row.value, row.n]));
+    });
+    return facets;
+  };
+
+  const list = (filters = {}, { limit = 25, offset = 0 } = {}, { field = "timestamp", direction = "desc" } = {}) => {
+    const { where, params } = buildWhere(filters);
+    const column = SORT_COLUMNS[field] || SORT_COLUMNS.timestamp;
+    const order = direction === "asc" ? "ASC" : "DESC";
+    const total = db.prepare(`SELECT COUNT(*) AS n FROM analyses a ${where}`).get(params).n;
+    const rows = db
+      .prepare(`
+        SELECT a.*, EXISTS (SELECT 1 FROM analysis_images i WHERE i.analysis_id = a.id) AS has_image
+        FROM analyses a ${where}
+        ORDER BY ${column} ${order}, a.timestamp DESC
+        LIMIT @limit OFFSET @offset
+      `)
+      .all({ ...params, limit: Math.min(Math.max(1, limit), MAX_PAGE_SIZE), offset: Math.max(0, offset) });
+    return { items: rows.map(toRecord), total, facets: countFacets(filters) };
+  };
+
+  const get = (id) => {
+    const row = statements.get.get(id);
+    return row ? toRecord(row) : null;
+  };
+
+  const getImage = (id) => {
+    const row = statements.getImage.get(id);
+    return row ? { mimeType: row.mime_type, data: row.data } : null;
+  };
+
+  return {
+    insert,
+    update,
+    list,
+    get,
+    getImage,
+    remove: (id) => statements.remove.run(id).changes > 0,
+    removeMany: db.transaction((ids) => ids.reduce((n, id) => n + statements.remove.run(id).changes, 0)),
+    sources: () => statements.sources.all().map((row) => row.source_id),
+    get size() {
+      return statements.count.get().n;
+    },
+    close: () => db.close(),
+  };
+};
+
+module.exports = { openAnalysisStore, SORT_COLUMNS, IMAGE_EXTENSIONS, isImageType };
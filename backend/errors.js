@@ -0,0 +1,20 @@
+// Errors carrying the HTTP status the route handler should respond with.
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.name = "HttpError";
+    this.status = status;
+  }
+}
+
+// Model output that still fails the shared schema after repair and retries.
+class SchemaValidationError extends HttpError {
+  constructor(agent, issues) {
+    super(502, `The ${agent} agent returned data that does not match the expected schema.`);
+    this.name = "SchemaValidationError";
+    this.agent = agent;
+    this.issues = issues;
+  }
+}
+
+module.exports = { HttpError, SchemaValidationError };
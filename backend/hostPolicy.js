@@ -0,0 +1,82 @@
+// Which hosts API callers may point the server at. Stream URLs and alert
+// webhooks make the server open connections on a caller's behalf, so by
+// default they may only reach public addresses: a host that is, or resolves
+// to, a loopback, private, link-local or otherwise reserved address is refused
+// unless it is on the feature's allow-list (a comma-separated env setting).
+// Operators' own settings (e.g. INGEST_STREAMS) are trusted and not checked.
+
+const dns = require("dns").promises;
+const net = require("net");
+const { HttpError } = require("./errors");
+
+const RESERVED = new net.BlockList();
+[
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, including cloud metadata services
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4],
+].forEach(([address, prefix]) => RESERVED.addSubnet(address, prefix, "ipv4"));
+[
+  ["::", 128],
+  ["::1", 128],
+  ["fc00::", 7], // Unique local
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+].forEach(([address, prefix]) => RESERVED.addSubnet(address, prefix, "ipv6"));
+
+// IPv4-mapped IPv6 addresses (::ffff:10.0.0.1) are checked against the IPv4 ranges
+const isReserved = (address) => RESERVED.check(address, net.isIPv6(address) ? "ipv6" : "ipv4");
+
+const parseHostList = (value) =>
+  (value || "")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+
+const hostOf = (url) => new URL(url).hostname.replace(/^\[|\]$/g, "").toLowerCase();
+
+// setting: the env variable holding the allow-list, named in error messages
+const createHostPolicy = (setting, env = process.env) => {
+  const allowed = new Set(parseHostList(env[setting]));
+
+  // Resolves when the URL's host may be contacted; HttpError otherwise.
+  // The check is made before connecting, so it cannot see a DNS answer that
+  // changes in between; callers also refuse redirects.
+  const check = async (url) => {
+    const host = hostOf(url);
+    if (allowed.has(host)) return;
+
+    let addresses;
+    if (net.isIP(host)) {
+      addresses = [host];
+    } else {
+      try {
+        addresses = (await dns.lookup(host, { all: true })).map((entry) => entry.address);
+      } catch (err) {
+        throw new HttpError(400, `Cannot resolve host "${host}".`);
+      }
+    }
+    if (addresses.some(isReserved)) {
+      throw new HttpError(403, `Host "${host}" is on a private or reserved network; add it to ${setting} to allow it.`);
+    }
+  };
+
+  // For clients the server cannot hold to one host (ffmpeg follows redirects and
+  // playlist entries wherever they point): only listed hosts, public or not.
+  // reason: why the host must be listed, completing "Host "…" …"
+  const requireListed = (url, reason) => {
+    const host = hostOf(url);
+    if (!allowed.has(host)) throw new HttpError(403, `Host "${host}" ${reason}; add it to ${setting} to allow it.`);
+  };
+
+  return { check, requireListed };
+};
+
+module.exports = { createHostPolicy };
@@ -0,0 +1,185 @@
+// Stream ingestion: keeps a connection open to every registered stream,
+// holds on to its newest frame and, every `intervalSeconds`, runs that frame
+// through the agent pipeline. Results are stored like uploaded analyses under
+// the source id "ingest:<stream id>": never the URL, which may carry the
+// camera's credentials and is only shown without them. Each run
+// emits "progress" events per agent and then "result" or "failed"; connection
+// changes are emitted as "status" events. A dropped stream is reconnected
+// until it is removed.
+
+const crypto = require("crypto");
+const { EventEmitter } = require("events");
+const { HttpError } = require("../errors");
+const { openFrameSource, detectProtocol, withoutCredentials } = require("./sources");
+
+const RECONNECT_MS = 5000;
+const MIN_INTERVAL_SECONDS = 1;
+const MAX_INTERVAL_SECONDS = 3600;
+
+// maxStreams: streams held open at once; each keeps a connection (or an ffmpeg
+// process) running and spends a model call per interval
+const createIngestManager = ({ provider, runPipeline, store, ffmpegPath = "ffmpeg", defaultIntervalSeconds = 5, maxStreams = 8 }) => {
+  const events = new EventEmitter();
+  events.setMaxListeners(0); // Every /api/streams/events viewer adds its own listeners
+  const streams = new Map();
+
+  // Errors from ffmpeg and fetch may quote the URL it was given
+  const redact = (stream, message) =>
+    message && stream.credentials ? message.split(stream.url).join(stream.publicUrl).split(stream.credentials).join("") : message;
+
+  const describe = (stream) => ({
+    id: stream.id,
+    url: stream.publicUrl,
+    name: stream.name,
+    sourceId: stream.sourceId,
+    protocol: stream.protocol,
+    intervalSeconds: stream.intervalSeconds,
+    status: stream.status,
+    error: stream.error,
+    framesReceived: stream.framesReceived,
+    framesAnalysed: stream.framesAnalysed,
+    lastFrameAt: stream.lastFrameAt,
+    lastResultAt: stream.lastResultAt,
+  });
+
+  const setStatus = (stream, status, error = null) => {
+    stream.status = status;
+    stream.error = redact(stream, error);
+    events.emit("status", describe(stream));
+  };
+
+  const connect = (stream) => {
+    setStatus(stream, "connecting");
+    stream.source = openFrameSource(stream.url, {
+      fps: Math.min(5, 2 / stream.intervalSeconds), // A little faster than analysis, so the frame is fresh
+      ffmpegPath,
+      onProtocol: (protocol) => {
+        stream.protocol = protocol;
+      },
+      onFrame: (frame) => {
+        if (stream.status === "connecting" || stream.status === "reconnecting") setStatus(stream, "running");
+        stream.latestFrame = frame;
+        stream.framesReceived++;
+        stream.lastFrameAt = Date.now();
+      },
+      onEnd: (err) => {
+        stream.source = null;
+        if (stream.removed) return;
+        console.error(`Stream ${stream.name} disconnected:`, err ? redact(stream, err.message) : "closed");
+        setStatus(stream, "reconnecting", err ? err.message : null);
+        stream.reconnectTimer = setTimeout(() => connect(stream), RECONNECT_MS);
+      },
+    });
+  };
+
+  const analyse = async (stream) => {
+    // Skip the tick while the previous frame is still in the pipeline, or nothing new arrived
+    if (stream.busy || !stream.latestFrame || stream.latestFrame === stream.analysedFrame) return;
+    stream.busy = true;
+    const frame = stream.latestFrame;
+    const capturedAt = stream.lastFrameAt;
+    const job = { streamId: stream.id, sourceId: stream.sourceId, jobId: crypto.randomUUID() };
+    try {
+      const image = frame.toString("base64");
+      const onProgress = (progress) => events.emit("progress", { ...job, ...progress });
+      const result = await runPipeline(provider, { prompt: "traffic-analysis", image, mimeType: "image/jpeg" }, onProgress);
+      result.timestamp = capturedAt;
+      if (store) {
+        try {
+          result.analysisId = store.insert(result, { sourceId: stream.sourceId, image, mimeType: "image/jpeg" });
+        } catch (err) {
+          console.error("Failed to store analysis:", err.message);
+        }
+      }
+      stream.analysedFrame = frame;
+      stream.framesAnalysed++;
+      stream.lastResultAt = Date.now();
+      if (stream.removed) return;
+      if (stream.status === "error") setStatus(stream, "running");
+      events.emit("result", { ...job, capturedAt, image, mimeType: "image/jpeg", result });
+    } catch (err) {
+      console.error(`Analysis of stream ${stream.name} failed:`, redact(stream, err.message));
+      events.emit("failed", { ...job, error: redact(stream, err.message) });
+      if (!stream.removed) setStatus(stream, "error", err.message);
+    } finally {
+      stream.busy = false;
+    }
+  };
+
+  const add = ({ url, name, intervalSeconds } = {}) => {
+    if (typeof url !== "string" || !url) throw new HttpError(400, "'url' must be a stream URL.");
+    let protocol;
+    try {
+      protocol = detectProtocol(url);
+    } catch (err) {
+      throw new HttpError(400, err.message);
+    }
+    const interval = intervalSeconds === undefined ? defaultIntervalSeconds : Number(intervalSeconds);
+    if (!Number.isFinite(interval) || interval < MIN_INTERVAL_SECONDS || interval > MAX_INTERVAL_SECONDS) {
+      throw new HttpError(400, `'intervalSeconds' must be between ${MIN_INTERVAL_SECONDS} and ${MAX_INTERVAL_SECONDS}.`);
+    }
+    if ([...streams.values()].some((stream) => stream.url === url)) {
+      throw new HttpError(409, "That stream is already being ingested.");
+    }
+    if (streams.size >= maxStreams) {
+      throw new HttpError(409, `At most ${maxStreams} streams can be ingested at once; stop one first.`);
+    }
+
+    const id = crypto.randomUUID();
+    const { username, password, host } = new URL(url);
+    const stream = {
+      id,
+      url,
+      publicUrl: withoutCredentials(url),
+      credentials: username || password ? `${username}${password ? `:${password}` : ""}@` : null,
+      name: typeof name === "string" && name.trim() ? name.trim() : host,
+      sourceId: `ingest:${id}`,
+      protocol,
+      intervalSeconds: interval,
+      status: "connecting",
+      error: null,
+      framesReceived: 0,
+      framesAnalysed: 0,
+      lastFrameAt: null,
+      lastResultAt: null,
+      latestFrame: null,
+      analysedFrame: null,
+      busy: false,
+      removed: false,
+      source: null,
+      reconnectTimer: null,
+    };
+    streams.set(id, stream);
+    connect(stream);
+    stream.timer = setInterval(() => analyse(stream), interval * 1000);
+    return describe(stream);
+  };
+
+  const get = (id) => {
+    const stream = streams.get(id);
+    if (!stream) throw new HttpError(404, "Stream not found.");
+    return stream;
+  };
+
+  const remove = (id) => {
+    const stream = get(id);
+    stream.removed = true;
+    clearInterval(stream.timer);
+    clearTimeout(stream.reconnectTimer);
+    if (stream.source) stream.source.close();
+    streams.delete(id);
+    events.emit("removed", { id });
+  };
+
+  return {
+    events,
+    add,
+    remove,
+    list: () => [...streams.values()].map(describe),
+    describe: (id) => describe(get(id)),
+    latestFrame: (id) => get(id).latestFrame,
+    close: () => [...streams.keys()].forEach(remove),
+  };
+};
+
+module.exports = { createIngestManager };
@@ -0,0 +1,90 @@
+// REST API and push channel for backend stream ingestion:
+//   GET    /api/streams            registered streams with their status and counters
+//   POST   /api/streams            ingest { url, name?, intervalSeconds? } (rtsp, HLS .m3u8,
+//                                  MJPEG or JPEG snapshot URL); private hosts, and any
+//                                  rtsp or HLS host, only when listed in INGEST_ALLOWED_HOSTS
+//   DELETE /api/streams/:id        stop ingesting a stream
+//   GET    /api/streams/:id/frame  the newest frame received (JPEG)
+//   GET    /api/streams/events     Server-Sent Events: "streams" (the list, on connect),
+//                                  "status" and "removed"
+// Adding and removing streams needs the admin token (see adminToken.js).
+// Analysis progress and results are pushed on the stream's live feed (/api/live).
+
+const express = require("express");
+const { HttpError } = require("../errors");
+const { requireAdminToken } = require("../adminToken");
+const { openEventStream } = require("../live/sse");
+const { detectProtocol } = require("./sources");
+
+const protocolOf = (url) => {
+  try {
+    return detectProtocol(url);
+  } catch (err) {
+    return null;
+  }
+};
+
+// adminToken: guards adding and removing streams (see adminToken.js)
+// hostPolicy: which stream hosts callers may make the server connect to (see hostPolicy.js)
+const createStreamsRouter = (manager, { adminToken, hostPolicy }) => {
+  const router = express.Router();
+  const admin = requireAdminToken(adminToken);
+
+  router.get("/", (req, res) => {
+    res.json(manager.list());
+  });
+
+  router.post("/", admin, async (req, res, next) => {
+    try {
+      const { url } = req.body || {};
+      // Malformed or unsupported URLs are left to the manager, which explains what it accepts
+      const protocol = typeof url === "string" ? protocolOf(url) : null;
+      if (protocol === "rtsp" || protocol === "hls") {
+        hostPolicy.requireListed(url, "is not a listed camera: RTSP and HLS streams are opened by ffmpeg, which follows redirects and playlist entries to other hosts");
+      }
+      if (protocol) await hostPolicy.check(url);
+      res.status(201).json(manager.add(req.body));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // Registered before /:id so "events" is not taken for a stream id
+  router.get("/events", (req, res) => {
+    const onStatus = (stream) => send("status", stream);
+    const onRemoved = (removed) => send("removed", removed);
+    const send = openEventStream(res, () => {
+      manager.events.off("status", onStatus);
+      manager.events.off("removed", onRemoved);
+    });
+
+    send("streams", manager.list());
+    manager.events.on("status", onStatus);
+    manager.events.on("removed", onRemoved);
+  });
+
+  router.get("/:id", (req, res) => {
+    res.json(manager.describe(req.params.id));
+  });
+
+  router.get("/:id/frame", (req, res) => {
+    const frame = manager.latestFrame(req.params.id);
+    if (!frame) throw new HttpError(404, "No frame received from this stream yet.");
+    res.set("Cache-Control", "no-store").type("image/jpeg").send(frame);
+  });
+
+  router.delete("/:id", admin, (req, res) => {
+    manager.remove(req.params.id);
+    res.status(204).end();
+  });
+
+  // Errors thrown by the handlers above
+  router.use((err, req, res, next) => {
+    if (!(err instanceof HttpError)) return next(err);
+    res.status(err.status).json({ error: err.message });
+  });
+
+  return router;
+};
+
+module.exports = { createStreamsRouter };
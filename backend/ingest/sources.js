@@ -0,0 +1,167 @@
+// Frame sources for stream ingestion. Each one delivers complete JPEG frames
+// through onFrame(buffer) until it fails or the stream ends:
+//   mjpeg     multipart/x-mixed-replace over http(s), read directly
+//   snapshot  an http(s) URL that returns a single JPEG, polled at the frame rate
+//   ffmpeg    rtsp(s):// and HLS (.m3u8) URLs, decoded by ffmpeg (FFMPEG_PATH) into
+//             a JPEG pipe at the frame rate
+// A source calls onEnd(err) exactly once, with no error when it was closed.
+
+const { spawn } = require("child_process");
+
+const MAX_BUFFERED_BYTES = 8 * 1024 * 1024;
+const SOI = Buffer.from([0xff, 0xd8]);
+const EOI = Buffer.from([0xff, 0xd9]);
+
+const detectProtocol = (url) => {
+  let parsed;
+  try {
+    parsed = new URL(url);
+  } catch (err) {
+    throw new Error("'url' is not a valid stream URL.");
+  }
+  if (parsed.protocol === "rtsp:" || parsed.protocol === "rtsps:") return "rtsp";
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    throw new Error("Stream URL must be rtsp://, rtsps://, http:// or https://.");
+  }
+  return parsed.pathname.toLowerCase().endsWith(".m3u8") ? "hls" : "http";
+};
+
+// The URL as it may be shown to anyone: camera credentials (rtsp://user:pass@…) removed
+const withoutCredentials = (url) => {
+  const parsed = new URL(url);
+  parsed.username = "";
+  parsed.password = "";
+  return parsed.toString();
+};
+
+// Cuts JPEGs out of a byte stream (multipart body or ffmpeg's image2pipe).
+// Inside entropy-coded data 0xFF is always stuffed, so FF D9 only ends an image.
+const createJpegSplitter = (onFrame) => {
+  let pending = Buffer.alloc(0);
+  return (chunk) => {
+    pending = pending.length > 0 ? Buffer.concat([pending, chunk]) : chunk;
+    for (;;) {
+      const start = pending.indexOf(SOI);
+      if (start < 0) {
+        pending = Buffer.alloc(0);
+        return;
+      }
+      const end = pending.indexOf(EOI, start + 2);
+      if (end < 0) {
+        pending = pending.subarray(start);
+        // A stream that never closes an image would otherwise grow without bound
+        if (pending.length > MAX_BUFFERED_BYTES) pending = Buffer.alloc(0);
+        return;
+      }
+      onFrame(Buffer.from(pending.subarray(start, end + 2)));
+      pending = pending.subarray(end + 2);
+    }
+  };
+};
+
+// Reads an http(s) stream: multipart MJPEG is consumed as it arrives, a plain
+// JPEG response switches to polling the URL as a snapshot endpoint.
+const openHttpSource = (url, { fps, onFrame, onEnd, onProtocol }) => {
+  const controller = new AbortController();
+  let closed = false;
+  let pollTimer = null;
+  const finish = (err) => {
+    if (closed) return;
+    closed = true;
+    clearTimeout(pollTimer);
+    controller.abort();
+    onEnd(err);
+  };
+
+  // fetch() refuses URLs with credentials, so they go in an Authorization header.
+  // Redirects are refused: only the URL's own host was checked (see hostPolicy.js)
+  const { username, password } = new URL(url);
+  const headers = username || password
+    ? { Authorization: `Basic ${Buffer.from(`${decodeURIComponent(username)}:${decodeURIComponent(password)}`).toString("base64")}` }
+    : {};
+  const request = () => fetch(withoutCredentials(url), { signal: controller.signal, redirect: "error", headers });
+
+  const poll = () => {
+    request()
+      .then((res) => {
+        if (!res.ok) throw new Error(`Snapshot request failed with HTTP ${res.status}`);
+        return res.arrayBuffer();
+      })
+      .then((body) => {
+        if (closed) return;
+        onFrame(Buffer.from(body));
+        pollTimer = setTimeout(poll, 1000 / fps);
+      })
+      .catch((err) => !closed && finish(err));
+  };
+
+  request()
+    .then(async (res) => {
+      if (!res.ok) throw new Error(`Stream request failed with HTTP ${res.status}`);
+      const type = (res.headers.get("content-type") || "").toLowerCase();
+      if (type.startsWith("image/jpeg")) {
+        onProtocol("snapshot");
+        onFrame(Buffer.from(await res.arrayBuffer()));
+        pollTimer = setTimeout(poll, 1000 / fps);
+        return;
+      }
+      if (!type.startsWith("multipart/")) throw new Error(`Unsupported stream content type '${type || "none"}'.`);
+      onProtocol("mjpeg");
+      const split = createJpegSplitter(onFrame);
+      for await (const chunk of res.body) split(Buffer.from(chunk));
+      finish(new Error("Stream ended."));
+    })
+    .catch((err) => !closed && finish(err));
+
+  return { close: () => finish() };
+};
+
+// The protocols ffmpeg may open for each scheme: the URL's own and what it
+// runs over (HLS adds crypto for encrypted segments). Nothing else, so a
+// playlist cannot point ffmpeg at local files or another scheme.
+const FFMPEG_PROTOCOLS = {
+  "rtsp:": "rtsp,tcp",
+  "rtsps:": "rtsps,tls,tcp",
+  "http:": "http,tcp,crypto",
+  "https:": "https,tls,tcp,crypto",
+};
+
+const openFfmpegSource = (url, { fps, ffmpegPath, onFrame, onEnd }) => {
+  const { protocol } = new URL(url);
+  const args = ["-hide_banner", "-loglevel", "error", "-protocol_whitelist", FFMPEG_PROTOCOLS[protocol]];
+  if (protocol.startsWith("rtsp")) args.push("-rtsp_transport", "tcp");
+  args.push("-i", url, "-vf", `fps=${fps}`, "-f", "image2pipe", "-vcodec", "mjpeg", "-q:v", "5", "-");
+
+  let closed = false;
+  let stderr = "";
+  const child = spawn(ffmpegPath, args, { stdio: ["ignore", "pipe", "pipe"] });
+  const finish = (err) => {
+    if (closed) return;
+    closed = true;
+    if (child.exitCode === null) child.kill("SIGTERM");
+    onEnd(err);
+  };
+
+  child.stdout.on("data", createJpegSplitter(onFrame));
+  child.stderr.on("data", (chunk) => {
+    stderr = (stderr + chunk).slice(-500);
+  });
+  child.on("error", (err) => {
+    finish(err.code === "ENOENT" ? new Error(`ffmpeg not found at '${ffmpegPath}'; install it or set FFMPEG_PATH.`) : err);
+  });
+  child.on("close", (code) => {
+    finish(new Error(`ffmpeg exited with code ${code}${stderr ? `: ${stderr.trim().split("\n").pop()}` : ""}`));
+  });
+
+  return { close: () => finish() };
+};
+
+// options: { fps, ffmpegPath, onFrame(buffer), onEnd(err?), onProtocol(name) }
+const openFrameSource = (url, options) => {
+  const protocol = detectProtocol(url);
+  if (protocol === "http") return openHttpSource(url, options);
+  options.onProtocol(protocol);
+  return openFfmpegSource(url, options);
+};
+
+module.exports = { openFrameSource, detectProtocol, withoutCredentials, createJpegSplitter };
@@ -0,0 +1,106 @@
+// Live feeds: fans analysis progress and results out to everyone watching a
+// source. A feed is named by its source id ("camera:…", "ingest:…", "upload")
+// and carries these events:
+//   progress  { jobId, agent, state, error?, at }   one agent started, completed or failed
+//   result    { jobId, capturedAt, image, mimeType, result }
+//   failed    { jobId, error }                       the whole analysis failed
+//   viewers   { count, recording }                   someone joined or left
+// Every event also carries its feedId. A viewer who joins gets the feed's
+// latest result straight away. Viewers may offer to record a feed (save what
+// it shows, e.g. the violations they track on an ingested stream); the one
+// who offered first is told "recording: true", and when it leaves the next
+// takes over, so exactly one of them saves. A feed is dropped as soon as nobody watches it
+// unless it holds a result, which is kept for late joiners until the feed has
+// been idle for a while; past MAX_FEEDS the least recently active unwatched
+// feeds go first.
+
+const IDLE_FEED_MS = 10 * 60 * 1000;
+const SWEEP_MS = 60 * 1000;
+const MAX_FEEDS = 200;
+const MAX_FEED_ID_LENGTH = 2048; // Stream ids carry the stream's URL
+
+// The source ids the UI (see sourceSettingsStore.ts) and the ingest manager use
+const FEED_ID = /^(?:(?:camera|video|stream|ingest):.+|upload|simulation)$/s;
+
+const isFeedId = (value) => typeof value === "string" && value.length <= MAX_FEED_ID_LENGTH && FEED_ID.test(value);
+
+const createLiveHub = () => {
+  const feeds = new Map();
+
+  const unwatched = () => [...feeds.values()].filter((feed) => feed.viewers.size === 0);
+
+  const sweep = () => {
+    const now = Date.now();
+    unwatched().forEach((feed) => {
+      if (now - feed.lastEventAt > IDLE_FEED_MS) feeds.delete(feed.id);
+    });
+    const excess = feeds.size - MAX_FEEDS;
+    if (excess > 0) {
+      unwatched()
+        .sort((a, b) => a.lastEventAt - b.lastEventAt)
+        .slice(0, excess)
+        .forEach((feed) => feeds.delete(feed.id));
+    }
+  };
+  setInterval(sweep, SWEEP_MS).unref();
+
+  const getFeed = (feedId) => {
+    let feed = feeds.get(feedId);
+    if (!feed) {
+      feed = { id: feedId, viewers: new Set(), recorders: [], lastEventAt: Date.now(), lastResult: null };
+      feeds.set(feedId, feed);
+      if (feeds.size > MAX_FEEDS) sweep();
+    }
+    return feed;
+  };
+
+  const broadcast = (feed, event, data) => {
+    feed.viewers.forEach((send) => send(event, { feedId: feed.id, ...data }));
+  };
+
+  // Each viewer learns the count and whether it is the one recording
+  const announceViewers = (feed) => {
+    feed.viewers.forEach((send) => send("viewers", { feedId: feed.id, count: feed.viewers.size, recording: feed.recorders[0] === send }));
+  };
+
+  // Events for anything but a source id are dropped
+  const publish = (feedId, event, data) => {
+    if (!isFeedId(feedId)) return;
+    const feed = getFeed(feedId);
+    feed.lastEventAt = Date.now();
+    if (event === "progress") data = { ...data, at: feed.lastEventAt };
+    if (event === "result") feed.lastResult = data;
+    broadcast(feed, event, data);
+  };
+
+  // send(event, data) is called for every event on the feed until unsubscribed.
+  // feedId must pass isFeedId; record offers to record it (see above).
+  const subscribe = (feedId, send, { record = false } = {}) => {
+    const feed = getFeed(feedId);
+    feed.viewers.add(send);
+    if (record) feed.recorders.push(send);
+    announceViewers(feed);
+    if (feed.lastResult) send("result", { feedId, ...feed.lastResult });
+    return () => {
+      feed.viewers.delete(send);
+      feed.recorders = feed.recorders.filter((recorder) => recorder !== send);
+      feed.lastEventAt = Date.now();
+      announceViewers(feed);
+      if (feed.viewers.size === 0 && !feed.lastResult && feeds.get(feed.id) === feed) feeds.delete(feed.id);
+    };
+  };
+
+  const list = () => {
+    sweep();
+    return [...feeds.values()].map((feed) => ({
+      feedId: feed.id,
+      viewers: feed.viewers.size,
+      lastEventAt: feed.lastEventAt,
+      lastResultAt: feed.lastResult ? feed.lastResult.result.timestamp : null,
+    }));
+  };
+
+  return { publish, subscribe, list };
+};
+
+module.exports = { createLiveHub, isFeedId };
@@ -0,0 +1,43 @@
+// Push channel for live analyses (Server-Sent Events):
+//   GET /api/live                  feeds with their viewer counts and latest activity
+//   GET /api/live/events?feed=<id> progress, result, failed and viewers events for the
+//                                  feed (a source id such as camera:… or ingest:…);
+//                                  repeat feed to watch several (up to 16) over one connection;
+//                                  record=<id> offers to record that feed (see hub.js)
+
+const express = require("express");
+const { HttpError } = require("../errors");
+const { openEventStream } = require("./sse");
+const { isFeedId } = require("./hub");
+
+const MAX_FEEDS_PER_CONNECTION = 16;
+
+const createLiveRouter = (hub) => {
+  const router = express.Router();
+
+  router.get("/", (req, res) => {
+    res.json(hub.list());
+  });
+
+  router.get("/events", (req, res) => {
+    const feedIds = [...new Set([].concat(req.query.feed || []).map(String).filter(Boolean))];
+    if (feedIds.length === 0 || !feedIds.every(isFeedId)) throw new HttpError(400, "Query parameter 'feed' must name a source id.");
+    if (feedIds.length > MAX_FEEDS_PER_CONNECTION) {
+      throw new HttpError(400, `At most ${MAX_FEEDS_PER_CONNECTION} feeds can be watched over one connection.`);
+    }
+    const recordIds = new Set([].concat(req.query.record || []).map(String));
+    let unsubscribes = [];
+    const send = openEventStream(res, () => unsubscribes.forEach((unsubscribe) => unsubscribe()));
+    unsubscribes = feedIds.map((feedId) => hub.subscribe(feedId, send, { record: recordIds.has(feedId) }));
+  });
+
+  // Errors thrown by the handlers above
+  router.use((err, req, res, next) => {
+    if (!(err instanceof HttpError)) return next(err);
+    res.status(err.status).json({ error: err.message });
+  });
+
+  return router;
+};
+
+module.exports = { createLiveRouter };
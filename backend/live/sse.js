@@ -0,0 +1,21 @@
+// Server-Sent Events responses for the push routes. Returns send(event, data);
+// onClose runs once the client goes away.
+
+const HEARTBEAT_MS = 15000;
+
+const openEventStream = (res, onClose) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(": keep-alive\n\n"), HEARTBEAT_MS);
+  res.on("close", () => {
+    clearInterval(heartbeat);
+    onClose();
+  });
+  return (event, data) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+module.exports = { openEventStream };
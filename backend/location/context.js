@@ -0,0 +1,129 @@
+// Builds LocationContextData (see types.ts) from the offline map dataset:
+// reverse geocoding, nearby places and traffic influencers.
+
+const COVERAGE_RADIUS_M = 5000;
+const STREET_RADIUS_M = 150;
+const MAX_NEARBY = 8;
+
+const humanize = (value) => String(value).replace(/_/g, " ");
+
+const formatDistance = (meters) =>
+  meters < 1000 ? `${Math.round(meters / 10) * 10} m` : `${(meters / 1000).toFixed(1)} km`;
+
+// Maps OSM tags to the categories that matter for traffic
+const categorize = (tags) => {
+  if (["school", "college", "university", "kindergarten"].includes(tags.amenity)) return "school";
+  if (tags.amenity === "hospital") return "hospital";
+  if (tags.leisure === "stadium") return "stadium";
+  if (tags.highway === "traffic_signals" || tags.junction) return "junction";
+  if (tags.railway === "station" || tags.highway === "bus_stop" || tags.amenity === "bus_station") return "transit";
+  if (tags.shop === "mall" || tags.amenity === "marketplace") return "retail";
+  return null;
+};
+
+const placeType = (tags) => {
+  if (tags.railway === "station") return tags.station === "subway" ? "metro station" : "railway station";
+  if (tags.highway === "traffic_signals") return "signalised junction";
+  if (tags.office) return `${humanize(tags.office)} office`;
+  const key = ["amenity", "leisure", "shop", "tourism", "office", "highway", "natural"].find((k) => tags[k]);
+  return key ? humanize(tags[key]) : "place";
+};
+
+const INFLUENCER_RULES = [
+  {
+    category: "school",
+    radius: 500,
+    describe: (name, d) => `School zone: ${name} (${d}) — pedestrian surges at school opening and closing times.`,
+  },
+  {
+    category: "hospital",
+    radius: 1000,
+    describe: (name, d) => `Hospital access: ${name} (${d}) — keep emergency vehicle routes clear.`,
+  },
+  {
+    category: "stadium",
+    radius: 2000,
+    describe: (name, d) => `Stadium: ${name} (${d}) — expect event-day congestion and parking overflow.`,
+  },
+  {
+    category: "junction",
+    radius: 300,
+    describe: (name, d, count) =>
+      `${count > 1 ? `${count} signalised junctions nearby, closest` : "Signalised junction"}: ${name} (${d}) — queue spillback likely at peak hours.`,
+  },
+  {
+    category: "transit",
+    radius: 300,
+    describe: (name, d) => `Transit stop: ${name} (${d}) — stopping buses and passenger crossings.`,
+  },
+  {
+    category: "retail",
+    radius: 600,
+    describe: (name, d) => `Retail hub: ${name} (${d}) — heavy turning and parking movements.`,
+  },
+];
+
+const isArea = (feature) => feature.shape.rings.length > 0;
+const isRoad = (feature) => feature.shape.lines.length > 0 && feature.tags.highway;
+
+// Street + enclosing areas, most specific first
+const reverseGeocode = (hits) => {
+  const street = hits.find(({ feature, distance }) => isRoad(feature) && feature.tags.name && distance <= STREET_RADIUS_M);
+  const areas = hits
+    .filter(({ feature, distance }) => distance === 0 && isArea(feature) && feature.tags.name && feature.tags.place)
+    .map(({ feature }) => feature)
+    .sort((a, b) => (a.tags.place === "city") - (b.tags.place === "city"));
+
+  const parts = [street && street.feature.tags.name, ...areas.map((a) => a.tags.name)].filter(Boolean);
+  return [...new Set(parts)].join(", ");
+};
+
+const buildLocationContext = (dataset, lat, lng, radiusM) => {
+  const hits = dataset.query(lat, lng, Math.max(radiusM, COVERAGE_RADIUS_M));
+  const coordinates = `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+
+  if (hits.length === 0) {
+    return {
+      latitude: lat,
+      longitude: lng,
+      address: `Outside offline map coverage (${coordinates})`,
+      nearbyPlaces: [],
+      trafficInfluencers: ["No offline map data for this area."],
+    };
+  }
+
+  const points = hits.filter(({ feature }) => !isArea(feature) && !isRoad(feature) && feature.tags.name);
+
+  const nearbyPlaces = points
+    .filter(({ distance }) => distance <= radiusM)
+    .slice(0, MAX_NEARBY)
+    .map(({ feature, distance }) => ({
+      name: feature.tags.name,
+      type: placeType(feature.tags),
+      distance: formatDistance(distance),
+    }));
+
+  const trafficInfluencers = [];
+  INFLUENCER_RULES.forEach((rule) => {
+    const matches = hits.filter(
+      ({ feature, distance }) => !isArea(feature) && distance <= rule.radius && categorize(feature.tags) === rule.category
+    );
+    if (matches.length === 0) return;
+    const { feature, distance } = matches[0];
+    const name = feature.tags.name || `Unnamed ${placeType(feature.tags)}`;
+    trafficInfluencers.push(rule.describe(name, formatDistance(distance), matches.length));
+  });
+  if (trafficInfluencers.length === 0) {
+    trafficInfluencers.push(`No schools, hospitals, stadiums or junctions within ${formatDistance(radiusM)}.`);
+  }
+
+  return {
+    latitude: lat,
+    longitude: lng,
+    address: reverseGeocode(hits) || coordinates,
+    nearbyPlaces,
+    trafficInfluencers,
+  };
+};
+
+module.exports = { buildLocationContext };
@@ -0,0 +1,127 @@
+// Offline map dataset: an OpenStreetMap-style GeoJSON extract (features carry OSM
+// tags as properties) indexed on a coarse lat/lng grid for radius queries.
+
+const fs = require("fs");
+
+const CELL_DEG = 0.01; // ~1.1 km
+const EARTH_RADIUS_M = 6371000;
+
+const toRad = (deg) => (deg * Math.PI) / 180;
+
+// Points are [lng, lat] as in GeoJSON
+const haversineMeters = ([lng1, lat1], [lng2, lat2]) => {
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.sqrt(a));
+};
+
+// Equirectangular projection around p; accurate enough at street scale
+const pointToSegmentMeters = (p, a, b) => {
+  const kx = Math.cos(toRad(p[1])) * toRad(1) * EARTH_RADIUS_M;
+  const ky = toRad(1) * EARTH_RADIUS_M;
+  const ax = (a[0] - p[0]) * kx, ay = (a[1] - p[1]) * ky;
+  const bx = (b[0] - p[0]) * kx, by = (b[1] - p[1]) * ky;
+  const dx = bx - ax, dy = by - ay;
+  const lenSq = dx * dx + dy * dy;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, -(ax * dx + ay * dy) / lenSq));
+  return Math.hypot(ax + t * dx, ay + t * dy);
+};
+
+const pointInRing = ([x, y], ring) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+// Flattens GeoJSON geometries into points / polylines / outer rings
+const normalizeGeometry = (geometry) => {
+  const shape = { points: [], lines: [], rings: [] };
+  if (!geometry) return shape;
+  const { type, coordinates } = geometry;
+  if (type === "Point") shape.points.push(coordinates);
+  else if (type === "MultiPoint") shape.points.push(...coordinates);
+  else if (type === "LineString") shape.lines.push(coordinates);
+  else if (type === "MultiLineString") shape.lines.push(...coordinates);
+  else if (type === "Polygon") shape.rings.push(coordinates[0]);
+  else if (type === "MultiPolygon") coordinates.forEach((polygon) => shape.rings.push(polygon[0]));
+  return shape;
+};
+
+const boundsOf = (shape) => {
+  const all = [...shape.points, ...shape.lines.flat(), ...shape.rings.flat()];
+  const lngs = all.map((c) => c[0]);
+  const lats = all.map((c) => c[1]);
+  return [Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)];
+};
+
+// Distance in metres from [lng, lat] to the feature (0 when inside an area)
+const distanceToFeature = (feature, p) => {
+  const { points, lines, rings } = feature.shape;
+  if (rings.some((ring) => pointInRing(p, ring))) return 0;
+
+  let best = Infinity;
+  points.forEach((q) => { best = Math.min(best, haversineMeters(p, q)); });
+  [...lines, ...rings].forEach((path) => {
+    for (let i = 1; i < path.length; i++) best = Math.min(best, pointToSegmentMeters(p, path[i - 1], path[i]));
+  });
+  return best;
+};
+
+const cellKey = (cx, cy) => `${cx}:${cy}`;
+
+const loadDataset = (filePath) => {
+  const collection = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  if (collection.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new Error(`${filePath} is not a GeoJSON FeatureCollection.`);
+  }
+
+  const features = [];
+  const grid = new Map();
+
+  collection.features.forEach((raw, index) => {
+    const shape = normalizeGeometry(raw.geometry);
+    if (!shape.points.length && !shape.lines.length && !shape.rings.length) return;
+
+    const feature = { id: index, tags: raw.properties || {}, shape, bounds: boundsOf(shape) };
+    features.push(feature);
+
+    const [minLng, minLat, maxLng, maxLat] = feature.bounds;
+    for (let cx = Math.floor(minLng / CELL_DEG); cx <= Math.floor(maxLng / CELL_DEG); cx++) {
+      for (let cy = Math.floor(minLat / CELL_DEG); cy <= Math.floor(maxLat / CELL_DEG); cy++) {
+        const key = cellKey(cx, cy);
+        if (!grid.has(key)) grid.set(key, []);
+        grid.get(key).push(feature);
+      }
+    }
+  });
+
+  // Features within radiusM of the point, nearest first, as { feature, distance }
+  const query = (lat, lng, radiusM) => {
+    const p = [lng, lat];
+    const dLat = radiusM / 111320;
+    const dLng = radiusM / (111320 * Math.max(0.01, Math.cos(toRad(lat))));
+    const seen = new Set();
+    const hits = [];
+
+    for (let cx = Math.floor((lng - dLng) / CELL_DEG); cx <= Math.floor((lng + dLng) / CELL_DEG); cx++) {
+      for (let cy = Math.floor((lat - dLat) / CELL_DEG); cy <= Math.floor((lat + dLat) / CELL_DEG); cy++) {
+        (grid.get(cellKey(cx, cy)) || []).forEach((feature) => {
+          if (seen.has(feature.id)) return;
+          seen.add(feature.id);
+          const distance = distanceToFeature(feature, p);
+          if (distance <= radiusM) hits.push({ feature, distance });
+        });
+      }
+    }
+    return hits.sort((a, b) => a.distance - b.distance);
+  };
+
+  return { name: collection.name || filePath, size: features.length, query };
+};
+
+module.exports = { loadDataset };
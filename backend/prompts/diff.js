@@ -0,0 +1,55 @@
+// Word-level diff for prompt revisions. Prompts are mostly long single-line
+// paragraphs, so a line diff would only ever say "everything changed".
+
+const MAX_CELLS = 4e6; // LCS table size beyond which the texts are shown as replaced outright
+
+// Words and the whitespace between them, so joining the tokens gives the text back
+const tokenize = (text) => text.match(/\s+|\S+/g) || [];
+
+// -> [{ op: "equal" | "insert" | "delete", text }], consecutive tokens merged
+const diffWords = (before, after) => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const changes = [];
+  const push = (op, text) => {
+    const last = changes[changes.length - 1];
+    if (last && last.op === op) last.text += text;
+    else changes.push({ op, text });
+  };
+
+  if (a.length * b.length > MAX_CELLS) {
+    if (before) push("delete", before);
+    if (after) push("insert", after);
+    return changes;
+  }
+
+  // lcs[i * (m + 1) + j]: length of the longest common subsequence of a[i..] and b[j..]
+  const n = a.length;
+  const m = b.length;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * (m + 1) + j] =
+        a[i] === b[j] ? lcs[(i + 1) * (m + 1) + j + 1] + 1 : Math.max(lcs[(i + 1) * (m + 1) + j], lcs[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[i] === b[j]) {
+      push("equal", a[i]);
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * (m + 1) + j] >= lcs[i * (m + 1) + j + 1]) {
+      push("delete", a[i++]);
+    } else {
+      push("insert", b[j++]);
+    }
+  }
+  while (i < n) push("delete", a[i++]);
+  while (j < m) push("insert", b[j++]);
+  return changes;
+};
+
+module.exports = { diffWords };
@@ -0,0 +1,62 @@
+// REST API for the agents' prompt templates:
+//   GET  /api/prompts                        active prompt of every agent and the current revision
+//   GET  /api/prompts/revisions              every change, newest first, with the versions in effect after it
+//   GET  /api/prompts/:agent                 an agent's versions and which one is active
+//   POST /api/prompts/:agent                 save { text, note? } as a new, active version
+//   POST /api/prompts/:agent/rollback        make { version } the active version again
+//   GET  /api/prompts/:agent/diff?from=&to=  word diff between two versions (default: the
+//                                            active version against the one before it)
+// Saving and rolling back need the admin token (see adminToken.js).
+
+const express = require("express");
+const { HttpError } = require("../errors");
+const { requireAdminToken } = require("../adminToken");
+
+const toVersion = (value, name) => {
+  const version = Number(value);
+  if (!Number.isInteger(version) || version < 1) throw new HttpError(400, `Query parameter '${name}' must be a version number.`);
+  return version;
+};
+
+const createPromptsRouter = (store, { adminToken }) => {
+  const router = express.Router();
+  const admin = requireAdminToken(adminToken);
+
+  router.get("/", (req, res) => {
+    res.json(store.list());
+  });
+
+  // Registered before /:agent so "revisions" is not taken for an agent id
+  router.get("/revisions", (req, res) => {
+    res.json(store.revisions());
+  });
+
+  router.get("/:agent", (req, res) => {
+    res.json(store.describe(req.params.agent));
+  });
+
+  router.post("/:agent", admin, (req, res) => {
+    res.status(201).json(store.edit(req.params.agent, req.body || {}));
+  });
+
+  router.post("/:agent/rollback", admin, (req, res) => {
+    res.json(store.rollback(req.params.agent, (req.body || {}).version));
+  });
+
+  router.get("/:agent/diff", (req, res) => {
+    const { activeVersion } = store.describe(req.params.agent);
+    const to = req.query.to === undefined ? activeVersion : toVersion(req.query.to, "to");
+    const from = req.query.from === undefined ? Math.max(1, to - 1) : toVersion(req.query.from, "from");
+    res.json(store.diff(req.params.agent, from, to));
+  });
+
+  // Errors thrown by the handlers above
+  router.use((err, req, res, next) => {
+    if (!(err instanceof HttpError)) return next(err);
+    res.status(err.status).json({ error: err.message });
+  });
+
+  return router;
+};
+
+module.exports = { createPromptsRouter };
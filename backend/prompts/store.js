@@ -0,0 +1,144 @@
+// Versioned prompt templates: the instructions each agent is given, kept as a
+// numbered history per agent with one active version. Every edit or rollback
+// bumps a store-wide revision, and each analysis records the revision it ran
+// under (see agents/pipeline.js), so results can be grouped by prompt state.
+// Agents start from their built-in instructions as version 1. The store is a
+// JSON file; edits made through the API are saved to it straight away.
+
+const fs = require("fs");
+const path = require("path");
+const { HttpError } = require("../errors");
+const { diffWords } = require("./diff");
+
+const MAX_TEXT_LENGTH = 20000;
+const MAX_NOTE_LENGTH = 200;
+
+const readSaved = (filePath) => {
+  if (!filePath || !fs.existsSync(filePath)) return { state: null, writable: true };
+  try {
+    return { state: JSON.parse(fs.readFileSync(filePath, "utf8")), writable: true };
+  } catch (err) {
+    // Saving over it would lose the version history, so changes stay in memory
+    console.error(`Prompt store unreadable (${filePath}), changes will not be saved:`, err.message);
+    return { state: null, writable: false };
+  }
+};
+
+// defaults: agent id -> built-in instructions
+const openPromptStore = (filePath, defaults = {}) => {
+  const saved = readSaved(filePath);
+  const state = saved.state || { revision: 0, agents: {}, revisions: [] };
+
+  const save = () => {
+    if (!filePath || !saved.writable) return;
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, JSON.stringify(state, null, 2));
+  };
+
+  // Agent ids come from callers, so only the store's own keys count ("constructor" is not an agent)
+  const hasAgent = (agent) => Object.hasOwn(state.agents, agent);
+
+  const activeVersions = () => Object.fromEntries(Object.entries(state.agents).map(([agent, entry]) => [agent, entry.active]));
+
+  // change: { action, agent?, version?, note }
+  const recordRevision = (change) => {
+    state.revision += 1;
+    state.revisions.push({ revision: state.revision, at: Date.now(), ...change, prompts: activeVersions() });
+  };
+
+  // Agents added to the pipeline since the store was last saved start from their built-in text
+  const seeded = Object.keys(defaults).filter((agent) => !hasAgent(agent));
+  seeded.forEach((agent) => {
+    state.agents[agent] = { active: 1, versions: [{ version: 1, text: defaults[agent], note: "Built-in", createdAt: Date.now() }] };
+  });
+  if (seeded.length > 0) {
+    recordRevision({ action: state.revision === 0 ? "initial" : "added", note: `Built-in prompts for ${seeded.join(", ")}` });
+    save();
+  }
+
+  const entryOf = (agent) => {
+    if (!hasAgent(agent)) throw new HttpError(404, `No prompt for agent "${agent}".`);
+    return state.agents[agent];
+  };
+
+  const versionOf = (agent, version) => {
+    const found = entryOf(agent).versions.find((v) => v.version === version);
+    if (!found) throw new HttpError(404, `Agent "${agent}" has no prompt version ${version}.`);
+    return found;
+  };
+
+  const describe = (agent) => {
+    const entry = entryOf(agent);
+    return { agent, activeVersion: entry.active, versions: entry.versions };
+  };
+
+  const list = () => ({
+    revision: state.revision,
+    agents: Object.entries(state.agents).map(([agent, entry]) => {
+      const active = entry.versions.find((v) => v.version === entry.active);
+      return {
+        agent,
+        activeVersion: entry.active,
+        latestVersion: entry.versions[entry.versions.length - 1].version,
+        text: active.text,
+        updatedAt: active.createdAt,
+      };
+    }),
+  });
+
+  // Adds a version and makes it the active one
+  const edit = (agent, { text, note } = {}) => {
+    const entry = entryOf(agent);
+    if (typeof text !== "string" || !text.trim()) throw new HttpError(400, "'text' must be a non-empty string.");
+    if (text.length > MAX_TEXT_LENGTH) throw new HttpError(400, `'text' must be at most ${MAX_TEXT_LENGTH} characters.`);
+    if (note !== undefined && (typeof note !== "string" || note.length > MAX_NOTE_LENGTH)) {
+      throw new HttpError(400, `'note' must be a string of at most ${MAX_NOTE_LENGTH} characters.`);
+    }
+    const active = entry.versions.find((v) => v.version === entry.active);
+    if (active.text === text) throw new HttpError(409, "The prompt is unchanged.");
+
+    const version = entry.versions[entry.versions.length - 1].version + 1;
+    entry.versions.push({ version, text, note: note || "", createdAt: Date.now() });
+    entry.active = version;
+    recordRevision({ action: "edited", agent, version, note: note || "" });
+    save();
+    return describe(agent);
+  };
+
+  // Makes an earlier (or later) version active again; versions are never deleted
+  const rollback = (agent, version) => {
+    const entry = entryOf(agent);
+    if (!Number.isInteger(version)) throw new HttpError(400, "'version' must be an integer.");
+    versionOf(agent, version);
+    if (entry.active === version) throw new HttpError(409, `Version ${version} is already active.`);
+    entry.active = version;
+    recordRevision({ action: "rolled back", agent, version, note: "" });
+    save();
+    return describe(agent);
+  };
+
+  const diff = (agent, from, to) => ({
+    agent,
+    from,
+    to,
+    changes: diffWords(versionOf(agent, from).text, versionOf(agent, to).text),
+  });
+
+  const revisions = () => [...state.revisions].reverse();
+
+  // The prompts in effect right now, taken once per analysis so an edit
+  // made while it runs does not mix versions
+  const snapshot = () => ({
+    revision: state.revision,
+    prompts: Object.fromEntries(
+      Object.entries(state.agents).map(([agent, entry]) => [
+        agent,
+        { version: entry.active, text: entry.versions.find((v) => v.version === entry.active).text },
+      ])
+    ),
+  });
+
+  return { list, describe, edit, rollback, diff, revisions, snapshot };
+};
+
+module.exports = { openPromptStore };
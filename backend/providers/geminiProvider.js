@@ -0,0 +1,73 @@
+const { GoogleGenAI } = require("@google/genai");
+const { HttpError } = require("../errors");
+
+const DEFAULT_MODEL = "gemini-2.5-flash";
+
+// Paid-tier list prices, USD per million tokens; GEMINI_PRICE_INPUT / GEMINI_PRICE_OUTPUT override them
+const PRICES = {
+  "gemini-2.5-pro": { inputPerMillion: 1.25, outputPerMillion: 10 },
+  "gemini-2.5-flash": { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  "gemini-2.5-flash-lite": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+  "gemini-2.0-flash": { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+};
+
+const resolvePricing = (env, model) => {
+  const input = Number(env.GEMINI_PRICE_INPUT);
+  const output = Number(env.GEMINI_PRICE_OUTPUT);
+  if (env.GEMINI_PRICE_INPUT && env.GEMINI_PRICE_OUTPUT && Number.isFinite(input) && Number.isFinite(output)) {
+    return { inputPerMillion: input, outputPerMillion: output };
+  }
+  return PRICES[model] || null;
+};
+
+const isRateLimited = (err) =>
+  err && (err.status === 429 || /429|RESOURCE_EXHAUSTED/.test(String(err.message)));
+
+const createGeminiProvider = (env) => {
+  if (!env.GEMINI_API_KEY) {
+    throw new Error("GEMINI_API_KEY must be set to use the gemini provider.");
+  }
+
+  const ai = new GoogleGenAI({ apiKey: env.GEMINI_API_KEY });
+  const model = env.GEMINI_MODEL || DEFAULT_MODEL;
+
+  const generate = async ({ instructions, input, image, schema }) => {
+    const parts = [];
+    if (image) {
+      parts.push({ inlineData: { data: image.data, mimeType: image.mimeType } });
+    }
+    if (input !== undefined) {
+      parts.push({ text: `INPUT:\n${JSON.stringify(input)}` });
+    }
+    if (parts.length === 0) parts.push({ text: "Respond with the requested JSON." });
+
+    try {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [{ role: "user", parts }],
+        config: {
+          systemInstruction: instructions,
+          responseMimeType: "application/json",
+          responseJsonSchema: schema,
+        },
+      });
+      const usage = response.usageMetadata || {};
+      return {
+        text: response.text || "",
+        usage: {
+          inputTokens: usage.promptTokenCount || 0,
+          // Thinking tokens are billed as output
+          outputTokens: (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0),
+        },
+      };
+    } catch (err) {
+      // The frontend backs off when it sees "Rate Limit" / 429
+      if (isRateLimited(err)) throw new HttpError(429, "Rate Limit: Gemini quota exceeded, retry later.");
+      throw err;
+    }
+  };
+
+  return { name: "gemini", model, pricing: resolvePricing(env, model), generate };
+};
+
+module.exports = { createGeminiProvider };
@@ -0,0 +1,39 @@
+// Model provider registry.
+//
+// A provider exposes:
+//   name, model
+//   pricing   { inputPerMillion, outputPerMillion } in USD, or null when unknown
+//   generate({ agent, instructions, input, image, schema }) -> Promise<{ text, usage? }>
+// where `text` is the raw JSON produced for that agent and `usage` its token
+// counts ({ inputTokens, outputTokens }). The pipeline never talks to a vendor
+// SDK directly, so providers can be swapped with MODEL_PROVIDER.
+
+const { createGeminiProvider } = require("./geminiProvider");
+const { createMockProvider } = require("./mockProvider");
+
+const factories = {
+  gemini: createGeminiProvider,
+  mock: createMockProvider,
+};
+
+const registerProvider = (name, factory) => {
+  factories[name] = factory;
+};
+
+// Explicit MODEL_PROVIDER wins; otherwise use Gemini when a key is configured
+// and fall back to the offline mock so the server always boots in development.
+const resolveProviderName = (env) => {
+  if (env.MODEL_PROVIDER) return env.MODEL_PROVIDER.trim().toLowerCase();
+  return env.GEMINI_API_KEY ? "gemini" : "mock";
+};
+
+const createProvider = (env = process.env) => {
+  const name = resolveProviderName(env);
+  const factory = factories[name];
+  if (!factory) {
+    throw new Error(`Unknown MODEL_PROVIDER "${name}". Available: ${Object.keys(factories).join(", ")}`);
+  }
+  return factory(env);
+};
+
+module.exports = { createProvider, registerProvider };
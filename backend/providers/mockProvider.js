@@ -0,0 +1,183 @@
+// Deterministic offline provider.
+// Output depends only on the request (the frame bytes and the agent input), so the
+// same image always yields the same detections. Used for local development and tests.
+
+const VEHICLE_CLASSES = ["car", "car", "car", "truck", "bus", "motorcycle", "bicycle"];
+
+// FNV-1a over a strided sample of the string; frames are large base64 blobs
+const hashString = (value) => {
+  let hash = 0x811c9dc5;
+  const step = Math.max(1, Math.floor(value.length / 4096));
+  for (let i = 0; i < value.length; i += step) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32
+const createRng = (seed) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const randInt = (rng, min, max) => min + Math.floor(rng() * (max - min + 1));
+const round2 = (n) => Math.round(n * 100) / 100;
+
+const makeBox = (rng, yRange, height, aspect) => {
+  const h = height * (0.8 + rng() * 0.4);
+  const w = Math.min(400, h * aspect);
+  const ymin = randInt(rng, yRange[0], yRange[1] - Math.round(h));
+  const xmin = randInt(rng, 0, 1000 - Math.round(w));
+  return [ymin, xmin, Math.round(ymin + h), Math.round(xmin + w)];
+};
+
+const vision = ({ image }) => {
+  const rng = createRng(hashString(image ? image.data : ""));
+  const detections = [];
+
+  const vehicles = randInt(rng, 3, 12);
+  for (let i = 0; i < vehicles; i++) {
+    const object = VEHICLE_CLASSES[randInt(rng, 0, VEHICLE_CLASSES.length - 1)];
+    const size = object === "bus" || object === "truck" ? 160 : object === "car" ? 110 : 70;
+    detections.push({
+      object,
+      count: 1,
+      confidence: round2(0.7 + rng() * 0.29),
+      type: "vehicle",
+      box_2d: makeBox(rng, [300, 1000], size, object === "bicycle" || object === "motorcycle" ? 0.6 : 1.4),
+    });
+  }
+
+  const pedestrians = randInt(rng, 0, 4);
+  for (let i = 0; i < pedestrians; i++) {
+    detections.push({
+      object: "person",
+      count: 1,
+      confidence: round2(0.6 + rng() * 0.35),
+      type: "pedestrian",
+      box_2d: makeBox(rng, [350, 1000], 90, 0.4),
+    });
+  }
+
+  const trafficLights = [];
+  if (rng() > 0.4) {
+    const states = ["Red", "Yellow", "Green"];
+    trafficLights.push({ state: states[randInt(rng, 0, 2)], count: randInt(rng, 1, 2) });
+    detections.push({
+      object: "traffic light",
+      count: trafficLights[0].count,
+      confidence: round2(0.8 + rng() * 0.19),
+      type: "infrastructure",
+      box_2d: makeBox(rng, [0, 300], 80, 0.4),
+    });
+  }
+
+  return { detections, trafficLights };
+};
+
+const FLOW_BANDS = [
+  [80, "Gridlock"],
+  [55, "Heavy"],
+  [30, "Moderate"],
+  [0, "Free Flow"],
+];
+
+const analysis = ({ input }) => {
+  const detections = (input && input.detections) || [];
+  const trafficLights = (input && input.trafficLights) || [];
+  const sum = (type) => detections.filter((d) => d.type === type).reduce((n, d) => n + (d.count || 1), 0);
+
+  const totalVehicles = sum("vehicle");
+  const pedestrianCount = sum("pedestrian");
+  const congestionLevel = Math.min(100, totalVehicles * 7 + pedestrianCount * 2);
+  const trafficFlowStatus = FLOW_BANDS.find(([min]) => congestionLevel >= min)[1];
+
+  const detectedViolations = [];
+  const redLight = trafficLights.some((l) => l.state === "Red");
+  if (redLight && pedestrianCount >= 3) {
+    detectedViolations.push({
+      type: "Jaywalking",
+      description: `${pedestrianCount} pedestrians near the carriageway while signals show red for traffic.`,
+      severity: "Low",
+    });
+  }
+
+  return {
+    totalVehicles,
+    pedestrianCount,
+    trafficLights,
+    congestionLevel,
+    trafficFlowStatus,
+    estimatedAverageSpeed: Math.max(5, Math.round(60 - congestionLevel * 0.5)),
+    detectedViolations,
+  };
+};
+
+const RECOMMENDATIONS = {
+  "Free Flow": ["Maintain current signal timing.", "Continue routine monitoring."],
+  Moderate: ["Monitor approach queues during peak hours.", "Consider extending green phase on the main approach."],
+  Heavy: ["Extend green phase on the congested approach.", "Post advisory on variable message signs."],
+  Gridlock: ["Dispatch traffic officers to the junction.", "Activate diversion routes.", "Hold upstream signals to meter inflow."],
+};
+
+const report = ({ input }) => {
+  const a = (input && input.analysis) || analysis({ input: {} });
+  const violations = a.detectedViolations.length;
+  return {
+    summary:
+      `${a.trafficFlowStatus} conditions with ${a.totalVehicles} vehicles and ${a.pedestrianCount} pedestrians in view ` +
+      `(congestion ${a.congestionLevel}%, ~${a.estimatedAverageSpeed} km/h). ` +
+      (violations > 0 ? `${violations} violation(s) flagged.` : "No violations flagged."),
+    recommendations: RECOMMENDATIONS[a.trafficFlowStatus] || RECOMMENDATIONS.Moderate,
+    priorityScore: Math.max(1, Math.min(10, Math.round(a.congestionLevel / 10) + violations)),
+  };
+};
+
+const handlers = { vision, analysis, report };
+
+// Agents added through a pipeline definition get the smallest value their schema accepts
+const sampleOf = (schema) => {
+  if (schema.enum) return schema.enum[0];
+  switch (schema.type) {
+    case "object":
+      return Object.fromEntries((schema.required || []).map((key) => [key, sampleOf(schema.properties[key])]));
+    case "array":
+      return Array.from({ length: schema.minItems || 0 }, () => sampleOf(schema.items || {}));
+    case "number":
+    case "integer":
+      return schema.minimum !== undefined ? schema.minimum : 0;
+    case "boolean":
+      return false;
+    case "string":
+      return "";
+    default:
+      return null;
+  }
+};
+
+// Rough token counts (about 4 characters a token, a flat 258 per image) so usage reporting can be exercised offline
+const IMAGE_TOKENS = 258;
+const estimateTokens = (text) => Math.ceil(text.length / 4);
+
+const createMockProvider = () => {
+  const generate = async (request) => {
+    const handler = handlers[request.agent];
+    const text = JSON.stringify(handler ? handler(request) : sampleOf(request.schema));
+    const prompt = request.instructions + (request.input === undefined ? "" : JSON.stringify(request.input));
+    const usage = {
+      inputTokens: estimateTokens(prompt) + (request.image ? IMAGE_TOKENS : 0),
+      outputTokens: estimateTokens(text),
+    };
+    return { text, usage };
+  };
+
+  return { name: "mock", model: "mock-deterministic", pricing: { inputPerMillion: 0, outputPerMillion: 0 }, generate };
+};
+
+module.exports = { createMockProvider };
@@ -1,29 +1,184 @@
+const path = require("path");
+const crypto = require("crypto");
 const express = require("express");
 const cors = require("cors");
 require("dotenv").config();
 
+const { createProvider } = require("./providers");
+const { runTrafficPipeline } = require("./agents/pipeline");
+const { loadPipelineDefinition, defaultPrompts } = require("./agents/definition");
+const { createPipelineRouter } = require("./agents/routes");
+const { openPromptStore } = require("./prompts/store");
+const { createPromptsRouter } = require("./prompts/routes");
+const { loadDataset } = require("./location/dataset");
+const { buildLocationContext } = require("./location/context");
+const { openAnalysisStore, IMAGE_EXTENSIONS, isImageType } = require("./analyses/store");
+const { createAnalysesRouter } = require("./analyses/routes");
+const { openWebhook } = require("./alerts/webhook");
+const { createAlertsRouter } = require("./alerts/routes");
+const { createIngestManager } = require("./ingest/manager");
+const { createStreamsRouter } = require("./ingest/routes");
+const { createHostPolicy } = require("./hostPolicy");
+const { createLiveHub } = require("./live/hub");
+const { createLiveRouter } = require("./live/routes");
+
 const app = express();
 app.use(cors());
 app.use(express.json({ limit: "50mb" }));
 app.use(express.urlencoded({ extended: true, limit: "50mb" }));
 
+const provider = createProvider();
+console.log(`Model provider: ${provider.name} (${provider.model})`);
+
+// Agents run on every frame (agents/pipeline.json unless PIPELINE_CONFIG points elsewhere)
+const pipelineDefinition = loadPipelineDefinition(process.env.PIPELINE_CONFIG || undefined);
+const enabledAgents = pipelineDefinition.agents.filter((agent) => agent.enabled).map((agent) => agent.id);
+console.log(`Agent pipeline: ${pipelineDefinition.name} (${enabledAgents.join(", ")})`);
+
+// Versioned prompt templates, seeded with the agents' built-in instructions
+const PROMPT_STORE = process.env.PROMPT_STORE || path.join(__dirname, "data", "prompts.json");
+const promptStore = openPromptStore(PROMPT_STORE, defaultPrompts(pipelineDefinition));
+console.log(`Prompt templates: ${PROMPT_STORE} (revision ${promptStore.list().revision})`);
+
+const runPipeline = (provider, request, onProgress) =>
+  runTrafficPipeline(provider, { ...request, definition: pipelineDefinition, templates: promptStore.snapshot() }, onProgress);
+
+// Offline map data for /api/location (replace with your own OSM extract via LOCATION_DATASET)
+const LOCATION_DATASET = process.env.LOCATION_DATASET || path.join(__dirname, "data", "osm-sample.geojson");
+const LOCATION_RADIUS_M = Number(process.env.LOCATION_RADIUS_M) || 1000;
+let locationDataset = null;
+try {
+  locationDataset = loadDataset(LOCATION_DATASET);
+  console.log(`Location dataset: ${locationDataset.name} (${locationDataset.size} features)`);
+} catch (err) {
+  console.error(`Location dataset unavailable (${LOCATION_DATASET}):`, err.message);
+}
+
+// Analysis database (SQLite); ANALYSIS_DB=off disables storage and the /api/analyses routes
+const ANALYSIS_DB = process.env.ANALYSIS_DB || path.join(__dirname, "data", "analyses.db");
+let analysisStore = null;
+if (ANALYSIS_DB !== "off") {
+  try {
+    analysisStore = openAnalysisStore(ANALYSIS_DB);
+    console.log(`Analysis database: ${ANALYSIS_DB} (${analysisStore.size} analyses)`);
+  } catch (err) {
+    console.error(`Analysis database unavailable (${ANALYSIS_DB}):`, err.message);
+  }
+}
+
+// Outgoing alert webhook (URL and secret can also be changed through /api/alerts/webhook, given ADMIN_TOKEN)
+const ALERT_CONFIG = process.env.ALERT_CONFIG || path.join(__dirname, "data", "alert-webhook.json");
+const alertWebhook = openWebhook(ALERT_CONFIG, {
+  url: process.env.ALERT_WEBHOOK_URL,
+  secret: process.env.ALERT_WEBHOOK_SECRET,
+});
+console.log(`Alert webhook: ${alertWebhook.describe().url || "not configured"}`);
+
+// Live feeds: analysis progress and results pushed to every viewer of a source
+const liveHub = createLiveHub();
+
+// Backend stream ingestion (IP cameras); INGEST_STREAMS is a comma-separated list of URLs to start with
+const ingest = createIngestManager({
+  provider,
+  runPipeline,
+  store: analysisStore,
+  ffmpegPath: process.env.FFMPEG_PATH || "ffmpeg",
+  defaultIntervalSeconds: Number(process.env.INGEST_INTERVAL_SECONDS) || 5,
+  maxStreams: Number(process.env.INGEST_MAX_STREAMS) || 8,
+});
+(process.env.INGEST_STREAMS || "").split(",").map((url) => url.trim()).filter(Boolean).forEach((url, index) => {
+  try {
+    const stream = ingest.add({ url });
+    console.log(`Ingesting stream: ${stream.url} (every ${stream.intervalSeconds}s)`);
+  } catch (err) {
+    // By position: an entry that failed to parse cannot be shown without its credentials
+    console.error(`Cannot ingest stream ${index + 1} of INGEST_STREAMS:`, err.message);
+  }
+});
+["progress", "result", "failed"].forEach((event) => {
+  ingest.events.on(event, ({ sourceId, ...data }) => liveHub.publish(sourceId, event, data));
+});
+
 // ADD THIS
 app.get("/", (req, res) => {
   res.send("Backend is running ✔");
 });
 
-// Your API route
+// Traffic analysis: runs the agent pipeline on one frame.
+// Progress and the result are also pushed to the source's live feed, tagged
+// with the caller's jobId so it can follow its own request.
 app.post("/api/gemini", async (req, res) => {
+  const { prompt = "traffic-analysis", image, mimeType, sourceId, jobId = crypto.randomUUID() } = req.body || {};
+  const feedId = sourceId || "upload";
   try {
-    // ...Your logic
+    if (!image || !mimeType) {
+      return res.status(400).json({ error: "Request body must include base64 'image' and 'mimeType'." });
+    }
+    if (!isImageType(mimeType)) {
+      return res.status(400).json({ error: `'mimeType' must be one of ${Object.keys(IMAGE_EXTENSIONS).join(", ")}.` });
+    }
+
+    const onProgress = (progress) => liveHub.publish(feedId, "progress", { jobId, ...progress });
+    const result = await runPipeline(provider, { prompt, image, mimeType }, onProgress);
+    if (analysisStore) {
+      try {
+        result.analysisId = analysisStore.insert(result, { sourceId, image, mimeType });
+      } catch (err) {
+        // Storage problems must not cost the caller its analysis
+        console.error("Failed to store analysis:", err.message);
+      }
+    }
+    liveHub.publish(feedId, "result", { jobId, capturedAt: result.timestamp, image, mimeType, result });
+    res.json(result);
   } catch (err) {
-    res.status(500).json({ error: err.message });
+    console.error("Analysis failed:", err.message);
+    liveHub.publish(feedId, "failed", { jobId, error: err.message });
+    res.status(err.status || 500).json({ error: err.message, issues: err.issues });
+  }
+});
+
+// Location context: reverse geocoding, nearby places and traffic influencers
+app.post("/api/location", (req, res) => {
+  const lat = Number(req.body && req.body.lat);
+  const lng = Number(req.body && req.body.lng);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return res.status(400).json({ error: "Request body must include numeric 'lat' and 'lng'." });
+  }
+  if (!locationDataset) {
+    return res.status(503).json({ error: "No location dataset loaded." });
   }
+
+  res.json(buildLocationContext(locationDataset, lat, lng, LOCATION_RADIUS_M));
 });
 
+// The agent pipeline definition, for drawing it
+app.use("/api/pipeline", createPipelineRouter(pipelineDefinition));
+
+// Prompt templates: versions, edits, diffs and rollbacks
+app.use("/api/prompts", createPromptsRouter(promptStore, { adminToken: process.env.ADMIN_TOKEN }));
+
+// Stored analyses (list, filter, fetch, delete)
+if (analysisStore) {
+  app.use("/api/analyses", createAnalysesRouter(analysisStore));
+}
+
+// Alerts raised by the UI, forwarded to the webhook
+app.use(
+  "/api/alerts",
+  createAlertsRouter(alertWebhook, { adminToken: process.env.ADMIN_TOKEN, hostPolicy: createHostPolicy("ALERT_ALLOWED_HOSTS") })
+);
+
+// Streams ingested by the backend, and the push channel for their results
+app.use(
+  "/api/streams",
+  createStreamsRouter(ingest, { adminToken: process.env.ADMIN_TOKEN, hostPolicy: createHostPolicy("INGEST_ALLOWED_HOSTS") })
+);
+
+// Live analysis feeds
+app.use("/api/live", createLiveRouter(liveHub));
+
 // Start server
 const PORT = process.env.PORT || 8080;
 app.listen(PORT, "0.0.0.0", () => {
   console.log("Backend running on port", PORT);
 });
-
@@ -0,0 +1,145 @@
+// Writes the synthetic golden sequences of the evaluation harness (eval/golden)
+// from the junction scene: the frames and their labels. The labels are exact,
+// since the scene is drawn from them. Sequences labelled by hand live next to
+// these and are left alone.
+//
+//   npm run golden-frames
+
+const fs = require("fs");
+const path = require("path");
+const { WIDTH, HEIGHT, CARRIAGEWAY, renderScene, visibleCars } = require("./scene");
+
+const GOLDEN_DIR = path.join(__dirname, "..", "..", "eval", "golden");
+
+// Cars narrower than this in frame are too clipped to expect a detection
+const MIN_VISIBLE = 8;
+
+const round4 = (n) => Math.round(n * 1e4) / 1e4;
+
+// A full-width band of the frame between two pixel rows, as a zone polygon
+const rows = (top, bottom) => [
+  [0, round4(top / HEIGHT)],
+  [1, round4(top / HEIGHT)],
+  [1, round4(bottom / HEIGHT)],
+  [0, round4(bottom / HEIGHT)],
+];
+
+const EASTBOUND = { id: "eastbound", kind: "lane", name: "Eastbound", points: rows(CARRIAGEWAY.top, CARRIAGEWAY.centre), direction: [1, 0] };
+const WESTBOUND = { id: "westbound", kind: "lane", name: "Westbound", points: rows(CARRIAGEWAY.centre, CARRIAGEWAY.bottom), direction: [-1, 0] };
+
+// Eastbound cars above the centre line, westbound below, and one car driving
+// west in the eastbound lane. `violation` is what each lap of the car must be flagged for.
+const JUNCTION_CARS = [
+  { lane: 92, length: 44, shade: 220, speed: 48, offset: 40 },
+  { lane: 92, length: 36, shade: 30, speed: 48, offset: 210 },
+  {
+    lane: 116, length: 40, shade: 240, speed: -36, offset: 230,
+    violation: { type: "Wrong Lane", description: "Car driving west in the eastbound lane.", severity: "High" },
+  },
+  { lane: 146, length: 56, shade: 180, speed: -30, offset: 150 },
+  { lane: 170, length: 70, shade: 200, speed: -22, offset: 300 },
+  { lane: 170, length: 34, shade: 20, speed: -22, offset: 120 },
+];
+
+// Uncalibrated, the frame height spans 40 m, so 90 px/s across a 320 px frame is
+// about 40 km/h: under the camera's 80 km/h, but 30 over the eastbound lane's own 10 km/h
+const SPEEDING = { type: "Speeding", description: "Car at about 40 km/h in the eastbound lane's 10 km/h limit.", severity: "High" };
+const LANE_LIMIT_CARS = [
+  { lane: 92, length: 44, shade: 220, speed: 90, offset: 60, violation: SPEEDING },
+  { lane: 116, length: 40, shade: 30, speed: 90, offset: 230, violation: SPEEDING },
+  { lane: 146, length: 56, shade: 180, speed: -30, offset: 150 },
+  { lane: 170, length: 70, shade: 200, speed: -22, offset: 300 },
+];
+
+const SEQUENCES = [
+  {
+    name: "junction-5fps",
+    description: "Synthetic two-way road at 5 fps; one car drives against the eastbound lane.",
+    cars: JUNCTION_CARS,
+    zones: [EASTBOUND, WESTBOUND],
+    fps: 5,
+    frames: 10,
+  },
+  {
+    name: "junction-1fps",
+    description: "The same road sampled at 1 fps, the app's default rate; cars leave and re-enter the frame.",
+    cars: JUNCTION_CARS,
+    zones: [EASTBOUND, WESTBOUND],
+    fps: 1,
+    frames: 6,
+  },
+  {
+    name: "junction-lane-limit",
+    description: "Eastbound lane limited to 10 km/h under an 80 km/h camera limit; both eastbound cars speed against the lane's limit.",
+    cars: LANE_LIMIT_CARS,
+    zones: [{ ...EASTBOUND, speedLimit: 10 }, WESTBOUND],
+    fps: 2,
+    frames: 6,
+  },
+];
+
+// Pixel rectangle -> [ymin, xmin, ymax, xmax] normalized 0-1000
+const toBox = ({ top, left, bottom, right }) => [
+  Math.round((top / HEIGHT) * 1000),
+  Math.round((left / WIDTH) * 1000),
+  Math.round((bottom / HEIGHT) * 1000),
+  Math.round((right / WIDTH) * 1000),
+];
+
+const writeSequence = ({ name, description, cars, zones, fps, frames }) => {
+  const dir = path.join(GOLDEN_DIR, name);
+  fs.mkdirSync(dir, { recursive: true });
+
+  // A car that wraps around is a different road user each lap
+  const identities = new Map();
+  const identityOf = ({ index, lap }) => {
+    const key = `${index}:${lap}`;
+    if (!identities.has(key)) identities.set(key, identities.size + 1);
+    return identities.get(key);
+  };
+
+  const visible = Array.from({ length: frames }, (_, i) => visibleCars(cars, i / fps, MIN_VISIBLE));
+  const sightings = new Map();
+  visible.flat().forEach((car) => sightings.set(identityOf(car), (sightings.get(identityOf(car)) || 0) + 1));
+
+  // A violation is labelled on the frame the road user first appears in; one
+  // seen on a single frame cannot be measured, so it is not expected to be flagged
+  const flagged = new Set();
+  const labelled = visible.map((inView, i) => {
+    const seconds = i / fps;
+    const image = `frame-${String(i).padStart(2, "0")}.jpg`;
+    fs.writeFileSync(path.join(dir, image), renderScene(cars, seconds));
+
+    const detections = inView.map((car) => ({
+      object: "car",
+      count: 1,
+      confidence: 1,
+      type: "vehicle",
+      box_2d: toBox(car),
+      trackId: identityOf(car),
+    }));
+
+    const violations = inView
+      .filter((car) => cars[car.index].violation && sightings.get(identityOf(car)) >= 2 && !flagged.has(identityOf(car)))
+      .map((car) => {
+        flagged.add(identityOf(car));
+        return { ...cars[car.index].violation, trackId: identityOf(car) };
+      });
+
+    return {
+      image,
+      capturedAt: Math.round(seconds * 1000),
+      detections,
+      counts: { totalVehicles: detections.length, pedestrianCount: 0 },
+      violations,
+    };
+  });
+
+  const sequence = { description, generatedBy: "backend/tools/golden-frames.js", zones, frames: labelled };
+  // Boxes and points on one line each, so the labels stay readable and diff well
+  const json = JSON.stringify(sequence, null, 2).replace(/\[\s+([-\d.,\s]+?)\s+\]/g, (_, inner) => `[${inner.split(/,\s*/).join(", ")}]`);
+  fs.writeFileSync(path.join(dir, "sequence.json"), json + "\n");
+  console.log(`${name}: ${frames} frames, ${identities.size} labelled road users`);
+};
+
+SEQUENCES.forEach(writeSequence);
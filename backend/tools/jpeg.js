@@ -0,0 +1,161 @@
+// Minimal baseline JPEG encoder for greyscale images, so the test stream can
+// synthesise frames without an image library. Standard luminance tables, no
+// chroma, no restart markers.
+
+const ZIGZAG = [
+  0, 1, 8, 16, 9, 2, 3, 10, 17, 24, 32, 25, 18, 11, 4, 5, 12, 19, 26, 33, 40, 48, 41, 34, 27, 20, 13, 6, 7, 14, 21, 28,
+  35, 42, 49, 56, 57, 50, 43, 36, 29, 22, 15, 23, 30, 37, 44, 51, 58, 59, 52, 45, 38, 31, 39, 46, 53, 60, 61, 54, 47, 55,
+  62, 63,
+];
+
+const LUMINANCE_QUANT = [
+  16, 11, 10, 16, 24, 40, 51, 61, 12, 12, 14, 19, 26, 58, 60, 55, 14, 13, 16, 24, 40, 57, 69, 56, 14, 17, 22, 29, 51, 87,
+  80, 62, 18, 22, 37, 56, 68, 109, 103, 77, 24, 35, 55, 64, 81, 104, 113, 92, 49, 64, 78, 87, 103, 121, 120, 101, 72, 92,
+  95, 98, 112, 100, 103, 99,
+];
+
+const DC_BITS = [0, 1, 5, 1, 1, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 0];
+const DC_VALUES = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11];
+const AC_BITS = [0, 2, 1, 3, 3, 2, 4, 3, 5, 5, 4, 4, 0, 0, 1, 0x7d];
+const AC_VALUES = [
+  0x01, 0x02, 0x03, 0x00, 0x04, 0x11, 0x05, 0x12, 0x21, 0x31, 0x41, 0x06, 0x13, 0x51, 0x61, 0x07, 0x22, 0x71, 0x14, 0x32,
+  0x81, 0x91, 0xa1, 0x08, 0x23, 0x42, 0xb1, 0xc1, 0x15, 0x52, 0xd1, 0xf0, 0x24, 0x33, 0x62, 0x72, 0x82, 0x09, 0x0a, 0x16,
+  0x17, 0x18, 0x19, 0x1a, 0x25, 0x26, 0x27, 0x28, 0x29, 0x2a, 0x34, 0x35, 0x36, 0x37, 0x38, 0x39, 0x3a, 0x43, 0x44, 0x45,
+  0x46, 0x47, 0x48, 0x49, 0x4a, 0x53, 0x54, 0x55, 0x56, 0x57, 0x58, 0x59, 0x5a, 0x63, 0x64, 0x65, 0x66, 0x67, 0x68, 0x69,
+  0x6a, 0x73, 0x74, 0x75, 0x76, 0x77, 0x78, 0x79, 0x7a, 0x83, 0x84, 0x85, 0x86, 0x87, 0x88, 0x89, 0x8a, 0x92, 0x93, 0x94,
+  0x95, 0x96, 0x97, 0x98, 0x99, 0x9a, 0xa2, 0xa3, 0xa4, 0xa5, 0xa6, 0xa7, 0xa8, 0xa9, 0xaa, 0xb2, 0xb3, 0xb4, 0xb5, 0xb6,
+  0xb7, 0xb8, 0xb9, 0xba, 0xc2, 0xc3, 0xc4, 0xc5, 0xc6, 0xc7, 0xc8, 0xc9, 0xca, 0xd2, 0xd3, 0xd4, 0xd5, 0xd6, 0xd7, 0xd8,
+  0xd9, 0xda, 0xe1, 0xe2, 0xe3, 0xe4, 0xe5, 0xe6, 0xe7, 0xe8, 0xe9, 0xea, 0xf1, 0xf2, 0xf3, 0xf4, 0xf5, 0xf6, 0xf7, 0xf8,
+  0xf9, 0xfa,
+];
+
+// Canonical Huffman codes: symbol -> [code, length]
+const buildCodes = (bits, values) => {
+  const codes = {};
+  let code = 0;
+  let k = 0;
+  for (let length = 1; length <= 16; length++) {
+    for (let i = 0; i < bits[length - 1]; i++) codes[values[k++]] = [code++, length];
+    code <<= 1;
+  }
+  return codes;
+};
+
+const DC_CODES = buildCodes(DC_BITS, DC_VALUES);
+const AC_CODES = buildCodes(AC_BITS, AC_VALUES);
+
+// COS[x * 8 + u] = C(u) / 2 * cos((2x + 1) u pi / 16)
+const COS = new Float64Array(64);
+for (let x = 0; x < 8; x++) {
+  for (let u = 0; u < 8; u++) {
+    COS[x * 8 + u] = (u === 0 ? Math.SQRT1_2 : 1) / 2 * Math.cos(((2 * x + 1) * u * Math.PI) / 16);
+  }
+}
+
+const quantTable = (quality) => {
+  const scale = quality < 50 ? 5000 / quality : 200 - quality * 2;
+  return LUMINANCE_QUANT.map((q) => Math.min(255, Math.max(1, Math.floor((q * scale + 50) / 100))));
+};
+
+const createBitWriter = () => {
+  const bytes = [];
+  let buffer = 0;
+  let count = 0;
+  const pushByte = (byte) => {
+    bytes.push(byte);
+    if (byte === 0xff) bytes.push(0x00); // Byte stuffing
+  };
+  return {
+    write(value, length) {
+      for (let i = length - 1; i >= 0; i--) {
+        buffer = (buffer << 1) | ((value >> i) & 1);
+        if (++count === 8) {
+          pushByte(buffer);
+          buffer = 0;
+          count = 0;
+        }
+      }
+    },
+    finish() {
+      if (count > 0) pushByte((buffer << (8 - count)) | ((1 << (8 - count)) - 1));
+      return bytes;
+    },
+  };
+};
+
+// Bits needed for |value|, and the value's JPEG "additional bits"
+const category = (value) => {
+  let size = 0;
+  for (let magnitude = Math.abs(value); magnitude > 0; magnitude >>= 1) size++;
+  return size;
+};
+const extraBits = (value, size) => (value < 0 ? value + (1 << size) - 1 : value);
+
+const encodeBlock = (writer, block, quant, previousDc) => {
+  const coefficients = new Array(64);
+  for (let v = 0; v < 8; v++) {
+    for (let u = 0; u < 8; u++) {
+      let sum = 0;
+      for (let y = 0; y < 8; y++) {
+        for (let x = 0; x < 8; x++) sum += block[y * 8 + x] * COS[x * 8 + u] * COS[y * 8 + v];
+      }
+      coefficients[v * 8 + u] = Math.round(sum / quant[v * 8 + u]);
+    }
+  }
+
+  const dc = coefficients[0];
+  const diff = dc - previousDc;
+  const dcSize = category(diff);
+  writer.write(...DC_CODES[dcSize]);
+  if (dcSize > 0) writer.write(extraBits(diff, dcSize), dcSize);
+
+  let run = 0;
+  for (let k = 1; k < 64; k++) {
+    const value = coefficients[ZIGZAG[k]];
+    if (value === 0) {
+      run++;
+      continue;
+    }
+    for (; run > 15; run -= 16) writer.write(...AC_CODES[0xf0]);
+    const size = category(value);
+    writer.write(...AC_CODES[(run << 4) | size]);
+    writer.write(extraBits(value, size), size);
+    run = 0;
+  }
+  if (run > 0) writer.write(...AC_CODES[0x00]);
+  return dc;
+};
+
+const segment = (marker, body) => [0xff, marker, (body.length + 2) >> 8, (body.length + 2) & 0xff, ...body];
+
+// pixels: Uint8Array of width * height grey levels, row by row
+const encodeGreyJpeg = (pixels, width, height, quality = 75) => {
+  const quant = quantTable(quality);
+  const writer = createBitWriter();
+  const block = new Float64Array(64);
+  let dc = 0;
+  for (let by = 0; by < height; by += 8) {
+    for (let bx = 0; bx < width; bx += 8) {
+      for (let y = 0; y < 8; y++) {
+        // Edge blocks repeat the last row / column
+        const row = Math.min(by + y, height - 1) * width;
+        for (let x = 0; x < 8; x++) block[y * 8 + x] = pixels[row + Math.min(bx + x, width - 1)] - 128;
+      }
+      dc = encodeBlock(writer, block, quant, dc);
+    }
+  }
+
+  return Buffer.from([
+    0xff, 0xd8,
+    ...segment(0xe0, [0x4a, 0x46, 0x49, 0x46, 0x00, 0x01, 0x01, 0x00, 0x00, 0x01, 0x00, 0x01, 0x00, 0x00]),
+    ...segment(0xdb, [0x00, ...ZIGZAG.map((i) => quant[i])]),
+    ...segment(0xc0, [8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0]),
+    ...segment(0xc4, [0x00, ...DC_BITS, ...DC_VALUES]),
+    ...segment(0xc4, [0x10, ...AC_BITS, ...AC_VALUES]),
+    ...segment(0xda, [1, 1, 0x00, 0, 63, 0]),
+    ...writer.finish(),
+    0xff, 0xd9,
+  ]);
+};
+
+module.exports = { encodeGreyJpeg };
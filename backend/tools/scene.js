@@ -0,0 +1,55 @@
+// Synthetic junction scene shared by the test stream and the evaluation's
+// golden frames: a two-way road seen from above, cars as shaded blocks that
+// wrap around the frame. Because the scene is drawn from a list of cars, the
+// exact box of every car at any moment is known as well as its pixels.
+
+const { encodeGreyJpeg } = require("./jpeg");
+
+const WIDTH = 320;
+const HEIGHT = 240;
+const CAR_HEIGHT = 18;
+
+// Carriageway rows; cars above the centre line drive right (eastbound), below it left
+const CARRIAGEWAY = { top: 84, centre: 137, bottom: 194 };
+
+const fillRect = (pixels, x0, y0, width, height, shade) => {
+  for (let y = Math.max(0, y0); y < Math.min(HEIGHT, y0 + height); y++) {
+    for (let x = Math.max(0, x0); x < Math.min(WIDTH, x0 + width); x++) pixels[y * WIDTH + x] = shade;
+  }
+};
+
+// car: { lane (top row), length, shade, speed (pixels per second, negative is leftwards), offset }
+// -> left edge in pixels and the lap: how many times the car has wrapped since second 0
+const carPosition = (car, seconds) => {
+  const span = WIDTH + car.length;
+  const travelled = car.offset + car.speed * seconds;
+  const wrapped = ((travelled % span) + span) % span;
+  return { x: Math.round(wrapped) - car.length, lap: Math.floor(travelled / span) };
+};
+
+const renderScene = (cars, seconds, quality = 80) => {
+  const pixels = new Uint8Array(WIDTH * HEIGHT).fill(150); // Pavement
+  fillRect(pixels, 0, CARRIAGEWAY.top, WIDTH, CARRIAGEWAY.bottom - CARRIAGEWAY.top, 70);
+  for (let x = 0; x < WIDTH; x += 32) fillRect(pixels, x, CARRIAGEWAY.centre, 18, 3, 235); // Centre line
+  fillRect(pixels, 140, CARRIAGEWAY.bottom, 40, HEIGHT - CARRIAGEWAY.bottom, 110); // Side road
+
+  cars.forEach((car) => {
+    const { x } = carPosition(car, seconds);
+    fillRect(pixels, x, car.lane, car.length, CAR_HEIGHT, car.shade);
+    fillRect(pixels, x + Math.round(car.length * 0.3), car.lane + 3, Math.round(car.length * 0.4), 12, 100); // Windows
+  });
+  return encodeGreyJpeg(pixels, WIDTH, HEIGHT, quality);
+};
+
+// The visible part of each car at `seconds` as pixel rectangles; cars with
+// fewer than `minVisible` columns in frame are left out
+const visibleCars = (cars, seconds, minVisible = 1) =>
+  cars.flatMap((car, index) => {
+    const { x, lap } = carPosition(car, seconds);
+    const left = Math.max(0, x);
+    const right = Math.min(WIDTH, x + car.length);
+    if (right - left < minVisible) return [];
+    return [{ index, lap, left, right, top: car.lane, bottom: car.lane + CAR_HEIGHT }];
+  });
+
+module.exports = { WIDTH, HEIGHT, CARRIAGEWAY, renderScene, visibleCars };
@@ -0,0 +1,61 @@
+// Local test camera for stream ingestion: serves a synthetic junction scene
+// (a road with cars moving in both directions) without a real camera.
+//
+//   npm run test-stream
+//   INGEST_STREAMS=http://localhost:8554/stream.mjpg npm run start:mock
+//
+//   /stream.mjpg    MJPEG (multipart/x-mixed-replace) at TEST_STREAM_FPS (default 5)
+//   /snapshot.jpg   the current frame as a single JPEG
+//
+// With ffmpeg installed the same stream can be republished as RTSP or HLS to
+// exercise those readers, e.g. `ffmpeg -i http://localhost:8554/stream.mjpg -f hls /tmp/hls/index.m3u8`.
+
+const http = require("http");
+const { renderScene } = require("./scene");
+
+const PORT = Number(process.env.TEST_STREAM_PORT) || 8554;
+const FPS = Number(process.env.TEST_STREAM_FPS) || 5;
+const BOUNDARY = "frame";
+
+// Lanes at fixed rows; cars wrap around the frame at their own speed (pixels per second)
+const CARS = [
+  { lane: 96, length: 44, shade: 220, speed: 48, offset: 0 },
+  { lane: 96, length: 36, shade: 30, speed: 48, offset: 170 },
+  { lane: 122, length: 56, shade: 180, speed: 30, offset: 60 },
+  { lane: 150, length: 40, shade: 240, speed: -40, offset: 40 },
+  { lane: 176, length: 70, shade: 200, speed: -22, offset: 200 },
+  { lane: 176, length: 34, shade: 20, speed: -22, offset: 90 },
+];
+
+const started = Date.now();
+const currentFrame = () => renderScene(CARS, (Date.now() - started) / 1000);
+
+const server = http.createServer((req, res) => {
+  const path = new URL(req.url, "http://localhost").pathname;
+  const headers = { "Access-Control-Allow-Origin": "*", "Cache-Control": "no-store" };
+
+  if (path === "/snapshot.jpg") {
+    res.writeHead(200, { ...headers, "Content-Type": "image/jpeg" }).end(currentFrame());
+    return;
+  }
+  if (path !== "/stream.mjpg") {
+    res.writeHead(404, { "Content-Type": "text/plain" }).end("Try /stream.mjpg or /snapshot.jpg\n");
+    return;
+  }
+
+  res.writeHead(200, { ...headers, "Content-Type": `multipart/x-mixed-replace; boundary=${BOUNDARY}` });
+  const sendFrame = () => {
+    const frame = currentFrame();
+    res.write(`--${BOUNDARY}\r\nContent-Type: image/jpeg\r\nContent-Length: ${frame.length}\r\n\r\n`);
+    res.write(frame);
+    res.write("\r\n");
+  };
+  sendFrame();
+  const timer = setInterval(sendFrame, 1000 / FPS);
+  req.on("close", () => clearInterval(timer));
+  console.log(`[${new Date().toISOString()}] viewer connected from ${req.socket.remoteAddress}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Test stream on http://localhost:${PORT}/stream.mjpg (${FPS} fps) and /snapshot.jpg`);
+});
@@ -0,0 +1,45 @@
+// Local receiver for testing the alert webhook: prints every POSTed alert and,
+// when WEBHOOK_SECRET matches the backend's ALERT_WEBHOOK_SECRET, checks its
+// signature.
+//
+//   WEBHOOK_SECRET=s3cret npm run webhook:receiver
+//   ALERT_WEBHOOK_URL=http://localhost:9090/alerts ALERT_WEBHOOK_SECRET=s3cret npm start
+
+const http = require("http");
+const crypto = require("crypto");
+const { signBody } = require("../alerts/webhook");
+
+const PORT = Number(process.env.WEBHOOK_PORT) || 9090;
+const SECRET = process.env.WEBHOOK_SECRET || "";
+
+const verify = (signature, body) => {
+  if (!SECRET) return "not checked";
+  const expected = signBody(SECRET, body);
+  const valid = typeof signature === "string" && signature.length === expected.length
+    && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+  return valid ? "valid" : "INVALID";
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method !== "POST") {
+    res.writeHead(405).end();
+    return;
+  }
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const signature = verify(req.headers["x-alert-signature"], body);
+    try {
+      const { event, alert } = JSON.parse(body);
+      console.log(`[${new Date().toISOString()}] ${event} ${alert.severity} "${alert.ruleName}": ${alert.message} (signature ${signature})`);
+    } catch (err) {
+      console.log(`[${new Date().toISOString()}] unparseable body (${err.message}): ${body.slice(0, 200)}`);
+    }
+    res.writeHead(signature === "INVALID" ? 401 : 204).end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Webhook receiver listening on http://localhost:${PORT}`);
+});
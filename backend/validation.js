@@ -0,0 +1,160 @@
+// Runtime validation of model output against shared/trafficSchema.json.
+// The same schema is re-checked in the browser by services/validationService.ts.
+//
+// Supported keywords: type, properties, required, items, enum, minimum, maximum,
+// minItems, maxItems and local $ref ("#/definitions/Name").
+
+const trafficSchema = require("../shared/trafficSchema.json");
+
+const definitions = trafficSchema.definitions;
+
+const deref = (schema) => {
+  if (schema && schema.$ref) {
+    const name = schema.$ref.replace("#/definitions/", "");
+    const target = definitions[name];
+    if (!target) throw new Error(`Unknown schema reference ${schema.$ref}`);
+    return target;
+  }
+  return schema;
+};
+
+// Schema with every $ref expanded, for providers that want a self-contained schema
+const inlineSchema = (schema) => {
+  const resolved = deref(schema);
+  if (Array.isArray(resolved)) return resolved.map(inlineSchema);
+  if (!resolved || typeof resolved !== "object") return resolved;
+  const out = {};
+  for (const [key, value] of Object.entries(resolved)) {
+    out[key] = value && typeof value === "object" ? inlineSchema(value) : value;
+  }
+  return out;
+};
+
+const getSchema = (name) => inlineSchema({ $ref: `#/definitions/${name}` });
+
+// A definition name, or a schema given inline (which may $ref the shared definitions)
+const resolveSchema = (schema) => (typeof schema === "string" ? getSchema(schema) : inlineSchema(schema));
+
+const typeOf = (value) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number" && Number.isInteger(value)) return "integer";
+  return typeof value;
+};
+
+const matchesType = (expected, value) => {
+  const actual = typeOf(value);
+  if (expected === "number") return actual === "number" || actual === "integer";
+  return actual === expected;
+};
+
+const validate = (schema, value, path = "$", issues = []) => {
+  const s = deref(schema);
+
+  if (s.type && !matchesType(s.type, value)) {
+    issues.push(`${path}: expected ${s.type}, got ${typeOf(value)}`);
+    return issues;
+  }
+  if (s.enum && !s.enum.includes(value)) {
+    issues.push(`${path}: ${JSON.stringify(value)} is not one of ${s.enum.join(", ")}`);
+  }
+  if (typeof value === "number") {
+    if (s.minimum !== undefined && value < s.minimum) issues.push(`${path}: ${value} is below minimum ${s.minimum}`);
+    if (s.maximum !== undefined && value > s.maximum) issues.push(`${path}: ${value} is above maximum ${s.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) issues.push(`${path}: expected at least ${s.minItems} items`);
+    if (s.maxItems !== undefined && value.length > s.maxItems) issues.push(`${path}: expected at most ${s.maxItems} items`);
+    if (s.items) value.forEach((item, i) => validate(s.items, item, `${path}[${i}]`, issues));
+  }
+  if (s.type === "object" && value && typeof value === "object") {
+    (s.required || []).forEach((key) => {
+      if (value[key] === undefined) issues.push(`${path}.${key}: is required`);
+    });
+    Object.entries(s.properties || {}).forEach(([key, propSchema]) => {
+      if (value[key] !== undefined) validate(propSchema, value[key], `${path}.${key}`, issues);
+    });
+  }
+  return issues;
+};
+
+// --- Repair ---------------------------------------------------------------
+
+// Recovers a JSON object from typical LLM wrapping: code fences, prose around
+// the object, trailing commas.
+const parseModelJson = (text) => {
+  if (typeof text !== "string" || !text.trim()) throw new Error("empty response");
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    let candidate = text.replace(/```(?:json)?/gi, "");
+    const start = candidate.indexOf("{");
+    const end = candidate.lastIndexOf("}");
+    if (start === -1 || end <= start) throw new Error("no JSON object found in response");
+    candidate = candidate.slice(start, end + 1).replace(/,\s*([}\]])/g, "$1");
+    return JSON.parse(candidate);
+  }
+};
+
+const clamp = (n, s) => {
+  if (s.minimum !== undefined && n < s.minimum) return s.minimum;
+  if (s.maximum !== undefined && n > s.maximum) return s.maximum;
+  return n;
+};
+
+// "45 km/h" -> 45; a string with no number in it ("unknown", "n/a") is not a zero
+const parseNumeric = (value) => {
+  const stripped = value.replace(/[^0-9.eE+-]/g, "");
+  const n = stripped === "" ? NaN : Number(stripped);
+  return Number.isFinite(n) ? n : value;
+};
+
+// Best-effort coercion of near-miss values (numeric strings, enum casing,
+// out-of-range numbers, missing arrays). Anything it cannot fix is left for
+// validate() to report.
+const coerce = (schema, value) => {
+  const s = deref(schema);
+
+  if (s.type === "number" || s.type === "integer") {
+    let n = typeof value === "string" ? parseNumeric(value) : value;
+    if (typeof n !== "number" || !Number.isFinite(n)) return value;
+    if (s.type === "integer") n = Math.round(n);
+    return clamp(n, s);
+  }
+
+  if (s.type === "string") {
+    if (typeof value === "number" || typeof value === "boolean") value = String(value);
+    if (s.enum && typeof value === "string" && !s.enum.includes(value)) {
+      const match = s.enum.find((option) => option.toLowerCase() === value.trim().toLowerCase());
+      if (match) return match;
+      if (s.enum.includes("Other")) return "Other";
+      if (s.enum.includes("other")) return "other";
+    }
+    return value;
+  }
+
+  if (s.type === "array") {
+    if (value === undefined || value === null) return [];
+    if (!Array.isArray(value)) return value;
+    return s.items ? value.map((item) => coerce(s.items, item)) : value;
+  }
+
+  if (s.type === "object" && value && typeof value === "object" && !Array.isArray(value)) {
+    const out = { ...value };
+    Object.entries(s.properties || {}).forEach(([key, propSchema]) => {
+      const prop = deref(propSchema);
+      if (out[key] === undefined || out[key] === null) {
+        // Missing required arrays default to empty; other fields stay missing
+        if (prop.type === "array" && (s.required || []).includes(key)) out[key] = [];
+        else delete out[key];
+        return;
+      }
+      out[key] = coerce(prop, out[key]);
+    });
+    return out;
+  }
+
+  return value;
+};
+
+module.exports = { getSchema, resolveSchema, validate, coerce, parseModelJson };
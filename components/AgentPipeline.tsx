@@ -1,83 +1,169 @@
-import React from 'react';
-import { AgentStatus } from '../types';
-import { Camera, Activity, FileText, CheckCircle2, Loader2 } from 'lucide-react';
+import React, { useState } from 'react';
+import { AgentDefinition, AgentRunState, AgentStage, AgentStatus, PipelineDefinition } from '../types';
+import { AgentProgress, DEFAULT_PIPELINE, agentRunState, pipelineLevels } from '../services/pipelineService';
+import { Camera, Activity, FileText, Bot, CheckCircle2, Loader2, X, XCircle, MinusCircle } from 'lucide-react';
 
 interface AgentPipelineProps {
   status: AgentStatus;
+  definition?: PipelineDefinition; // The backend's agents; defaults to the stock three
+  progress?: AgentProgress; // Pushed per-agent progress of the running analysis
+  compact?: boolean; // One-line strip, e.g. for camera grid tiles
+  stages?: AgentStage[]; // Backend stage records; completed steps show their timing and can be inspected
+  promptRevision?: number; // Prompt templates the analysis ran under
 }
 
-const PipelineStep = ({ 
-  active, 
-  completed, 
-  icon: Icon, 
-  label, 
-  subtext 
-}: { 
-  active: boolean; 
-  completed: boolean; 
-  icon: React.ElementType; 
-  label: string; 
-  subtext: string; 
-}) => {
+const formatDuration = (ms: number) => (ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`);
+const formatCost = (usd: number) => `$${usd < 0.01 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const stageSummary = (stage: AgentStage) => [
+  formatDuration(stage.durationMs),
+  `${stage.usage.totalTokens.toLocaleString()} tok`,
+  ...(stage.costUsd !== undefined ? [formatCost(stage.costUsd)] : []),
+  ...(stage.attempts > 1 ? [`${stage.attempts} attempts`] : []),
+].join(' · ');
+
+// Built-in agents get their own icon; agents added through the definition share one
+const AGENT_ICONS: Record<string, React.ElementType> = { vision: Camera, analysis: Activity, report: FileText };
+
+const PipelineStep: React.FC<{
+  agent: AgentDefinition;
+  label: string;
+  state: AgentRunState;
+  stage?: AgentStage;
+  selected: boolean;
+  onInspect: () => void;
+}> = ({ agent, label, state, stage, selected, onInspect }) => {
+  const Icon = AGENT_ICONS[agent.id] || Bot;
+  const active = state === 'running';
   return (
-    <div className={`flex flex-col items-center p-4 rounded-xl border transition-all duration-500 ${
-      active 
-        ? 'border-cyan-500 bg-cyan-950/30 shadow-[0_0_15px_rgba(6,182,212,0.3)] scale-105' 
-        : completed 
-          ? 'border-green-500/50 bg-green-950/20 text-green-400' 
-          : 'border-slate-700 bg-slate-800/50 text-slate-500'
-    }`}>
+    <div
+      onClick={stage ? onInspect : undefined}
+      title={stage ? 'Inspect this agent\'s output' : undefined}
+      className={`flex flex-col items-center p-4 rounded-xl border transition-all duration-500 ${stage ? 'cursor-pointer hover:border-green-400' : ''} ${selected ? 'ring-2 ring-cyan-500/60' : ''} ${
+      active
+        ? 'border-cyan-500 bg-cyan-950/30 shadow-[0_0_15px_rgba(6,182,212,0.3)] scale-105'
+        : state === 'completed'
+          ? 'border-green-500/50 bg-green-950/20 text-green-400'
+          : state === 'failed'
+            ? 'border-red-500/50 bg-red-950/20 text-red-400'
+            : 'border-slate-700 bg-slate-800/50 text-slate-500'
+    } ${state === 'skipped' ? 'opacity-50' : ''}`}>
       <div className={`mb-3 p-3 rounded-full ${
-        active ? 'bg-cyan-500 text-black animate-pulse' : completed ? 'bg-green-500 text-black' : 'bg-slate-700'
+        active ? 'bg-cyan-500 text-black animate-pulse' : state === 'completed' ? 'bg-green-500 text-black' : state === 'failed' ? 'bg-red-500 text-black' : 'bg-slate-700'
       }`}>
-        {active ? <Loader2 className="w-6 h-6 animate-spin" /> : completed ? <CheckCircle2 className="w-6 h-6" /> : <Icon className="w-6 h-6" />}
+        {active ? <Loader2 className="w-6 h-6 animate-spin" />
+          : state === 'completed' ? <CheckCircle2 className="w-6 h-6" />
+          : state === 'failed' ? <XCircle className="w-6 h-6" />
+          : state === 'skipped' ? <MinusCircle className="w-6 h-6" />
+          : <Icon className="w-6 h-6" />}
       </div>
       <h3 className={`font-bold text-sm mb-1 ${active ? 'text-cyan-400' : ''}`}>{label}</h3>
-      <p className="text-xs opacity-70 text-center max-w-[120px]">{subtext}</p>
+      <p className="text-xs opacity-70 text-center max-w-[120px]">{agent.description}</p>
+      {agent.optional && <p className="text-[10px] uppercase tracking-wider opacity-60 mt-1">{state === 'skipped' ? 'Skipped' : 'Optional'}</p>}
+      {stage && <p className="text-[11px] font-mono text-slate-400 mt-2">{stageSummary(stage)}</p>}
     </div>
   );
 };
 
-export const AgentPipeline: React.FC<AgentPipelineProps> = ({ status }) => {
-  const isVision = status === AgentStatus.VISION_SCANNING;
-  const isAnalysis = status === AgentStatus.DATA_ANALYSIS;
-  const isReport = status === AgentStatus.REPORT_GENERATION;
-  const isComplete = status === AgentStatus.COMPLETE;
+const CompactStep: React.FC<{ state: AgentRunState; label: string; stage?: AgentStage }> = ({ state, label, stage }) => (
+  <span title={stage ? (stage.error || stageSummary(stage)) : state === 'skipped' ? 'Skipped' : undefined} className={`flex items-center gap-1 px-1.5 py-0.5 rounded border text-[10px] ${
+    state === 'running' ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40'
+      : state === 'completed' ? 'border-green-700/60 text-green-400'
+      : state === 'failed' ? 'border-red-700/60 text-red-400'
+      : 'border-slate-700 text-slate-500'
+  } ${state === 'skipped' ? 'line-through opacity-60' : ''}`}>
+    {state === 'running' ? <Loader2 className="w-2.5 h-2.5 animate-spin" /> : state === 'completed' ? <CheckCircle2 className="w-2.5 h-2.5" /> : state === 'failed' ? <XCircle className="w-2.5 h-2.5" /> : null}
+    {label}
+    {stage && !stage.error && <span className="font-mono opacity-70">{formatDuration(stage.durationMs)}</span>}
+  </span>
+);
+
+const StageInspector = ({ stage, label, onClose }: { stage: AgentStage; label: string; onClose: () => void }) => (
+  <div className="mt-6 max-w-3xl mx-auto bg-slate-900 border border-slate-700 rounded-xl overflow-hidden animate-fadeIn">
+    <div className="flex items-center gap-3 px-4 py-2 border-b border-slate-700 text-xs text-slate-400">
+      <span className="text-sm font-semibold text-slate-200">{label} output</span>
+      <span className="font-mono">{stage.model}</span>
+      {stage.promptVersion !== undefined && <span className="font-mono">prompt v{stage.promptVersion}</span>}
+      <span className="font-mono">{stage.usage.inputTokens.toLocaleString()} in / {stage.usage.outputTokens.toLocaleString()} out</span>
+      <span className="font-mono">{stageSummary(stage)}</span>
+      <button onClick={onClose} className="ml-auto text-slate-500 hover:text-white"><X className="w-4 h-4" /></button>
+    </div>
+    {stage.error ? (
+      <p className="p-4 text-xs text-red-400">{stage.error}</p>
+    ) : (
+      <pre className="p-4 text-xs font-mono text-slate-300 max-h-80 overflow-auto whitespace-pre-wrap">{JSON.stringify(stage.output, null, 2)}</pre>
+    )}
+  </div>
+);
+
+export const AgentPipeline: React.FC<AgentPipelineProps> = ({ status, definition = DEFAULT_PIPELINE, progress = {}, compact = false, stages = [], promptRevision }) => {
+  const [inspected, setInspected] = useState<string | null>(null);
+  const enabled = definition.agents.filter(agent => agent.enabled);
+  const disabled = definition.agents.filter(agent => !agent.enabled);
+
+  const stageOf = (agent: string) => stages.find(stage => stage.agent === agent);
+  const stateOf = (agent: AgentDefinition) => agentRunState(agent, status, progress, stages);
+  const toggle = (agent: string) => setInspected(current => (current === agent ? null : agent));
+  const inspectedStage = inspected ? stageOf(inspected) : undefined;
+  const inspectedLabel = definition.agents.find(agent => agent.id === inspected)?.label || inspected || '';
+  // Agents run side by side, so the wall-clock span rather than the sum of their durations
+  const totalMs = stages.length > 0
+    ? Math.max(...stages.map(stage => stage.startedAt + stage.durationMs)) - Math.min(...stages.map(stage => stage.startedAt))
+    : 0;
+  const totalTokens = stages.reduce((sum, stage) => sum + stage.usage.totalTokens, 0);
+  const priced = stages.every(stage => stage.costUsd !== undefined);
+  const totalCost = stages.reduce((sum, stage) => sum + (stage.costUsd || 0), 0);
 
-  const visionDone = isAnalysis || isReport || isComplete;
-  const analysisDone = isReport || isComplete;
-  const reportDone = isComplete;
+  if (compact) {
+    return (
+      <div className="flex items-center gap-1 flex-wrap">
+        {enabled.map(agent => (
+          <CompactStep key={agent.id} state={stateOf(agent)} label={agent.label} stage={stageOf(agent.id)} />
+        ))}
+      </div>
+    );
+  }
 
   return (
     <div className="w-full py-8">
       <div className="flex flex-col md:flex-row justify-center items-center gap-4 md:gap-8 relative">
         {/* Connecting Lines (Desktop) */}
         <div className="hidden md:block absolute top-1/2 left-0 w-full h-0.5 bg-slate-800 -z-10" />
-        
-        <PipelineStep 
-          active={isVision} 
-          completed={visionDone} 
-          icon={Camera} 
-          label="Agent 1: Vision" 
-          subtext="Object detection & classification" 
-        />
-        
-        <PipelineStep 
-          active={isAnalysis} 
-          completed={analysisDone} 
-          icon={Activity} 
-          label="Agent 2: Analysis" 
-          subtext="Congestion & risk calculation" 
-        />
-        
-        <PipelineStep 
-          active={isReport} 
-          completed={reportDone} 
-          icon={FileText} 
-          label="Agent 3: Reporting" 
-          subtext="Summary & strategic output" 
-        />
+
+        {/* One column per level of the DAG; agents in a column run side by side */}
+        {pipelineLevels(definition).map((level, i) => (
+          <div key={i} className="flex flex-col gap-4">
+            {level.map(agent => (
+              <PipelineStep
+                key={agent.id}
+                agent={agent}
+                label={`Agent ${enabled.indexOf(agent) + 1}: ${agent.label}`}
+                state={stateOf(agent)}
+                stage={stageOf(agent.id)}
+                selected={inspected === agent.id}
+                onInspect={() => toggle(agent.id)}
+              />
+            ))}
+          </div>
+        ))}
       </div>
+
+      {disabled.length > 0 && (
+        <p className="mt-4 text-center text-xs text-slate-600">
+          Disabled: {disabled.map(agent => agent.label).join(', ')}
+        </p>
+      )}
+      {stages.length > 0 && (
+        <p className="mt-4 text-center text-xs font-mono text-slate-500">
+          {formatDuration(totalMs)} across {stages.length} agents · {totalTokens.toLocaleString()} tokens
+          {priced && ` · ${formatCost(totalCost)}`}
+          {` · ${stages[0].model}`}
+          {promptRevision !== undefined && ` · prompts rev ${promptRevision}`}
+        </p>
+      )}
+      {inspected && inspectedStage && (
+        <StageInspector stage={inspectedStage} label={inspectedLabel} onClose={() => setInspected(null)} />
+      )}
     </div>
   );
 };
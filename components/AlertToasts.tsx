@@ -0,0 +1,43 @@
+import React, { useEffect } from 'react';
+import { BellRing, X } from 'lucide-react';
+import { Alert } from '../types';
+
+interface AlertToastsProps {
+  alerts: Alert[];
+  onDismiss: (id: string) => void;
+}
+
+const TOAST_DURATION_MS = 8000;
+
+const SEVERITY_STYLES: Record<Alert['severity'], string> = {
+  High: 'border-red-700 bg-red-950/90 text-red-100',
+  Medium: 'border-amber-700 bg-amber-950/90 text-amber-100',
+  Low: 'border-slate-600 bg-slate-900/95 text-slate-200',
+};
+
+const Toast: React.FC<{ alert: Alert; onDismiss: (id: string) => void }> = ({ alert, onDismiss }) => {
+  useEffect(() => {
+    const timer = setTimeout(() => onDismiss(alert.id), TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [alert.id]);
+
+  return (
+    <div className={`pointer-events-auto w-80 rounded-lg border shadow-2xl backdrop-blur p-3 flex gap-3 animate-fadeIn ${SEVERITY_STYLES[alert.severity]}`}>
+      <BellRing className="w-4 h-4 mt-0.5 shrink-0" />
+      <div className="min-w-0 flex-1">
+        <div className="text-sm font-semibold">{alert.ruleName}</div>
+        <div className="text-xs opacity-80 break-words">{alert.message}</div>
+        <div className="text-[10px] opacity-60 mt-1">{new Date(alert.timestamp).toLocaleTimeString()}</div>
+      </div>
+      <button onClick={() => onDismiss(alert.id)} className="opacity-60 hover:opacity-100 self-start">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
+
+export const AlertToasts: React.FC<AlertToastsProps> = ({ alerts, onDismiss }) => (
+  <div className="fixed bottom-4 right-4 z-[70] flex flex-col gap-2 pointer-events-none">
+    {alerts.map(alert => <Toast key={alert.id} alert={alert} onDismiss={onDismiss} />)}
+  </div>
+);
@@ -0,0 +1,265 @@
+import React, { useEffect, useState } from 'react';
+import { Bell, X, Save, Plus, Trash2, Send, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { AlertChannels, AlertCondition, AlertMetric, AlertRule, Severity, TrafficAnalysis, Violation } from '../types';
+import { ALERT_METRICS, AlertSettings, describeCondition, notificationPermission, requestNotificationPermission, validateAlertRule } from '../services/alertService';
+import { WebhookDelivery, getWebhookConfig, saveWebhookConfig, testWebhook } from '../services/alertApi';
+
+interface AlertsPanelProps {
+  settings: AlertSettings;
+  backendOnline: boolean; // The webhook is configured on, and sent from, the backend
+  onSave: (settings: AlertSettings) => void;
+  onClose: () => void;
+}
+
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High'];
+const FLOW_STATUSES: TrafficAnalysis['trafficFlowStatus'][] = ['Free Flow', 'Moderate', 'Heavy', 'Gridlock'];
+const VIOLATION_TYPES: Violation['type'][] = ['Red Light', 'Jaywalking', 'Wrong Lane', 'Speeding', 'Other'];
+
+const CHANNEL_LABELS: Record<keyof AlertChannels, string> = {
+  toast: 'In-app toasts',
+  notification: 'Browser notifications',
+  webhook: 'Backend webhook',
+};
+
+const DEFAULT_CONDITIONS: Record<AlertCondition['kind'], AlertCondition> = {
+  metric: { kind: 'metric', metric: 'congestionLevel', operator: '>', threshold: 80, frames: 3 },
+  flowStatus: { kind: 'flowStatus', status: 'Gridlock' },
+  violation: { kind: 'violation', minSeverity: 'High' },
+};
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+
+const ConditionEditor = ({ condition, onChange }: { condition: AlertCondition, onChange: (condition: AlertCondition) => void }) => {
+  switch (condition.kind) {
+    case 'metric':
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <select value={condition.metric} onChange={e => onChange({ ...condition, metric: e.target.value as AlertMetric })} className={inputClass}>
+            {(Object.keys(ALERT_METRICS) as AlertMetric[]).map(m => <option key={m} value={m}>{ALERT_METRICS[m].label}</option>)}
+          </select>
+          <select value={condition.operator} onChange={e => onChange({ ...condition, operator: e.target.value as '>' | '<' })} className={inputClass}>
+            <option value=">">&gt;</option>
+            <option value="<">&lt;</option>
+          </select>
+          <input type="number" value={condition.threshold} onChange={e => onChange({ ...condition, threshold: Number(e.target.value) })} className={`${inputClass} w-20 font-mono`} />
+          <span className="text-xs text-slate-500">for</span>
+          <input type="number" min={1} value={condition.frames} onChange={e => onChange({ ...condition, frames: Number(e.target.value) })} className={`${inputClass} w-16 font-mono`} />
+          <span className="text-xs text-slate-500">frames</span>
+        </div>
+      );
+    case 'flowStatus':
+      return (
+        <select value={condition.status} onChange={e => onChange({ ...condition, status: e.target.value as TrafficAnalysis['trafficFlowStatus'] })} className={inputClass}>
+          {FLOW_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+      );
+    case 'violation':
+      return (
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={condition.violationType || ''}
+            onChange={e => onChange({ ...condition, violationType: (e.target.value || undefined) as Violation['type'] | undefined })}
+            className={inputClass}
+          >
+            <option value="">Any type</option>
+            {VIOLATION_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+          <span className="text-xs text-slate-500">at least</span>
+          <select value={condition.minSeverity} onChange={e => onChange({ ...condition, minSeverity: e.target.value as Severity })} className={inputClass}>
+            {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+          </select>
+        </div>
+      );
+  }
+};
+
+const WebhookSection = () => {
+  const [url, setUrl] = useState('');
+  const [secret, setSecret] = useState('');
+  const [hasSecret, setHasSecret] = useState(false);
+  const [status, setStatus] = useState<{ busy: boolean; message?: string; ok?: boolean }>({ busy: true });
+
+  useEffect(() => {
+    getWebhookConfig()
+      .then(config => {
+        setUrl(config.url);
+        setHasSecret(config.hasSecret);
+        setStatus({ busy: false });
+      })
+      .catch(e => setStatus({ busy: false, ok: false, message: (e as Error).message }));
+  }, []);
+
+  const describeDelivery = (d: WebhookDelivery) =>
+    d.delivered ? `Delivered (HTTP ${d.status}, ${d.latencyMs} ms)` : `Not delivered: ${d.error || `HTTP ${d.status}`}`;
+
+  // Runs a backend call and reports its outcome next to the buttons
+  const run = async (action: () => Promise<{ ok: boolean; message: string }>) => {
+    setStatus({ busy: true });
+    try {
+      setStatus({ busy: false, ...(await action()) });
+    } catch (e) {
+      setStatus({ busy: false, ok: false, message: (e as Error).message });
+    }
+  };
+
+  const save = () => run(async () => {
+    const config = await saveWebhookConfig(url.trim(), secret || undefined);
+    setHasSecret(config.hasSecret);
+    setSecret('');
+    return { ok: true, message: config.url ? 'Webhook saved.' : 'Webhook disabled.' };
+  });
+
+  const test = () => run(async () => {
+    const delivery = await testWebhook();
+    return { ok: delivery.delivered, message: describeDelivery(delivery) };
+  });
+
+  return (
+    <div className="space-y-2">
+      <input type="url" value={url} placeholder="http://localhost:9090/alerts" onChange={e => setUrl(e.target.value)} className={`${inputClass} w-full font-mono text-xs`} />
+      <input
+        type="password"
+        value={secret}
+        placeholder={hasSecret ? 'Signing secret (unchanged)' : 'Signing secret (optional)'}
+        onChange={e => setSecret(e.target.value)}
+        className={`${inputClass} w-full font-mono text-xs`}
+      />
+      <div className="flex items-center gap-2">
+        <button onClick={save} disabled={status.busy} className="px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-50">
+          Save webhook
+        </button>
+        <button onClick={test} disabled={status.busy || !url} className="px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:bg-slate-800 flex items-center gap-1 disabled:opacity-50">
+          <Send className="w-3 h-3" /> Send test
+        </button>
+        {status.busy && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+        {status.message && (
+          <span className={`text-xs flex items-center gap-1 ${status.ok ? 'text-green-400' : 'text-red-400'}`}>
+            {status.ok ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />} {status.message}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const AlertsPanel: React.FC<AlertsPanelProps> = ({ settings, backendOnline, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AlertSettings>(settings);
+  const [permission, setPermission] = useState(notificationPermission);
+  const error = draft.rules.map(validateAlertRule).find(Boolean) || null;
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) =>
+    setDraft({ ...draft, rules: draft.rules.map(r => (r.id === id ? { ...r, ...patch } : r)) });
+
+  const addRule = () => setDraft({
+    ...draft,
+    rules: [...draft.rules, { id: crypto.randomUUID(), name: 'New rule', enabled: true, condition: DEFAULT_CONDITIONS.metric, severity: 'Medium', cooldownSeconds: 300 }],
+  });
+
+  const enableNotifications = async () => setPermission(await requestNotificationPermission());
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="w-full max-w-2xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Bell className="w-5 h-5 text-cyan-400" /> Alerts
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <section className="space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Delivery</p>
+            <div className="flex flex-wrap gap-4">
+              {(Object.keys(CHANNEL_LABELS) as (keyof AlertChannels)[]).map(channel => (
+                <label key={channel} className="flex items-center gap-2 text-sm text-slate-300">
+                  <input
+                    type="checkbox"
+                    checked={draft.channels[channel]}
+                    onChange={e => setDraft({ ...draft, channels: { ...draft.channels, [channel]: e.target.checked } })}
+                    className="accent-cyan-500"
+                  />
+                  {CHANNEL_LABELS[channel]}
+                </label>
+              ))}
+            </div>
+            {draft.channels.notification && permission !== 'granted' && (
+              <div className="text-xs text-amber-300 flex items-center gap-2">
+                {permission === 'unsupported' ? 'This browser does not support notifications.'
+                  : permission === 'denied' ? 'Notifications are blocked for this site in the browser settings.'
+                  : <>Notifications need your permission. <button onClick={enableNotifications} className="underline hover:text-amber-200">Allow</button></>}
+              </div>
+            )}
+            {draft.channels.webhook && (
+              backendOnline ? <WebhookSection /> : <p className="text-xs text-slate-500">The webhook is configured on the backend, which is offline.</p>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Rules</p>
+            {draft.rules.map(rule => (
+              <div key={rule.id} className={`p-3 rounded-lg border space-y-2 ${rule.enabled ? 'border-slate-700' : 'border-slate-800 opacity-60'}`}>
+                <div className="flex items-center gap-2">
+                  <input type="checkbox" checked={rule.enabled} onChange={e => updateRule(rule.id, { enabled: e.target.checked })} className="accent-cyan-500" />
+                  <input value={rule.name} onChange={e => updateRule(rule.id, { name: e.target.value })} className={`${inputClass} flex-1`} />
+                  <button onClick={() => setDraft({ ...draft, rules: draft.rules.filter(r => r.id !== rule.id) })} className="text-slate-500 hover:text-red-400 p-1">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <select
+                    value={rule.condition.kind}
+                    onChange={e => updateRule(rule.id, { condition: DEFAULT_CONDITIONS[e.target.value as AlertCondition['kind']] })}
+                    className={inputClass}
+                  >
+                    <option value="metric">Metric threshold</option>
+                    <option value="flowStatus">Flow status</option>
+                    <option value="violation">Violation</option>
+                  </select>
+                  <ConditionEditor condition={rule.condition} onChange={condition => updateRule(rule.id, { condition })} />
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                  {rule.condition.kind !== 'violation' && (
+                    <>
+                      Severity
+                      <select value={rule.severity} onChange={e => updateRule(rule.id, { severity: e.target.value as Severity })} className={inputClass}>
+                        {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+                      </select>
+                    </>
+                  )}
+                  Cooldown
+                  <input
+                    type="number"
+                    min={0}
+                    value={rule.cooldownSeconds}
+                    onChange={e => updateRule(rule.id, { cooldownSeconds: Number(e.target.value) })}
+                    className={`${inputClass} w-20 font-mono`}
+                  />
+                  s per source
+                  <span className="ml-auto text-slate-600">{describeCondition(rule.condition)}</span>
+                </div>
+              </div>
+            ))}
+            <button onClick={addRule} className="px-3 py-1.5 rounded-lg text-xs border border-dashed border-slate-700 text-slate-400 hover:text-white flex items-center gap-1">
+              <Plus className="w-3 h-3" /> Add rule
+            </button>
+          </section>
+
+          {error && <div className="text-xs p-3 rounded-lg border border-red-900/50 bg-red-950/20 text-red-300">{error}</div>}
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t border-slate-800">
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!!error}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,153 @@
+import React, { useState } from 'react';
+import { Ruler, X, Save, RotateCcw, Trash2 } from 'lucide-react';
+import { CameraCalibration } from '../types';
+import { createCalibration } from '../services/calibrationService';
+
+interface CalibrationPanelProps {
+  frameUrl: string;
+  sourceLabel: string;
+  calibration: CameraCalibration | null;
+  onSave: (calibration: CameraCalibration | null) => void;
+  onClose: () => void;
+}
+
+type Point = [number, number];
+
+// A 3.5 m lane, 20 m long: a common reference when only lane markings are known
+const DEFAULT_WORLD_POINTS: Point[] = [[0, 0], [3.5, 0], [3.5, 20], [0, 20]];
+const POINT_COLORS = ['#22d3ee', '#a3e635', '#f59e0b', '#f472b6'];
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ frameUrl, sourceLabel, calibration, onSave, onClose }) => {
+  const [imagePoints, setImagePoints] = useState<Point[]>(calibration?.imagePoints || []);
+  const [worldPoints, setWorldPoints] = useState<Point[]>(calibration?.worldPoints || DEFAULT_WORLD_POINTS);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFrameClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (imagePoints.length >= 4) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point: Point = [(e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height];
+    setImagePoints([...imagePoints, point]);
+    setError(null);
+  };
+
+  const updateWorldPoint = (index: number, axis: 0 | 1, value: string) => {
+    const next = worldPoints.map(p => [...p] as Point);
+    next[index][axis] = Number(value);
+    setWorldPoints(next);
+    setError(null);
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(createCalibration(imagePoints, worldPoints));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="w-full max-w-5xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div>
+            <h3 className="font-bold text-white flex items-center gap-2">
+              <Ruler className="w-5 h-5 text-cyan-400" /> Camera Calibration
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{sourceLabel}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="lg:col-span-2">
+            <p className="text-xs text-slate-400 mb-2">
+              Click four points on the road surface, in order around a rectangle whose real size you know (e.g. lane markings).
+              {imagePoints.length < 4 && <span className="text-cyan-400"> Point {imagePoints.length + 1} of 4.</span>}
+            </p>
+            <div
+              className={`relative rounded-lg overflow-hidden ring-1 ring-slate-700 ${imagePoints.length < 4 ? 'cursor-crosshair' : ''}`}
+              onClick={handleFrameClick}
+            >
+              <img src={frameUrl} alt="Calibration frame" className="w-full h-auto block select-none" draggable={false} />
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                {imagePoints.length > 1 && (
+                  <polygon
+                    points={imagePoints.map(([x, y]) => `${x},${y}`).join(' ')}
+                    fill={imagePoints.length === 4 ? 'rgba(34,211,238,0.15)' : 'none'}
+                    stroke="#22d3ee"
+                    strokeWidth={0.003}
+                  />
+                )}
+              </svg>
+              {imagePoints.map(([x, y], i) => (
+                <div
+                  key={i}
+                  className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full border-2 border-white text-[10px] font-bold text-black flex items-center justify-center pointer-events-none"
+                  style={{ left: `${x * 100}%`, top: `${y * 100}%`, backgroundColor: POINT_COLORS[i] }}
+                >
+                  {i + 1}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-4">
+            <div>
+              <p className="text-xs text-slate-500 uppercase tracking-wider mb-2">Ground Coordinates (metres)</p>
+              <div className="space-y-2">
+                {worldPoints.map(([wx, wy], i) => (
+                  <div key={i} className="flex items-center gap-2">
+                    <span className="w-5 h-5 rounded-full text-[10px] font-bold text-black flex items-center justify-center shrink-0" style={{ backgroundColor: POINT_COLORS[i] }}>{i + 1}</span>
+                    <input
+                      type="number" step="0.1" value={wx}
+                      onChange={e => updateWorldPoint(i, 0, e.target.value)}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-cyan-500"
+                    />
+                    <input
+                      type="number" step="0.1" value={wy}
+                      onChange={e => updateWorldPoint(i, 1, e.target.value)}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-cyan-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-[10px] text-slate-500 mt-2">X across the road, Y along it. Defaults describe one 3.5 m × 20 m lane section.</p>
+            </div>
+
+            {error && <div className="text-xs p-3 rounded-lg border border-red-900/50 bg-red-950/20 text-red-300">{error}</div>}
+
+            {calibration && (
+              <p className="text-[10px] text-slate-500">Last calibrated {new Date(calibration.updatedAt).toLocaleString()}</p>
+            )}
+
+            <div className="flex flex-wrap gap-2 pt-2">
+              <button
+                onClick={() => { setImagePoints([]); setError(null); }}
+                className="px-3 py-2 rounded-lg text-slate-300 border border-slate-700 hover:bg-slate-800 text-xs flex items-center gap-1"
+              >
+                <RotateCcw className="w-3 h-3" /> Reset Points
+              </button>
+              {calibration && (
+                <button
+                  onClick={() => onSave(null)}
+                  className="px-3 py-2 rounded-lg text-red-300 border border-red-900/50 hover:bg-red-950/30 text-xs flex items-center gap-1"
+                >
+                  <Trash2 className="w-3 h-3" /> Remove
+                </button>
+              )}
+              <button
+                onClick={handleSave}
+                disabled={imagePoints.length !== 4}
+                className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-xs font-bold flex items-center gap-1 disabled:opacity-50 ml-auto"
+              >
+                <Save className="w-3 h-3" /> Save Calibration
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,548 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Car, Users, Ban, ExternalLink, Search, ChevronLeft, ChevronRight, Loader2, Server, HardDrive, ArrowUp, ArrowDown, ArrowUpDown, Trash2, X, Download, Upload, ImageOff, FileText } from 'lucide-react';
+import { HistoryItem, Severity, TrafficAnalysis, Violation } from '../types';
+import {
+  HistoryFacet, HistoryFacets, HistoryQuery, HistorySort, HistorySortField,
+  HISTORY_RETENTION, deleteHistoryItems, importHistoryItems, onHistoryChange, queryHistory,
+} from '../services/historyStore';
+import { deleteServerAnalyses, importServerAnalysis, queryServerHistory } from '../services/analysisApi';
+import {
+  ExportFormat, analysesToCsv, detailsToCsv, downloadText, parseImport, toGeoJson, toNdjson,
+} from '../services/exportService';
+import { describeSource } from '../services/sourceSettingsStore';
+import { generateIncidentReport } from '../services/reportService';
+
+interface HistoryBrowserProps {
+  serverAvailable: boolean; // Read from the backend analysis database instead of this browser
+  onLoadHistoryItem: (item: HistoryItem) => void;
+}
+
+const PAGE_SIZE = 25;
+const EXPORT_PAGE_SIZE = 200; // The backend's maximum page size
+const VIOLATION_TYPES: Violation['type'][] = ['Red Light', 'Jaywalking', 'Wrong Lane', 'Speeding', 'Other'];
+const FLOW_STATUSES: TrafficAnalysis['trafficFlowStatus'][] = ['Free Flow', 'Moderate', 'Heavy', 'Gridlock'];
+const SEVERITIES: Severity[] = ['High', 'Medium', 'Low'];
+const DEFAULT_SORT: HistorySort = { field: 'timestamp', direction: 'desc' };
+
+type FacetSelection = Record<HistoryFacet, string[]>;
+const NO_FACETS: FacetSelection = { source: [], flowStatus: [], violationType: [], severity: [], model: [], promptRevision: [] };
+
+const inputClass = 'bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-xs text-slate-300 focus:outline-none focus:border-cyan-500';
+
+// <input type="date"> value (local day) -> timestamp range bound
+const dayBound = (value: string, endOfDay: boolean): number | undefined => {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (endOfDay) date.setDate(date.getDate() + 1);
+  return date.getTime() - (endOfDay ? 1 : 0);
+};
+
+interface FacetGroupProps {
+  label: string;
+  values: string[]; // Known values; others present in `counts` are appended
+  counts?: Record<string, number>;
+  selected: string[];
+  describe?: (value: string) => string;
+  onToggle: (value: string) => void;
+}
+
+const FacetGroup: React.FC<FacetGroupProps> = ({ label, values, counts = {}, selected, describe = v => v, onToggle }) => {
+  const all = [...values, ...Object.keys(counts).filter(v => !values.includes(v)).sort()];
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      <span className="text-[10px] uppercase tracking-wider text-slate-500 mr-1">{label}</span>
+      {all.map(value => {
+        const isSelected = selected.includes(value);
+        const count = counts[value] || 0;
+        return (
+          <button
+            key={value}
+            onClick={() => onToggle(value)}
+            disabled={count === 0 && !isSelected}
+            className={`px-2 py-0.5 rounded-full border text-[11px] disabled:opacity-30 ${isSelected ? 'bg-cyan-900/50 border-cyan-600 text-cyan-300' : 'border-slate-700 text-slate-400 hover:bg-slate-800'}`}
+          >
+            {describe(value)} <span className="font-mono text-slate-500">{count}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+interface SortHeaderProps {
+  label: string;
+  field: HistorySortField;
+  sort: HistorySort;
+  onSort: (sort: HistorySort) => void;
+}
+
+const SortHeader: React.FC<SortHeaderProps> = ({ label, field, sort, onSort }) => {
+  const active = sort.field === field;
+  const Icon = !active ? ArrowUpDown : sort.direction === 'asc' ? ArrowUp : ArrowDown;
+  return (
+    <th className="px-4 py-3">
+      <button
+        onClick={() => onSort({ field, direction: active && sort.direction === 'desc' ? 'asc' : 'desc' })}
+        className={`flex items-center gap-1 uppercase ${active ? 'text-cyan-300' : 'hover:text-white'}`}
+      >
+        {label} <Icon className="w-3 h-3" />
+      </button>
+    </th>
+  );
+};
+
+export const HistoryBrowser: React.FC<HistoryBrowserProps> = ({ serverAvailable, onLoadHistoryItem }) => {
+  const [useServer, setUseServer] = useState(serverAvailable);
+  const [text, setText] = useState('');
+  const [facetSelection, setFacetSelection] = useState<FacetSelection>(NO_FACETS);
+  const [sort, setSort] = useState<HistorySort>(DEFAULT_SORT);
+  const [minCongestion, setMinCongestion] = useState('');
+  const [fromDay, setFromDay] = useState('');
+  const [toDay, setToDay] = useState('');
+  const [page, setPage] = useState(0);
+
+  const [items, setItems] = useState<HistoryItem[]>([]);
+  const [total, setTotal] = useState(0);
+  const [facets, setFacets] = useState<HistoryFacets | undefined>();
+  const [selected, setSelected] = useState<Map<string, HistoryItem>>(new Map());
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [revision, setRevision] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [transfer, setTransfer] = useState<'export' | 'import' | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Follow the backend coming online or dropping out
+  useEffect(() => {
+    setUseServer(serverAvailable);
+    setPage(0);
+  }, [serverAvailable]);
+
+  // Selection, and the facet values it was made under, belong to one store
+  const switchStore = (server: boolean) => {
+    setUseServer(server);
+    setFacetSelection(NO_FACETS);
+    setSelected(new Map());
+    setPage(0);
+  };
+
+  const fromServer = useServer && serverAvailable;
+
+  // Re-query whenever history is written
+  useEffect(() => onHistoryChange(() => setRevision(r => r + 1)), []);
+
+  const query = useMemo<HistoryQuery>(() => ({
+    text: text.trim() || undefined,
+    sourceIds: facetSelection.source,
+    flowStatuses: facetSelection.flowStatus as TrafficAnalysis['trafficFlowStatus'][],
+    violationTypes: facetSelection.violationType as Violation['type'][],
+    severities: facetSelection.severity as Severity[],
+    models: facetSelection.model,
+    promptRevisions: facetSelection.promptRevision,
+    sort,
+    minCongestion: minCongestion === '' ? undefined : Number(minCongestion),
+    from: dayBound(fromDay, false),
+    to: dayBound(toDay, true),
+  }), [text, facetSelection, sort, minCongestion, fromDay, toDay]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setLoadError(null);
+    const offset = page * PAGE_SIZE;
+    (fromServer ? queryServerHistory(query, offset, PAGE_SIZE) : queryHistory(query, offset, PAGE_SIZE, true))
+      .then(result => {
+        if (cancelled) return;
+        setItems(result.items);
+        setTotal(result.total);
+        setFacets(result.facets);
+      })
+      .catch(e => {
+        console.error('History query failed', e);
+        if (cancelled) return;
+        setItems([]);
+        setTotal(0);
+        setLoadError((e as Error).message);
+      })
+      .finally(() => !cancelled && setIsLoading(false));
+    return () => { cancelled = true; };
+  }, [query, page, revision, fromServer]);
+
+  // Any filter change starts again from the first page, without rows it may have hidden selected
+  const filter = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value);
+    setPage(0);
+    setSelected(new Map());
+    setConfirmDelete(false);
+  };
+
+  const toggleFacet = (facet: HistoryFacet) => (value: string) => filter(setFacetSelection)({
+    ...facetSelection,
+    [facet]: facetSelection[facet].includes(value)
+      ? facetSelection[facet].filter(v => v !== value)
+      : [...facetSelection[facet], value],
+  });
+
+  const hasFacetSelection = (Object.keys(facetSelection) as HistoryFacet[]).some(facet => facetSelection[facet].length > 0);
+
+  const allOnPageSelected = items.length > 0 && items.every(item => selected.has(item.id));
+
+  const toggleSelected = (item: HistoryItem) => {
+    const next = new Map(selected);
+    if (next.has(item.id)) next.delete(item.id); else next.set(item.id, item);
+    setSelected(next);
+    setConfirmDelete(false);
+  };
+
+  const togglePageSelected = () => {
+    const next = new Map(selected);
+    items.forEach(item => (allOnPageSelected ? next.delete(item.id) : next.set(item.id, item)));
+    setSelected(next);
+    setConfirmDelete(false);
+  };
+
+  const clearSelection = () => {
+    setSelected(new Map());
+    setConfirmDelete(false);
+  };
+
+  const deleteSelected = async () => {
+    setIsDeleting(true);
+    try {
+      const ids = [...selected.keys()];
+      if (fromServer) {
+        await deleteServerAnalyses(ids);
+        setRevision(r => r + 1);
+      } else {
+        await deleteHistoryItems(ids);
+      }
+      clearSelection();
+    } catch (e) {
+      console.error('Bulk delete failed', e);
+      setLoadError(`Delete failed: ${(e as Error).message}`);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  // The selection if there is one, otherwise every analysis matching the filters
+  const collectForExport = async (): Promise<HistoryItem[]> => {
+    if (selected.size > 0) return [...selected.values()];
+    const collected: HistoryItem[] = [];
+    for (let offset = 0; ; offset += EXPORT_PAGE_SIZE) {
+      const result = fromServer
+        ? await queryServerHistory(query, offset, EXPORT_PAGE_SIZE)
+        : await queryHistory(query, offset, EXPORT_PAGE_SIZE);
+      collected.push(...result.items);
+      if (result.items.length === 0 || collected.length >= result.total) return collected;
+    }
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    setTransfer('export');
+    setNotice(null);
+    try {
+      const exported = await collectForExport();
+      const stamp = Date.now();
+      if (format === 'csv') {
+        downloadText(analysesToCsv(exported), `multi-ai-agent-analyses-${stamp}.csv`, 'text/csv');
+        downloadText(detailsToCsv(exported), `multi-ai-agent-analysis-details-${stamp}.csv`, 'text/csv');
+      } else if (format === 'ndjson') {
+        downloadText(await toNdjson(exported), `multi-ai-agent-analyses-${stamp}.ndjson`, 'application/x-ndjson');
+      } else {
+        const { collection, unlocated } = toGeoJson(exported);
+        downloadText(JSON.stringify(collection), `multi-ai-agent-analyses-${stamp}.geojson`, 'application/geo+json');
+        if (unlocated > 0) setNotice(`${unlocated} of ${exported.length} analyses have no coordinates and were left out.`);
+      }
+    } catch (e) {
+      console.error('Export failed', e);
+      setNotice(`Export failed: ${(e as Error).message}`);
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const handleReport = async () => {
+    setTransfer('export');
+    setNotice(null);
+    try {
+      await generateIncidentReport([...selected.values()].map(({ thumbnail, sourceId, ...result }) => ({
+        result,
+        image: thumbnail || undefined,
+        sourceId,
+      })));
+    } catch (e) {
+      console.error('Report generation failed', e);
+      setNotice(`Report failed: ${(e as Error).message}`);
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setTransfer('import');
+    setNotice(null);
+    try {
+      const { items: imported, skipped } = parseImport(await file.text());
+      skipped.forEach(message => console.warn(`Import of ${file.name}: ${message}`));
+      let stored = 0;
+      let expired = 0;
+      if (fromServer) {
+        for (const item of imported) {
+          try {
+            await importServerAnalysis(item);
+            stored++;
+          } catch (err) {
+            skipped.push(`${item.id}: ${(err as Error).message}`);
+          }
+        }
+        setRevision(r => r + 1);
+      } else {
+        const entries = await Promise.all(imported.map(async ({ thumbnail, ...item }) => ({
+          item,
+          thumbnail: thumbnail ? await (await fetch(thumbnail)).blob() : null,
+        })));
+        ({ imported: stored, expired } = await importHistoryItems(entries));
+      }
+      setNotice([
+        `Imported ${stored} ${stored === 1 ? 'analysis' : 'analyses'} from ${file.name}`,
+        skipped.length > 0 ? `${skipped.length} skipped (see console)` : '',
+        expired > 0 ? `${expired} removed at once by the ${HISTORY_RETENTION.maxAgeMs / 86_400_000}-day retention` : '',
+      ].filter(Boolean).join(' · '));
+    } catch (err) {
+      console.error('Import failed', err);
+      setNotice(`Import failed: ${(err as Error).message}`);
+    } finally {
+      setTransfer(null);
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-2 p-3 border-b border-slate-700 bg-slate-900/30">
+        <div className="flex rounded border border-slate-700 overflow-hidden text-xs">
+          <button
+            onClick={() => switchStore(true)}
+            disabled={!serverAvailable}
+            title={serverAvailable ? 'Shared analysis database on the backend' : 'Backend offline'}
+            className={`px-2 py-1.5 flex items-center gap-1 disabled:opacity-40 ${fromServer ? 'bg-cyan-900/40 text-cyan-300' : 'text-slate-400 hover:bg-slate-800'}`}
+          >
+            <Server className="w-3 h-3" /> Server
+          </button>
+          <button
+            onClick={() => switchStore(false)}
+            title="History stored in this browser"
+            className={`px-2 py-1.5 flex items-center gap-1 ${!fromServer ? 'bg-cyan-900/40 text-cyan-300' : 'text-slate-400 hover:bg-slate-800'}`}
+          >
+            <HardDrive className="w-3 h-3" /> This browser
+          </button>
+        </div>
+        <div className="relative flex-1 min-w-[180px]">
+          <Search className="w-3.5 h-3.5 text-slate-500 absolute left-2 top-1/2 -translate-y-1/2" />
+          <input
+            value={text}
+            onChange={e => filter(setText)(e.target.value)}
+            placeholder="Search reports, places, violations…"
+            className={`${inputClass} w-full pl-7`}
+          />
+        </div>
+        <input
+          type="number" min={0} max={100}
+          value={minCongestion}
+          onChange={e => filter(setMinCongestion)(e.target.value)}
+          placeholder="Min congestion %"
+          className={`${inputClass} w-32`}
+        />
+        <input type="date" value={fromDay} onChange={e => filter(setFromDay)(e.target.value)} className={inputClass} title="From" />
+        <input type="date" value={toDay} onChange={e => filter(setToDay)(e.target.value)} className={inputClass} title="To" />
+        <div className="flex items-center gap-1 ml-auto">
+          {transfer && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-400" />}
+          <Download className="w-3.5 h-3.5 text-slate-500" />
+          <select
+            value=""
+            onChange={e => e.target.value && handleExport(e.target.value as ExportFormat)}
+            disabled={transfer !== null || (total === 0 && selected.size === 0)}
+            className={inputClass}
+            title={selected.size > 0 ? `Export the ${selected.size} selected` : 'Export everything matching the filters'}
+          >
+            <option value="">Export {selected.size > 0 ? 'selected' : 'all'}…</option>
+            <option value="csv">CSV (summary + details)</option>
+            <option value="ndjson">NDJSON</option>
+            <option value="geojson">GeoJSON</option>
+          </select>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            disabled={transfer !== null}
+            title={`Import an NDJSON or GeoJSON export into ${fromServer ? 'the server database' : 'this browser'}`}
+            className={`${inputClass} flex items-center gap-1 hover:text-white disabled:opacity-40`}
+          >
+            <Upload className="w-3 h-3" /> Import
+          </button>
+          <input ref={importInputRef} type="file" accept=".ndjson,.jsonl,.json,.geojson" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {notice && (
+        <div className="flex items-center gap-2 px-4 py-2 border-b border-slate-700 text-xs text-slate-300 bg-slate-900/50">
+          <span className="flex-1">{notice}</span>
+          <button onClick={() => setNotice(null)} className="text-slate-500 hover:text-white"><X className="w-3 h-3" /></button>
+        </div>
+      )}
+
+      {/* Facets: counts cover the filters above, whatever is selected here */}
+      <div className="flex flex-wrap items-center gap-x-5 gap-y-2 px-3 py-2 border-b border-slate-700">
+        <FacetGroup label="Flow" values={FLOW_STATUSES} counts={facets?.flowStatus} selected={facetSelection.flowStatus} onToggle={toggleFacet('flowStatus')} />
+        <FacetGroup label="Violation" values={VIOLATION_TYPES} counts={facets?.violationType} selected={facetSelection.violationType} onToggle={toggleFacet('violationType')} />
+        <FacetGroup label="Severity" values={SEVERITIES} counts={facets?.severity} selected={facetSelection.severity} onToggle={toggleFacet('severity')} />
+        <FacetGroup label="Source" values={[]} counts={facets?.source} selected={facetSelection.source} describe={describeSource} onToggle={toggleFacet('source')} />
+        <FacetGroup label="Model" values={[]} counts={facets?.model} selected={facetSelection.model} onToggle={toggleFacet('model')} />
+        <FacetGroup label="Prompt" values={[]} counts={facets?.promptRevision} selected={facetSelection.promptRevision} describe={v => `rev ${v}`} onToggle={toggleFacet('promptRevision')} />
+        {hasFacetSelection && (
+          <button onClick={() => filter(setFacetSelection)(NO_FACETS)} className="text-[11px] text-slate-500 hover:text-white flex items-center gap-1">
+            <X className="w-3 h-3" /> Clear
+          </button>
+        )}
+      </div>
+
+      {/* Bulk actions */}
+      {selected.size > 0 && (
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-slate-700 bg-cyan-950/30 text-xs text-slate-300">
+          <span>{selected.size} selected</span>
+          <button onClick={clearSelection} className="text-slate-500 hover:text-white">Clear selection</button>
+          <div className="ml-auto flex items-center gap-2">
+            <button
+              onClick={handleReport}
+              disabled={transfer !== null}
+              title="PDF report of the selected analyses"
+              className="px-2 py-1 rounded border border-slate-600 hover:bg-slate-700 flex items-center gap-1 disabled:opacity-40"
+            >
+              <FileText className="w-3 h-3" /> Report
+            </button>
+            {confirmDelete ? (
+              <>
+                <span className="text-red-300">Delete {selected.size} {selected.size === 1 ? 'analysis' : 'analyses'}{fromServer ? ' from the server' : ''}?</span>
+                <button onClick={() => setConfirmDelete(false)} className="px-2 py-1 rounded border border-slate-600 hover:bg-slate-700">Cancel</button>
+                <button
+                  onClick={deleteSelected}
+                  disabled={isDeleting}
+                  className="px-2 py-1 rounded bg-red-600 hover:bg-red-500 text-white flex items-center gap-1 disabled:opacity-50"
+                >
+                  {isDeleting ? <Loader2 className="w-3 h-3 animate-spin" /> : <Trash2 className="w-3 h-3" />} Delete
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={() => setConfirmDelete(true)}
+                className="px-2 py-1 rounded border border-red-800/60 text-red-400 hover:bg-red-900/30 flex items-center gap-1"
+              >
+                <Trash2 className="w-3 h-3" /> Delete
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left text-slate-400">
+          <thead className="text-xs text-slate-200 uppercase bg-slate-900/50">
+            <tr>
+              <th className="pl-4 py-3 w-6">
+                <input type="checkbox" checked={allOnPageSelected} onChange={togglePageSelected} className="accent-cyan-500" title="Select page" />
+              </th>
+              <SortHeader label="Time" field="timestamp" sort={sort} onSort={filter(setSort)} />
+              <th className="px-4 py-3">Context</th>
+              <SortHeader label="Traffic" field="vehicles" sort={sort} onSort={filter(setSort)} />
+              <SortHeader label="Congestion" field="congestion" sort={sort} onSort={filter(setSort)} />
+              <SortHeader label="Violations" field="violations" sort={sort} onSort={filter(setSort)} />
+              <th className="px-4 py-3 text-right">Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id} className={`border-b border-slate-700 hover:bg-slate-700/30 transition-colors ${selected.has(item.id) ? 'bg-cyan-950/20' : ''}`}>
+                <td className="pl-4 py-3">
+                  <input type="checkbox" checked={selected.has(item.id)} onChange={() => toggleSelected(item)} className="accent-cyan-500" />
+                </td>
+                <td className="px-4 py-3 font-mono">
+                  {new Date(item.timestamp).toLocaleTimeString()}
+                  <div className="text-[10px] text-slate-500">{new Date(item.timestamp).toLocaleDateString()}</div>
+                </td>
+                <td className="px-4 py-3">
+                   <div className="flex items-center gap-2">
+                      {item.thumbnail ? (
+                        <img src={item.thumbnail} alt="thumb" className="w-10 h-6 object-cover rounded border border-slate-600" />
+                      ) : (
+                        <div className="w-10 h-6 rounded border border-slate-700 flex items-center justify-center text-slate-600"><ImageOff className="w-3 h-3" /></div>
+                      )}
+                      <div className="min-w-0">
+                        <span className="text-xs truncate block max-w-[150px]">{item.locationContext?.address || 'Unknown'}</span>
+                        {item.sourceId && <span className="text-[10px] text-slate-500">{describeSource(item.sourceId)}</span>}
+                      </div>
+                   </div>
+                </td>
+                <td className="px-4 py-3">
+                   <div className="flex items-center gap-2">
+                       <Car className="w-3 h-3" /> {item.analysis.totalVehicles}
+                       <Users className="w-3 h-3 ml-1" /> {item.analysis.pedestrianCount}
+                   </div>
+                </td>
+                <td className="px-4 py-3">
+                  <span className={`px-2 py-1 rounded text-xs ${item.analysis.congestionLevel > 70 ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>
+                    {item.analysis.congestionLevel}%
+                  </span>
+                </td>
+                <td className="px-4 py-3">
+                  {item.analysis.detectedViolations.length > 0 ? (
+                    <span className="text-red-400 flex items-center gap-1"><Ban className="w-3 h-3" /> {item.analysis.detectedViolations.length}</span>
+                  ) : (
+                    <span className="text-green-500/50">-</span>
+                  )}
+                </td>
+                <td className="px-4 py-3 text-right">
+                   <button
+                     onClick={() => onLoadHistoryItem(item)}
+                     className="px-3 py-1 bg-cyan-900/40 text-cyan-400 hover:bg-cyan-900/60 hover:text-white rounded text-xs font-medium border border-cyan-800/50 flex items-center gap-1 ml-auto"
+                   >
+                       <ExternalLink className="w-3 h-3" /> Open
+                   </button>
+                </td>
+              </tr>
+            ))}
+            {!isLoading && items.length === 0 && (
+              <tr>
+                <td colSpan={7} className={`px-4 py-8 text-center ${loadError ? 'text-red-400' : 'text-slate-500'}`}>
+                  {loadError || 'No analyses match these filters.'}
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pager */}
+      <div className="flex items-center justify-between px-4 py-3 text-xs text-slate-400 border-t border-slate-700">
+        <span className="flex items-center gap-2">
+          {isLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+          {total} {total === 1 ? 'entry' : 'entries'}
+        </span>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-1 rounded hover:bg-slate-700 disabled:opacity-30">
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="font-mono">{page + 1} / {pageCount}</span>
+          <button onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount} className="p-1 rounded hover:bg-slate-700 disabled:opacity-30">
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
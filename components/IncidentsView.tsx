@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from 'react';
+import { ShieldAlert, CheckCircle2, XCircle, RotateCcw, Trash2, ChevronLeft, ChevronRight, Loader2, ImageOff } from 'lucide-react';
+import { Incident, IncidentStatus } from '../types';
+import { INCIDENT_STATUSES, IncidentPage, deleteIncidents, onIncidentsChange, queryIncidents, reviewIncident } from '../services/incidentStore';
+import { describeSource } from '../services/sourceSettingsStore';
+
+const PAGE_SIZE = 20;
+
+const STATUS_STYLES: Record<IncidentStatus, string> = {
+  pending: 'bg-amber-500/20 text-amber-300 border-amber-700/50',
+  confirmed: 'bg-red-500/20 text-red-300 border-red-700/50',
+  dismissed: 'bg-slate-700/50 text-slate-400 border-slate-600',
+};
+
+const SEVERITY_STYLES: Record<string, string> = {
+  High: 'text-red-400',
+  Medium: 'text-amber-400',
+  Low: 'text-slate-400',
+};
+
+const Evidence: React.FC<{ label: string; src?: string }> = ({ label, src }) => (
+  <figure className="flex-1 min-w-0">
+    {src ? (
+      <img src={src} alt={label} className="w-full aspect-video object-contain bg-black rounded border border-slate-700" />
+    ) : (
+      <div className="w-full aspect-video rounded border border-slate-700 bg-slate-900 flex items-center justify-center text-slate-600">
+        <ImageOff className="w-5 h-5" />
+      </div>
+    )}
+    <figcaption className="text-[10px] uppercase tracking-wider text-slate-500 mt-1 text-center">{label}</figcaption>
+  </figure>
+);
+
+export const IncidentsView: React.FC = () => {
+  const [status, setStatus] = useState<IncidentStatus | undefined>('pending');
+  const [page, setPage] = useState(0);
+  const [result, setResult] = useState<IncidentPage | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [note, setNote] = useState('');
+  const [revision, setRevision] = useState(0);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => onIncidentsChange(() => setRevision(r => r + 1)), []);
+
+  useEffect(() => {
+    let cancelled = false;
+    queryIncidents(status, page * PAGE_SIZE, PAGE_SIZE)
+      .then(next => {
+        if (cancelled) return;
+        setResult(next);
+        setLoadError(null);
+      })
+      .catch(e => {
+        console.error('Incident query failed', e);
+        if (!cancelled) setLoadError((e as Error).message);
+      });
+    return () => { cancelled = true; };
+  }, [status, page, revision]);
+
+  const items = result?.items || [];
+  const selected: Incident | undefined = items.find(i => i.id === selectedId) || items[0];
+
+  // The note field follows the incident being reviewed
+  useEffect(() => {
+    setNote(selected?.note || '');
+  }, [selected?.id, selected?.note]);
+
+  const showStatus = (next: IncidentStatus | undefined) => {
+    setStatus(next);
+    setPage(0);
+    setSelectedId(null);
+  };
+
+  const review = (incident: Incident, next: IncidentStatus) =>
+    reviewIncident(incident.id, next, note.trim()).catch(e => setLoadError((e as Error).message));
+
+  const remove = (incident: Incident) =>
+    deleteIncidents([incident.id]).catch(e => setLoadError((e as Error).message));
+
+  const total = result?.total || 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const allCount = result ? INCIDENT_STATUSES.reduce((sum, s) => sum + result.counts[s], 0) : 0;
+
+  const tabClass = (active: boolean) =>
+    `px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${active ? 'bg-cyan-900/40 border-cyan-700 text-cyan-300' : 'border-slate-700 text-slate-400 hover:text-white'}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {INCIDENT_STATUSES.map(s => (
+          <button key={s} onClick={() => showStatus(s)} className={tabClass(status === s)}>
+            <span className="capitalize">{s}</span> <span className="font-mono text-slate-500">{result?.counts[s] ?? '-'}</span>
+          </button>
+        ))}
+        <button onClick={() => showStatus(undefined)} className={tabClass(status === undefined)}>
+          All <span className="font-mono text-slate-500">{result ? allCount : '-'}</span>
+        </button>
+        {loadError && <span className="text-xs text-red-400 ml-auto">{loadError}</span>}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Incident list */}
+        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden flex flex-col">
+          <div className="flex-1 divide-y divide-slate-700/60">
+            {!result && (
+              <div className="p-6 flex justify-center text-slate-500"><Loader2 className="w-4 h-4 animate-spin" /></div>
+            )}
+            {result && items.length === 0 && (
+              <div className="p-6 text-center text-sm text-slate-500">
+                No {status || ''} incidents. Tracking-derived violations are recorded here with their evidence.
+              </div>
+            )}
+            {items.map(incident => (
+              <button
+                key={incident.id}
+                onClick={() => setSelectedId(incident.id)}
+                className={`w-full text-left p-3 flex items-center gap-3 transition-colors ${incident.id === selected?.id ? 'bg-cyan-950/30' : 'hover:bg-slate-700/30'}`}
+              >
+                {incident.crop ? (
+                  <img src={incident.crop} alt="" className="w-12 h-12 object-cover rounded border border-slate-600 shrink-0" />
+                ) : (
+                  <div className="w-12 h-12 rounded border border-slate-700 bg-slate-900 shrink-0" />
+                )}
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-slate-200 font-medium">{incident.violation.type}</span>
+                    <span className={`text-[10px] font-bold ${SEVERITY_STYLES[incident.violation.severity]}`}>{incident.violation.severity.toUpperCase()}</span>
+                  </div>
+                  <div className="text-[11px] text-slate-500 truncate">
+                    {incident.trackId !== undefined && `#${incident.trackId} `}{incident.objectClass} · {new Date(incident.timestamp).toLocaleString()}
+                  </div>
+                </div>
+                <span className={`text-[10px] px-1.5 py-0.5 rounded border capitalize ${STATUS_STYLES[incident.status]}`}>{incident.status}</span>
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center justify-between px-3 py-2 text-xs text-slate-400 border-t border-slate-700">
+            <span>{total} {total === 1 ? 'incident' : 'incidents'}</span>
+            <div className="flex items-center gap-2">
+              <button onClick={() => setPage(page - 1)} disabled={page === 0} className="p-1 rounded hover:bg-slate-700 disabled:opacity-30">
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="font-mono">{page + 1} / {pageCount}</span>
+              <button onClick={() => setPage(page + 1)} disabled={page + 1 >= pageCount} className="p-1 rounded hover:bg-slate-700 disabled:opacity-30">
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Evidence and review */}
+        <div className="lg:col-span-2 bg-slate-800 rounded-xl border border-slate-700 p-5">
+          {!selected ? (
+            <div className="h-full flex flex-col items-center justify-center text-slate-500 text-sm py-16">
+              <ShieldAlert className="w-8 h-8 mb-2 opacity-40" />
+              Select an incident to review its evidence.
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <div>
+                  <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+                    {selected.violation.type}
+                    <span className={`text-xs font-bold ${SEVERITY_STYLES[selected.violation.severity]}`}>{selected.violation.severity}</span>
+                  </h3>
+                  <p className="text-sm text-slate-400">{selected.violation.description}</p>
+                </div>
+                <span className={`text-xs px-2 py-1 rounded border capitalize ${STATUS_STYLES[selected.status]}`}>
+                  {selected.status}{selected.reviewedAt ? ` ${new Date(selected.reviewedAt).toLocaleString()}` : ''}
+                </span>
+              </div>
+
+              <div className="flex gap-3">
+                <Evidence label="Before" src={selected.frameBefore} />
+                <Evidence label="Violation" src={selected.frame} />
+                <Evidence label="After" src={selected.frameAfter} />
+              </div>
+
+              <div className="flex gap-4">
+                {selected.crop && (
+                  <img src={selected.crop} alt="Offending object" className="w-32 h-32 object-contain bg-black rounded border border-slate-700" />
+                )}
+                <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs text-slate-400 content-start">
+                  <dt className="text-slate-500">Incident</dt><dd className="font-mono truncate">{selected.id}</dd>
+                  <dt className="text-slate-500">Track</dt><dd>{selected.trackId !== undefined ? `#${selected.trackId}` : '-'} {selected.objectClass}</dd>
+                  <dt className="text-slate-500">Time</dt><dd>{new Date(selected.timestamp).toLocaleString()}</dd>
+                  <dt className="text-slate-500">Source</dt><dd>{selected.sourceId ? describeSource(selected.sourceId) : 'Unknown'}</dd>
+                  {selected.analysisId && (<><dt className="text-slate-500">Analysis</dt><dd className="font-mono truncate">{selected.analysisId}</dd></>)}
+                </dl>
+              </div>
+
+              <textarea
+                value={note}
+                onChange={e => setNote(e.target.value)}
+                placeholder="Review note (saved with the decision)"
+                rows={2}
+                className="w-full bg-slate-900 border border-slate-700 rounded px-3 py-2 text-sm text-slate-300 focus:outline-none focus:border-cyan-500"
+              />
+
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => review(selected, 'confirmed')}
+                  className="px-3 py-1.5 rounded-lg text-sm bg-red-600 hover:bg-red-500 text-white flex items-center gap-1.5"
+                >
+                  <CheckCircle2 className="w-4 h-4" /> Confirm
+                </button>
+                <button
+                  onClick={() => review(selected, 'dismissed')}
+                  className="px-3 py-1.5 rounded-lg text-sm border border-slate-600 text-slate-300 hover:bg-slate-700 flex items-center gap-1.5"
+                >
+                  <XCircle className="w-4 h-4" /> Dismiss
+                </button>
+                {selected.status !== 'pending' && (
+                  <button
+                    onClick={() => review(selected, 'pending')}
+                    className="px-3 py-1.5 rounded-lg text-sm text-slate-400 hover:text-white flex items-center gap-1.5"
+                  >
+                    <RotateCcw className="w-4 h-4" /> Reopen
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(selected)}
+                  className="ml-auto px-3 py-1.5 rounded-lg text-sm text-slate-500 hover:text-red-400 flex items-center gap-1.5"
+                >
+                  <Trash2 className="w-4 h-4" /> Delete
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,533 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Film, Link2, X, Pause, Play, Loader2, AlertCircle, Clock, Ban, Gauge, Server, Square, Eye, Radio } from 'lucide-react';
+import { AgentStage, AgentStatus, FullAnalysisResult, PipelineDefinition } from '../types';
+import { AgentPipeline } from './AgentPipeline';
+import { analyzeTrafficImage } from '../services/geminiService';
+import { SourcePipeline } from '../services/sourcePipeline';
+import { renderDetections } from '../services/overlayRenderer';
+import { SchedulerStats, analysisScheduler } from '../services/analysisScheduler';
+import { describeSource, sourceIds, withoutCredentials } from '../services/sourceSettingsStore';
+import { IngestedStream, ingestStream, ingestedFrameUrl, listIngestedStreams, stopIngestedStream, subscribeToStreams } from '../services/streamApi';
+import { LiveFeedInfo, listLiveFeeds, newJobId, progressState, subscribeToFeed } from '../services/liveFeed';
+import { AgentProgress } from '../services/pipelineService';
+
+// 'ingest' streams are pulled and analysed by the backend; a 'feed' is a source
+// another viewer is analysing. Both only receive pushed results.
+type GridSourceKind = 'camera' | 'video' | 'stream' | 'ingest' | 'feed';
+
+interface GridSource {
+  sourceId: string;
+  kind: GridSourceKind;
+  deviceId?: string; // Webcams
+  url?: string; // Object URL of a video file, or the stream URL
+  streamId?: string; // Backend ingestion id
+}
+
+interface MultiCameraGridProps {
+  pipeline?: PipelineDefinition; // The backend's agents, for each tile's pipeline strip
+  onResult: (result: FullAnalysisResult, sourceId: string) => void; // Every tracked result, e.g. for alerting
+}
+
+const INTERVALS = [2000, 4000, 8000]; // Pause between a tile's analyses, ms
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const JPEG_QUALITY = 0.8;
+
+// Motion JPEG streams play in an <img>, everything else in a <video>
+const isMjpeg = (url: string) => /mjpe?g|\.cgi(\?|$)/i.test(url);
+// Browsers cannot open RTSP at all, so those always go through the backend
+const needsBackend = (url: string) => /^rtsps?:\/\//i.test(url);
+
+const GridTile: React.FC<{
+  source: GridSource;
+  intervalMs: number;
+  served: number;
+  pipeline?: PipelineDefinition;
+  onRemove: () => void;
+  onStopIngest: () => void;
+  onResult: MultiCameraGridProps['onResult'];
+}> = ({ source, intervalMs, served, pipeline, onRemove, onStopIngest, onResult }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const imgRef = useRef<HTMLImageElement>(null);
+  const overlayRef = useRef<HTMLCanvasElement>(null);
+  const pipelineRef = useRef<SourcePipeline | null>(null);
+  const onResultRef = useRef(onResult);
+  onResultRef.current = onResult;
+
+  const [status, setStatus] = useState<AgentStatus>(AgentStatus.IDLE);
+  const [queued, setQueued] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [result, setResult] = useState<FullAnalysisResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [pushedFrame, setPushedFrame] = useState<string | null>(null);
+  const [pushedCount, setPushedCount] = useState(0);
+  const [viewers, setViewers] = useState(0);
+  const [stages, setStages] = useState<AgentStage[]>([]);
+  const [agentProgress, setAgentProgress] = useState<AgentProgress>({});
+  const pausedRef = useRef(paused);
+  pausedRef.current = paused;
+  const jobRef = useRef<string | null>(null); // This tile's analysis in flight, to pick out its progress
+  const pushedJobRef = useRef<string | null>(null); // Analysis the pushed progress belongs to
+
+  const isIngest = source.kind === 'ingest';
+  const isPushed = isIngest || source.kind === 'feed';
+  const usesImage = source.kind === 'stream' && isMjpeg(source.url || '');
+
+  if (!pipelineRef.current) {
+    // Pushed results are saved by whoever analysed them: another viewer's
+    // camera by that viewer, an ingested stream's tracked violations and
+    // incidents by the one viewer the backend elects (see subscribeToFeed)
+    pipelineRef.current = new SourcePipeline(!isPushed);
+    pipelineRef.current.loadSettings(source.sourceId);
+  }
+
+  // A removed tile closes the violation events still open on its source
+  useEffect(() => () => pipelineRef.current?.reset(), []);
+
+  const showResult = (data: FullAnalysisResult, frameSrc: string, capturedAt: number) => {
+    const { predictedTracks } = pipelineRef.current!.process(data, frameSrc, capturedAt, source.sourceId);
+    const canvas = overlayRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (canvas && ctx && canvas.parentElement) {
+      canvas.width = canvas.parentElement.clientWidth;
+      canvas.height = canvas.parentElement.clientHeight;
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      renderDetections(ctx, canvas.width, canvas.height, data.detections, predictedTracks);
+    }
+    setResult(data);
+    setStages(data.pipeline?.stages || []);
+    setError(null);
+    setStatus(AgentStatus.COMPLETE);
+    onResultRef.current(data, source.sourceId);
+  };
+
+  // A paused tile skips pushed results, so it leaves recording to other viewers
+  const offersRecording = isIngest && !paused;
+
+  // Server-side agent progress for this source; pushed tiles also get results, with their frame
+  useEffect(() => subscribeToFeed(source.sourceId, event => {
+    if (event.type === 'viewers') {
+      setViewers(event.count);
+      if (isIngest) pipelineRef.current!.setPersist(event.recording);
+      return;
+    }
+    if (isPushed && pausedRef.current) return;
+    if (event.type === 'progress' && (isPushed || event.progress.jobId === jobRef.current)) {
+      const { jobId, agent, stage } = event.progress;
+      if (isPushed && jobId !== pushedJobRef.current) {
+        // The first event of the next analysis on this feed
+        pushedJobRef.current = jobId;
+        setStages([]);
+        setAgentProgress({});
+        setStatus(AgentStatus.RUNNING);
+      }
+      setAgentProgress(prev => ({ ...prev, [agent]: progressState(event.progress) }));
+      if (stage) setStages(prev => [...prev.filter(s => s.agent !== stage.agent), stage]);
+    } else if (isPushed && event.type === 'result') {
+      setPushedFrame(event.result.frameSrc);
+      setPushedCount(n => n + 1);
+      showResult(event.result.result, event.result.frameSrc, event.result.capturedAt);
+    } else if (isPushed && (event.type === 'failed' || event.type === 'error')) {
+      setError(event.error);
+      setStatus(AgentStatus.ERROR);
+    }
+  }, { record: offersRecording }), [source.sourceId, offersRecording]);
+
+  // Backend-ingested streams: connection problems and removal by another viewer
+  useEffect(() => {
+    if (!isIngest) return;
+    return subscribeToStreams(event => {
+      if (event.type === 'status' && event.stream.id === source.streamId) {
+        if (event.stream.error) {
+          setError(event.stream.error);
+          setStatus(AgentStatus.ERROR);
+        }
+      } else if (event.type === 'removed' && event.id === source.streamId) {
+        setError('Ingestion was stopped on the backend.');
+        setStatus(AgentStatus.IDLE);
+      }
+    });
+  }, [source.sourceId]);
+
+  // Attach the media
+  useEffect(() => {
+    if (source.kind !== 'camera') return;
+    let stream: MediaStream | null = null;
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: source.deviceId ? { deviceId: { exact: source.deviceId } } : true })
+      .then(s => {
+        if (cancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(e => setError(`Camera unavailable: ${(e as Error).message}`));
+    return () => {
+      cancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [source.sourceId]);
+
+  const captureFrame = (): string | null => {
+    const media = usesImage ? imgRef.current : videoRef.current;
+    if (!media) return null;
+    const width = media instanceof HTMLVideoElement ? media.videoWidth : media.naturalWidth;
+    const height = media instanceof HTMLVideoElement ? media.videoHeight : media.naturalHeight;
+    if (!width || !height) return null;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext('2d')?.drawImage(media, 0, 0);
+    try {
+      return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    } catch (e) {
+      throw new Error('The stream does not allow frame capture (missing CORS headers).');
+    }
+  };
+
+  // Capture loop: one frame at a time through the shared scheduler
+  useEffect(() => {
+    if (paused || isPushed) return;
+    let stopped = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const step = async () => {
+      if (stopped) return;
+      let frameSrc: string | null = null;
+      try {
+        frameSrc = captureFrame();
+      } catch (e) {
+        setError((e as Error).message);
+      }
+      const matches = frameSrc?.match(/^data:(.+);base64,(.+)$/);
+      if (!frameSrc || !matches) {
+        timer = setTimeout(step, 1000); // Media not ready yet
+        return;
+      }
+
+      const capturedAt = Date.now();
+      const jobId = newJobId();
+      jobRef.current = jobId;
+      setStages([]);
+      setAgentProgress({});
+      setQueued(true);
+      setStatus(AgentStatus.RUNNING);
+      try {
+        const data = await analysisScheduler.schedule(
+          source.sourceId,
+          () => analyzeTrafficImage(matches[2], matches[1], source.sourceId, jobId),
+          () => setQueued(false),
+        );
+        jobRef.current = null; // Progress still in flight must not undo the result
+        if (stopped) return;
+        showResult(data, frameSrc, capturedAt);
+      } catch (e) {
+        if (stopped) return;
+        console.warn(`Grid analysis failed for ${source.sourceId}:`, (e as Error).message);
+        setError((e as Error).message);
+        setStatus(AgentStatus.ERROR);
+      } finally {
+        setQueued(false);
+      }
+      if (!stopped) timer = setTimeout(step, intervalMs);
+    };
+
+    step();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      analysisScheduler.cancel(source.sourceId);
+    };
+  }, [paused, intervalMs, source.sourceId]);
+
+  const Icon = source.kind === 'camera' ? Camera : source.kind === 'video' ? Film : isIngest ? Server : source.kind === 'feed' ? Radio : Link2;
+
+  return (
+    <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden flex flex-col">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-700">
+        <Icon className="w-4 h-4 text-cyan-400 shrink-0" />
+        <span className="text-sm text-slate-200 truncate flex-1" title={source.sourceId}>{describeSource(source.sourceId)}</span>
+        <button onClick={() => setPaused(!paused)} className="p-1 text-slate-400 hover:text-white" title={paused ? 'Resume analysis' : 'Pause analysis'}>
+          {paused ? <Play className="w-3.5 h-3.5" /> : <Pause className="w-3.5 h-3.5" />}
+        </button>
+        {isIngest && (
+          <button onClick={onStopIngest} className="p-1 text-slate-400 hover:text-red-400" title="Stop ingestion on the backend">
+            <Square className="w-3.5 h-3.5" />
+          </button>
+        )}
+        <button onClick={onRemove} className="p-1 text-slate-400 hover:text-red-400" title={isIngest ? 'Hide (the backend keeps ingesting)' : 'Remove source'}>
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      <div className="relative aspect-video bg-black">
+        {isPushed ? (
+          (pushedFrame || isIngest) && <img src={pushedFrame || ingestedFrameUrl(source.streamId!)} alt="" className="w-full h-full object-fill" />
+        ) : usesImage ? (
+          <img ref={imgRef} src={source.url} crossOrigin="anonymous" alt="" className="w-full h-full object-fill" />
+        ) : (
+          <video
+            ref={videoRef}
+            src={source.kind === 'camera' ? undefined : source.url}
+            crossOrigin={source.kind === 'stream' ? 'anonymous' : undefined}
+            autoPlay
+            muted
+            loop={source.kind === 'video'}
+            playsInline
+            className="w-full h-full object-fill"
+          />
+        )}
+        <canvas ref={overlayRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+        {paused && (
+          <div className="absolute inset-0 bg-black/50 flex items-center justify-center text-xs text-slate-300 uppercase tracking-wider">Paused</div>
+        )}
+      </div>
+
+      <div className="px-3 py-2 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <AgentPipeline status={status} definition={pipeline} progress={agentProgress} stages={stages} compact />
+          {queued && <span className="text-[10px] text-amber-400 flex items-center gap-1"><Clock className="w-3 h-3" /> Queued</span>}
+        </div>
+        {result && (
+          <div className="flex items-center gap-3 text-[11px] text-slate-400">
+            <span className="flex items-center gap-1"><Gauge className="w-3 h-3" /> {result.analysis.congestionLevel}% {result.analysis.trafficFlowStatus}</span>
+            <span>{result.analysis.totalVehicles} vehicles</span>
+            {result.analysis.detectedViolations.length > 0 && (
+              <span className="text-red-400 flex items-center gap-1"><Ban className="w-3 h-3" /> {result.analysis.detectedViolations.length}</span>
+            )}
+            {viewers > 1 && <span className="flex items-center gap-1" title="Viewers watching this source"><Eye className="w-3 h-3" /> {viewers}</span>}
+            <span className="ml-auto font-mono text-slate-500">{isPushed ? pushedCount : served} frames</span>
+          </div>
+        )}
+        {error && (
+          <div className="text-[11px] text-red-400 flex items-start gap-1"><AlertCircle className="w-3 h-3 mt-0.5 shrink-0" /> {error}</div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const MultiCameraGrid: React.FC<MultiCameraGridProps> = ({ pipeline, onResult }) => {
+  const [sources, setSources] = useState<GridSource[]>([]);
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [streamUrl, setStreamUrl] = useState('');
+  const [viaBackend, setViaBackend] = useState(false);
+  const [backendStreams, setBackendStreams] = useState<IngestedStream[]>([]);
+  const [streamError, setStreamError] = useState<string | null>(null);
+  const [liveFeeds, setLiveFeeds] = useState<LiveFeedInfo[]>([]);
+  const [intervalMs, setIntervalMs] = useState(INTERVALS[1]);
+  const [stats, setStats] = useState<SchedulerStats>(() => analysisScheduler.getStats());
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => analysisScheduler.onChange(() => setStats(analysisScheduler.getStats())), []);
+
+  // Device labels are only exposed once camera access has been granted
+  const loadDevices = () => navigator.mediaDevices?.enumerateDevices()
+    .then(all => setDevices(all.filter(d => d.kind === 'videoinput')))
+    .catch(e => console.error('Failed to list cameras', e));
+
+  useEffect(() => {
+    loadDevices();
+    loadLiveFeeds();
+  }, []);
+
+  // Streams the backend is ingesting, including ones other viewers started
+  useEffect(() => subscribeToStreams(event => {
+    if (event.type === 'streams') setBackendStreams(event.streams);
+    else if (event.type === 'status') setBackendStreams(prev => [...prev.filter(s => s.id !== event.stream.id), event.stream]);
+    else if (event.type === 'removed') setBackendStreams(prev => prev.filter(s => s.id !== event.id));
+  }), []);
+
+  const addSource = (source: GridSource) => {
+    if (sources.some(s => s.sourceId === source.sourceId)) return;
+    setSources(prev => [...prev, source]);
+  };
+
+  const addCamera = (deviceId: string) => {
+    addSource({ sourceId: sourceIds.camera(deviceId), kind: 'camera', deviceId: deviceId === 'default' ? undefined : deviceId });
+    setTimeout(loadDevices, 1000);
+  };
+
+  // Same-named files (from different folders, say) get numbered ids, so they never share a tracker, settings or history
+  const addFiles = (files: FileList | null) => {
+    const picked = Array.from(files || []).map(file => ({ name: file.name, url: URL.createObjectURL(file) }));
+    setSources(prev => {
+      const taken = new Set(prev.map(s => s.sourceId));
+      return [
+        ...prev,
+        ...picked.map(({ name, url }): GridSource => {
+          let sourceId = sourceIds.video(name);
+          for (let n = 2; taken.has(sourceId); n++) sourceId = sourceIds.video(`${name} (${n})`);
+          taken.add(sourceId);
+          return { sourceId, kind: 'video', url };
+        }),
+      ];
+    });
+  };
+
+  // Sources with recent results, which other viewers may be analysing
+  const loadLiveFeeds = () => listLiveFeeds()
+    .then(feeds => setLiveFeeds(feeds.filter(feed => feed.lastResultAt)))
+    .catch(e => console.error('Failed to list live feeds', e));
+
+  const addIngested = (stream: IngestedStream) =>
+    addSource({ sourceId: stream.sourceId, kind: 'ingest', url: stream.url, streamId: stream.id });
+
+  const addStream = async () => {
+    const url = streamUrl.trim();
+    if (!url) return;
+    setStreamError(null);
+    if (!viaBackend && !needsBackend(url)) {
+      addSource({ sourceId: sourceIds.stream(url), kind: 'stream', url });
+      setStreamUrl('');
+      return;
+    }
+    try {
+      // Another viewer may already have started it; join that ingestion instead
+      const existing = (await listIngestedStreams()).find(s => s.url === withoutCredentials(url));
+      addIngested(existing || await ingestStream(url, intervalMs / 1000));
+      setStreamUrl('');
+    } catch (e) {
+      setStreamError((e as Error).message);
+    }
+  };
+
+  const stopIngest = (source: GridSource) => {
+    stopIngestedStream(source.streamId!)
+      .then(() => removeSource(source))
+      .catch(e => setStreamError((e as Error).message));
+  };
+
+  const removeSource = (source: GridSource) => {
+    if (source.kind === 'video' && source.url) URL.revokeObjectURL(source.url);
+    setSources(prev => prev.filter(s => s.sourceId !== source.sourceId));
+  };
+
+  const columns = sources.length <= 1 ? 'md:grid-cols-1' : sources.length <= 4 ? 'md:grid-cols-2' : 'md:grid-cols-3';
+  const waiting = Object.keys(stats.waiting).reduce((sum, id) => sum + stats.waiting[id], 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-slate-800 rounded-xl border border-slate-700 p-4 flex flex-wrap items-center gap-3">
+        <select
+          value=""
+          onChange={e => e.target.value && addCamera(e.target.value)}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-cyan-500"
+        >
+          <option value="">Add webcam…</option>
+          {devices.length === 0 && <option value="default">Default camera</option>}
+          {devices.map((d, i) => (
+            <option key={d.deviceId || i} value={d.deviceId || 'default'}>{d.label || `Camera ${i + 1}`}</option>
+          ))}
+        </select>
+
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 rounded border border-slate-700 text-sm text-slate-300 hover:bg-slate-700 flex items-center gap-1.5"
+        >
+          <Film className="w-4 h-4" /> Add video files
+        </button>
+        <input ref={fileInputRef} type="file" accept="video/*" multiple className="hidden" onChange={e => { addFiles(e.target.files); e.target.value = ''; }} />
+
+        <div className="flex items-center gap-1 flex-1 min-w-[240px]">
+          <input
+            type="url"
+            value={streamUrl}
+            onChange={e => setStreamUrl(e.target.value)}
+            onKeyDown={e => e.key === 'Enter' && addStream()}
+            placeholder="Stream URL (MP4/WebM, HLS, MJPEG, or RTSP via the backend)"
+            className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm font-mono text-slate-300 focus:outline-none focus:border-cyan-500"
+          />
+          <button onClick={addStream} disabled={!streamUrl.trim()} className="px-3 py-1.5 rounded border border-slate-700 text-sm text-slate-300 hover:bg-slate-700 disabled:opacity-50 flex items-center gap-1.5">
+            <Link2 className="w-4 h-4" /> Add
+          </button>
+          <label className="flex items-center gap-1 text-xs text-slate-400 whitespace-nowrap" title="The backend pulls and analyses the stream and pushes results to every viewer">
+            <input type="checkbox" checked={viaBackend} onChange={e => setViaBackend(e.target.checked)} className="accent-cyan-500" />
+            Via backend
+          </label>
+        </div>
+
+        {backendStreams.some(stream => !sources.some(s => s.sourceId === stream.sourceId)) && (
+          <select
+            value=""
+            onChange={e => {
+              const stream = backendStreams.find(s => s.id === e.target.value);
+              if (stream) addIngested(stream);
+            }}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-cyan-500"
+          >
+            <option value="">Backend streams…</option>
+            {backendStreams.filter(stream => !sources.some(s => s.sourceId === stream.sourceId)).map(stream => (
+              <option key={stream.id} value={stream.id}>{stream.name} ({stream.status})</option>
+            ))}
+          </select>
+        )}
+
+        <select
+          value=""
+          onFocus={loadLiveFeeds}
+          onChange={e => e.target.value && addSource({ sourceId: e.target.value, kind: 'feed' })}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1.5 text-sm text-slate-300 focus:outline-none focus:border-cyan-500"
+          title="Watch a source another viewer is analysing"
+        >
+          <option value="">Watch live feed…</option>
+          {/* Backend streams are offered above */}
+          {liveFeeds.filter(feed => !sources.some(s => s.sourceId === feed.feedId) && !backendStreams.some(s => s.sourceId === feed.feedId)).map(feed => (
+            <option key={feed.feedId} value={feed.feedId}>{describeSource(feed.feedId)} ({feed.viewers} watching)</option>
+          ))}
+        </select>
+
+        <div className="flex items-center gap-3 text-xs text-slate-400 ml-auto">
+          <label className="flex items-center gap-1">
+            Every
+            <select value={intervalMs} onChange={e => setIntervalMs(Number(e.target.value))} className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-slate-300">
+              {INTERVALS.map(ms => <option key={ms} value={ms}>{ms / 1000}s</option>)}
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            Parallel
+            <select
+              value={stats.concurrency}
+              onChange={e => analysisScheduler.setConcurrency(Number(e.target.value))}
+              className="bg-slate-900 border border-slate-700 rounded px-1 py-1 text-slate-300"
+            >
+              {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <span className="font-mono flex items-center gap-1">
+            {stats.running > 0 && <Loader2 className="w-3 h-3 animate-spin text-cyan-400" />}
+            {stats.running} running · {waiting} queued
+          </span>
+          {stats.pausedUntil && <span className="text-amber-400">Rate limited, resuming {new Date(stats.pausedUntil).toLocaleTimeString()}</span>}
+        </div>
+        {streamError && (
+          <div className="basis-full text-xs text-red-400 flex items-center gap-1"><AlertCircle className="w-3 h-3" /> {streamError}</div>
+        )}
+      </div>
+
+      {sources.length === 0 ? (
+        <div className="p-12 text-center text-sm text-slate-500 border border-dashed border-slate-700 rounded-xl">
+          Add webcams, video files or stream URLs to monitor them side by side. Each source gets its own tracker,
+          and analysis requests are shared fairly between them. Streams added via the backend are analysed there,
+          and any source being analysed elsewhere can be watched live.
+        </div>
+      ) : (
+        <div className={`grid grid-cols-1 ${columns} gap-4`}>
+          {sources.map(source => (
+            <GridTile
+              key={source.sourceId}
+              source={source}
+              intervalMs={intervalMs}
+              served={stats.served[source.sourceId] || 0}
+              pipeline={pipeline}
+              onRemove={() => removeSource(source)}
+              onStopIngest={() => stopIngest(source)}
+              onResult={onResult}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
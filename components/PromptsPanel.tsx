@@ -0,0 +1,244 @@
+import React, { useEffect, useState } from 'react';
+import { ScrollText, X, Save, RotateCcw, GitCompare, Loader2, CheckCircle2, XCircle } from 'lucide-react';
+import { PipelineDefinition } from '../types';
+import {
+  PromptDiff, PromptRevision, PromptSummary, PromptTemplate,
+  diffPrompt, getPrompt, listPromptRevisions, listPrompts, rollbackPrompt, savePrompt,
+} from '../services/promptApi';
+
+interface PromptsPanelProps {
+  definition: PipelineDefinition; // For agent labels and order
+  backendOnline: boolean; // Prompts are stored on, and used by, the backend
+  onClose: () => void;
+}
+
+const inputClass = 'bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-cyan-500';
+
+const formatTime = (ms: number) => new Date(ms).toLocaleString();
+
+const describeRevision = (r: PromptRevision, labelOf: (agent: string) => string) => {
+  if (!r.agent) return r.note;
+  return `${labelOf(r.agent)} ${r.action === 'edited' ? 'saved as' : 'rolled back to'} v${r.version}${r.note ? ` — ${r.note}` : ''}`;
+};
+
+const DiffView = ({ diff, onClose }: { diff: PromptDiff; onClose: () => void }) => (
+  <div className="bg-slate-950 border border-slate-700 rounded-lg overflow-hidden">
+    <div className="flex items-center gap-3 px-3 py-1.5 border-b border-slate-800 text-xs text-slate-400">
+      <GitCompare className="w-3.5 h-3.5" /> v{diff.from} → v{diff.to}
+      <span className="text-red-400">removed</span>
+      <span className="text-green-400">added</span>
+      <button onClick={onClose} className="ml-auto text-slate-500 hover:text-white"><X className="w-3.5 h-3.5" /></button>
+    </div>
+    <p className="p-3 text-xs font-mono leading-relaxed whitespace-pre-wrap text-slate-400 max-h-60 overflow-auto">
+      {diff.changes.map((change, i) => (
+        <span
+          key={i}
+          className={change.op === 'insert' ? 'bg-green-900/50 text-green-300' : change.op === 'delete' ? 'bg-red-900/40 text-red-300 line-through' : ''}
+        >
+          {change.text}
+        </span>
+      ))}
+      {diff.changes.every(change => change.op === 'equal') && <span className="italic"> (identical)</span>}
+    </p>
+  </div>
+);
+
+export const PromptsPanel: React.FC<PromptsPanelProps> = ({ definition, backendOnline, onClose }) => {
+  const [summaries, setSummaries] = useState<PromptSummary[]>([]);
+  const [revisions, setRevisions] = useState<PromptRevision[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [template, setTemplate] = useState<PromptTemplate | null>(null);
+  const [draft, setDraft] = useState('');
+  const [note, setNote] = useState('');
+  const [diff, setDiff] = useState<PromptDiff | null>(null);
+  const [status, setStatus] = useState<{ busy: boolean; message?: string; ok?: boolean }>({ busy: true });
+
+  const labelOf = (agent: string) => definition.agents.find(a => a.id === agent)?.label || agent;
+  // Pipeline order first, then agents the store knows that the pipeline no longer has
+  const order = (agent: string) => {
+    const index = definition.agents.findIndex(a => a.id === agent);
+    return index === -1 ? definition.agents.length : index;
+  };
+  const agents = [...summaries].sort((a, b) => order(a.agent) - order(b.agent));
+  const active = template?.versions.find(v => v.version === template.activeVersion);
+  const revision = revisions[0]?.revision;
+
+  const refresh = async () => {
+    const [list, log] = await Promise.all([listPrompts(), listPromptRevisions()]);
+    setSummaries(list.agents);
+    setRevisions(log);
+    return list.agents;
+  };
+
+  const showTemplate = (next: PromptTemplate) => {
+    setTemplate(next);
+    setDraft(next.versions.find(v => v.version === next.activeVersion)?.text || '');
+    setNote('');
+  };
+
+  // Runs a backend call and reports its outcome under the editor
+  const run = async (action: () => Promise<string | undefined>) => {
+    setStatus({ busy: true });
+    try {
+      setStatus({ busy: false, ok: true, message: await action() });
+    } catch (e) {
+      setStatus({ busy: false, ok: false, message: (e as Error).message });
+    }
+  };
+
+  useEffect(() => {
+    if (!backendOnline) return;
+    run(async () => {
+      const list = await refresh();
+      const first = [...list].sort((a, b) => order(a.agent) - order(b.agent))[0];
+      if (first) setSelected(first.agent);
+      return undefined;
+    });
+  }, [backendOnline]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setDiff(null);
+    run(async () => {
+      showTemplate(await getPrompt(selected));
+      return undefined;
+    });
+  }, [selected]);
+
+  const save = () => run(async () => {
+    const saved = await savePrompt(selected!, draft, note.trim() || undefined);
+    showTemplate(saved);
+    setDiff(await diffPrompt(saved.agent, saved.activeVersion - 1, saved.activeVersion));
+    await refresh();
+    return `Saved as v${saved.activeVersion}; new analyses use it.`;
+  });
+
+  const rollback = (version: number) => run(async () => {
+    showTemplate(await rollbackPrompt(selected!, version));
+    setDiff(null);
+    await refresh();
+    return `v${version} is active again.`;
+  });
+
+  // A version against the active one; the active one against its predecessor (v1 against the latest)
+  const compare = (version: number) => run(async () => {
+    const to = template!.activeVersion;
+    const latest = template!.versions[template!.versions.length - 1].version;
+    const from = version !== to ? version : to > 1 ? to - 1 : latest;
+    setDiff(await diffPrompt(selected!, from, to));
+    return undefined;
+  });
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="w-full max-w-4xl bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <ScrollText className="w-5 h-5 text-cyan-400" /> Agent prompts
+            {revision !== undefined && <span className="text-xs font-mono font-normal text-slate-500">revision {revision}</span>}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {!backendOnline ? (
+          <p className="p-5 text-sm text-slate-500">Prompts are stored on the backend, which is offline.</p>
+        ) : (
+          <div className="p-5 flex flex-col md:flex-row gap-5">
+            <div className="md:w-44 shrink-0 space-y-1">
+              {agents.map(summary => (
+                <button
+                  key={summary.agent}
+                  onClick={() => setSelected(summary.agent)}
+                  className={`w-full text-left px-3 py-2 rounded-lg text-sm flex items-center justify-between ${selected === summary.agent ? 'bg-cyan-950/40 border border-cyan-800 text-cyan-300' : 'text-slate-400 hover:bg-slate-800'}`}
+                >
+                  {labelOf(summary.agent)}
+                  <span className="font-mono text-[11px] text-slate-500">v{summary.activeVersion}</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 min-w-0 space-y-4">
+              {template && (
+                <>
+                  <section className="space-y-2">
+                    <textarea
+                      value={draft}
+                      onChange={e => setDraft(e.target.value)}
+                      rows={8}
+                      className={`${inputClass} w-full font-mono text-xs leading-relaxed`}
+                    />
+                    <div className="flex items-center gap-2">
+                      <input value={note} onChange={e => setNote(e.target.value)} placeholder="What changed (optional)" maxLength={200} className={`${inputClass} flex-1 text-xs`} />
+                      <button
+                        onClick={() => setDraft(active?.text || '')}
+                        disabled={status.busy || draft === active?.text}
+                        className="px-3 py-1.5 rounded-lg text-xs border border-slate-700 text-slate-300 hover:bg-slate-800 disabled:opacity-50"
+                      >
+                        Discard
+                      </button>
+                      <button
+                        onClick={save}
+                        disabled={status.busy || !draft.trim() || draft === active?.text}
+                        className="px-3 py-1.5 rounded-lg text-xs bg-cyan-600 hover:bg-cyan-500 text-white flex items-center gap-1 disabled:opacity-50"
+                      >
+                        <Save className="w-3 h-3" /> Save as v{template.versions[template.versions.length - 1].version + 1}
+                      </button>
+                    </div>
+                    <div className="h-5 flex items-center">
+                      {status.busy && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+                      {!status.busy && status.message && (
+                        <span className={`text-xs flex items-center gap-1 ${status.ok ? 'text-green-400' : 'text-red-400'}`}>
+                          {status.ok ? <CheckCircle2 className="w-3.5 h-3.5" /> : <XCircle className="w-3.5 h-3.5" />} {status.message}
+                        </span>
+                      )}
+                    </div>
+                  </section>
+
+                  {diff && <DiffView diff={diff} onClose={() => setDiff(null)} />}
+
+                  <section className="space-y-1">
+                    <p className="text-xs text-slate-500 uppercase tracking-wider">Versions</p>
+                    {[...template.versions].reverse().map(v => (
+                      <div key={v.version} className="flex items-center gap-3 px-3 py-1.5 rounded-lg bg-slate-800/50 text-xs">
+                        <span className="font-mono text-slate-300 w-8">v{v.version}</span>
+                        <span className="text-slate-400 truncate flex-1" title={v.note}>{v.note || <span className="italic text-slate-600">no note</span>}</span>
+                        <span className="text-slate-500 shrink-0">{formatTime(v.createdAt)}</span>
+                        {v.version === template.activeVersion && (
+                          <span className="px-1.5 rounded bg-green-900/50 text-green-400 text-[10px] uppercase tracking-wider">Active</span>
+                        )}
+                        <button onClick={() => compare(v.version)} disabled={status.busy || template.versions.length < 2} className="text-slate-400 hover:text-white disabled:opacity-30" title={v.version === template.activeVersion ? 'Diff against the previous version' : 'Diff against the active version'}>
+                          <GitCompare className="w-3.5 h-3.5" />
+                        </button>
+                        <button onClick={() => rollback(v.version)} disabled={status.busy || v.version === template.activeVersion} className="text-slate-400 hover:text-white disabled:opacity-30" title="Make this version active again">
+                          <RotateCcw className="w-3.5 h-3.5" />
+                        </button>
+                      </div>
+                    ))}
+                  </section>
+                </>
+              )}
+
+              {revisions.length > 0 && (
+                <section className="space-y-1">
+                  <p className="text-xs text-slate-500 uppercase tracking-wider">Revisions</p>
+                  <p className="text-[11px] text-slate-500">Each analysis records the revision it ran under; filter the database by it to compare results.</p>
+                  <div className="max-h-40 overflow-y-auto space-y-0.5">
+                    {revisions.map(r => (
+                      <div key={r.revision} className="flex items-center gap-3 text-xs text-slate-400">
+                        <span className="font-mono text-slate-300 w-12">rev {r.revision}</span>
+                        <span className="truncate flex-1">{describeRevision(r, labelOf)}</span>
+                        <span className="text-slate-500 shrink-0">{formatTime(r.at)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,21 +1,46 @@
 
 import React, { useState } from 'react';
-import { FullAnalysisResult, DetectionItem, TrafficLight, HistoryItem } from '../types';
+import { FullAnalysisResult, DetectionItem, TrafficLight, HistoryItem, LineCrossing, Zone } from '../types';
+import { HistoryBrowser } from './HistoryBrowser';
+import { COUNT_INTERVALS, aggregateCrossings, countedClasses, countsToCsv } from '../services/countingService';
+import { downloadText } from '../services/exportService';
+import { BUSY_CLASS_COUNT, sessionTrend, vehicleComposition } from '../services/analysisStats';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell, LineChart, Line, CartesianGrid, Legend } from 'recharts';
-import { AlertTriangle, ShieldCheck, Car, Users, TrendingUp, Zap, MapPin, Clock, History, LayoutDashboard, Ban, Activity, ScanEye, ArrowRight, ExternalLink } from 'lucide-react';
+import { AlertTriangle, ShieldCheck, Users, TrendingUp, Zap, MapPin, Clock, History, LayoutDashboard, Activity, ScanEye, ArrowRight, Download, Split, FileText, Loader2 } from 'lucide-react';
 
 interface ResultsDashboardProps {
   data: FullAnalysisResult | null;
-  history: HistoryItem[];
+  history: HistoryItem[]; // Most recent entries
+  historyTotal: number;
+  serverHistory?: boolean; // Backend analysis database reachable
   videoSessionData: FullAnalysisResult[];
+  lineCrossings?: LineCrossing[]; // Session crossings for the counts panel
+  countLines?: Zone[];
   onLoadHistoryItem: (item: HistoryItem) => void;
+  onGenerateReport?: () => Promise<void>; // PDF of the current analysis (or session)
 }
 
-export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, history, videoSessionData, onLoadHistoryItem }) => {
+export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, history, historyTotal, serverHistory = false, videoSessionData, lineCrossings = [], countLines = [], onLoadHistoryItem, onGenerateReport }) => {
   const [activeTab, setActiveTab] = useState<'live' | 'history'>('live');
+  const [isGeneratingReport, setIsGeneratingReport] = useState(false);
+  const [reportError, setReportError] = useState<string | null>(null);
+
+  const handleGenerateReport = async () => {
+    if (!onGenerateReport) return;
+    setIsGeneratingReport(true);
+    setReportError(null);
+    try {
+      await onGenerateReport();
+    } catch (e) {
+      console.error('Report generation failed', e);
+      setReportError((e as Error).message);
+    } finally {
+      setIsGeneratingReport(false);
+    }
+  };
 
   // If no live data is present but history exists, default to history view (unless explicitly live tab selected with no data, which handles gracefully)
-  const effectiveTab = !data && history.length > 0 ? 'history' : activeTab;
+  const effectiveTab = !data && (history.length > 0 || serverHistory) ? 'history' : activeTab;
 
   if (effectiveTab === 'history') {
     return (
@@ -28,61 +53,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
            {data && <button onClick={() => setActiveTab('live')} className="text-sm text-slate-400 hover:text-white">Back to Live</button>}
         </div>
         
-        <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
-           <div className="overflow-x-auto">
-             <table className="w-full text-sm text-left text-slate-400">
-               <thead className="text-xs text-slate-200 uppercase bg-slate-900/50">
-                 <tr>
-                   <th className="px-4 py-3">Time</th>
-                   <th className="px-4 py-3">Context</th>
-                   <th className="px-4 py-3">Traffic</th>
-                   <th className="px-4 py-3">Congestion</th>
-                   <th className="px-4 py-3">Violations</th>
-                   <th className="px-4 py-3 text-right">Action</th>
-                 </tr>
-               </thead>
-               <tbody>
-                 {history.map((item) => (
-                   <tr key={item.id} className="border-b border-slate-700 hover:bg-slate-700/30 transition-colors">
-                     <td className="px-4 py-3 font-mono">{new Date(item.timestamp).toLocaleTimeString()}</td>
-                     <td className="px-4 py-3">
-                        <div className="flex items-center gap-2">
-                           <img src={item.thumbnail} alt="thumb" className="w-10 h-6 object-cover rounded border border-slate-600" />
-                           <span className="text-xs truncate max-w-[150px]">{item.locationContext?.address || 'Unknown'}</span>
-                        </div>
-                     </td>
-                     <td className="px-4 py-3">
-                        <div className="flex items-center gap-2">
-                            <Car className="w-3 h-3" /> {item.analysis.totalVehicles}
-                            <Users className="w-3 h-3 ml-1" /> {item.analysis.pedestrianCount}
-                        </div>
-                     </td>
-                     <td className="px-4 py-3">
-                       <span className={`px-2 py-1 rounded text-xs ${item.analysis.congestionLevel > 70 ? 'bg-red-500/20 text-red-400' : 'bg-green-500/20 text-green-400'}`}>
-                         {item.analysis.congestionLevel}%
-                       </span>
-                     </td>
-                     <td className="px-4 py-3">
-                       {item.analysis.detectedViolations.length > 0 ? (
-                         <span className="text-red-400 flex items-center gap-1"><Ban className="w-3 h-3" /> {item.analysis.detectedViolations.length}</span>
-                       ) : (
-                         <span className="text-green-500/50">-</span>
-                       )}
-                     </td>
-                     <td className="px-4 py-3 text-right">
-                        <button 
-                          onClick={() => onLoadHistoryItem(item)}
-                          className="px-3 py-1 bg-cyan-900/40 text-cyan-400 hover:bg-cyan-900/60 hover:text-white rounded text-xs font-medium border border-cyan-800/50 flex items-center gap-1 ml-auto"
-                        >
-                            <ExternalLink className="w-3 h-3" /> Open
-                        </button>
-                     </td>
-                   </tr>
-                 ))}
-               </tbody>
-             </table>
-           </div>
-        </div>
+        <HistoryBrowser serverAvailable={serverHistory} onLoadHistoryItem={onLoadHistoryItem} />
       </div>
     );
   }
@@ -90,18 +61,11 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
   if (!data) return null;
 
   const { detections, analysis, report, locationContext } = data;
+  // Events still flagged on this frame that opened on an earlier one
+  const ongoingEvents = (data.violationEvents || []).filter(e => e.endedAt === undefined && e.frames > 1);
   
   // Group Detections for Chart
-  const vehicleDetections = detections.filter(d => d.type === 'vehicle');
-  const groupedChartData = vehicleDetections.reduce((acc: any[], curr) => {
-      const existing = acc.find(item => item.name === curr.object);
-      if (existing) {
-          existing.count += curr.count;
-      } else {
-          acc.push({ name: curr.object, count: curr.count });
-      }
-      return acc;
-  }, []);
+  const groupedChartData = vehicleComposition(detections);
   
   const congestionColor = analysis.congestionLevel > 75 ? '#ef4444' : analysis.congestionLevel > 40 ? '#f59e0b' : '#22c55e';
   
@@ -109,11 +73,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
   const trackedItems = detections.filter(d => d.trackId !== undefined);
 
   // Process video trend data
-  const videoTrendData = videoSessionData.map((d, idx) => ({
-    time: idx + 's',
-    vehicles: d.analysis.totalVehicles,
-    congestion: d.analysis.congestionLevel
-  }));
+  const videoTrendData = sessionTrend(videoSessionData);
 
   return (
     <div className="space-y-6 animate-fadeIn">
@@ -130,8 +90,22 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
           onClick={() => setActiveTab('history')}
           className={`pb-3 text-sm font-medium border-b-2 transition-colors flex items-center gap-2 ${activeTab === 'history' ? 'border-cyan-500 text-cyan-400' : 'border-transparent text-slate-400 hover:text-slate-200'}`}
         >
-          <History className="w-4 h-4" /> Database ({history.length})
+          <History className="w-4 h-4" /> Database ({historyTotal})
         </button>
+        {onGenerateReport && (
+          <div className="ml-auto pb-2 flex items-center gap-2">
+            {reportError && <span className="text-xs text-red-400">{reportError}</span>}
+            <button
+              onClick={handleGenerateReport}
+              disabled={isGeneratingReport}
+              title={videoSessionData.length > 1 ? 'PDF report of the whole session' : 'PDF report of this analysis'}
+              className="px-3 py-1.5 rounded-lg text-xs font-medium border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-800 flex items-center gap-1.5 disabled:opacity-50"
+            >
+              {isGeneratingReport ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <FileText className="w-3.5 h-3.5" />}
+              Generate report
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Context Banner (Maps Grounding) */}
@@ -208,10 +182,18 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                             <span className="text-xs font-bold text-slate-300 truncate">{item.object}</span>
                             <span className="text-[10px] text-cyan-400 font-mono">ID:{item.trackId}</span>
                         </div>
-                        <div className="flex items-end gap-1">
-                            <span className="text-lg font-mono font-bold text-white">{item.estimatedSpeed || 0}</span>
-                            <span className="text-[10px] text-slate-500 mb-1">km/h</span>
-                        </div>
+                        {item.trackClass === 'pedestrian' ? (
+                            <div className="flex items-end gap-1">
+                                <span className="text-sm font-bold text-purple-300">Pedestrian</span>
+                                <span className="text-[10px] text-slate-500 mb-0.5">{item.trajectory?.length || 1} pts</span>
+                            </div>
+                        ) : (
+                            <div className="flex items-end gap-1">
+                                <span className="text-lg font-mono font-bold text-white">{item.estimatedSpeed || 0}</span>
+                                {!!item.speedUncertainty && <span className="text-xs font-mono text-slate-400 mb-0.5">±{item.speedUncertainty}</span>}
+                                <span className="text-[10px] text-slate-500 mb-1">km/h</span>
+                            </div>
+                        )}
                         {item.laneEvent && item.laneEvent !== 'Stable' && (
                             <div className="mt-2 text-[10px] text-orange-400 flex items-center gap-1">
                                 <ArrowRight className="w-3 h-3" /> {item.laneEvent}
@@ -224,6 +206,9 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
           </div>
       )}
 
+      {/* Directional Counts (Only visible when counting lines are drawn) */}
+      {countLines.length > 0 && <LineCountsPanel crossings={lineCrossings} lines={countLines} />}
+
       {/* Video Trend Chart (Only visible if data exists) */}
       {videoTrendData.length > 1 && (
          <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
@@ -269,7 +254,7 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                   />
                   <Bar dataKey="count" fill="#06b6d4" radius={[4, 4, 0, 0]}>
                     {groupedChartData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.count > 5 ? '#f59e0b' : '#06b6d4'} />
+                      <Cell key={`cell-${index}`} fill={entry.count > BUSY_CLASS_COUNT ? '#f59e0b' : '#06b6d4'} />
                     ))}
                   </Bar>
                 </BarChart>
@@ -306,11 +291,25 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
                   </li>
                 ))}
               </ul>
-            ) : (
+            ) : ongoingEvents.length === 0 ? (
               <div className="p-4 bg-green-950/20 border border-green-900/30 rounded-lg text-green-300 flex items-center gap-2">
                 <ShieldCheck className="w-5 h-5" />
                 No significant violations detected.
               </div>
+            ) : null}
+
+            {ongoingEvents.length > 0 && (
+              <div className="mt-3">
+                <div className="text-xs text-slate-500 uppercase tracking-wider mb-2">Ongoing ({ongoingEvents.length})</div>
+                <ul className="space-y-1">
+                  {ongoingEvents.map(e => (
+                    <li key={e.id} className="flex items-center justify-between gap-2 px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded text-xs">
+                      <span className="text-slate-300">{e.type} <span className="text-slate-500">#{e.trackId}</span></span>
+                      <span className="text-slate-500 font-mono">{e.frames} frames · {Math.round((e.lastSeenAt - e.startedAt) / 1000)}s · {e.severity}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
             )}
           </div>
         </div>
@@ -357,6 +356,76 @@ export const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ data, histor
   );
 };
 
+const LineCountsPanel = ({ crossings, lines }: { crossings: LineCrossing[], lines: Zone[] }) => {
+  const [intervalMs, setIntervalMs] = useState(COUNT_INTERVALS[2].ms);
+  const rows = aggregateCrossings(crossings, lines, intervalMs);
+  const classes = countedClasses(rows);
+
+  const handleExport = () => {
+    downloadText(countsToCsv(rows, intervalMs), `multi-ai-agent-counts-${Date.now()}.csv`, 'text/csv');
+  };
+
+  return (
+    <div className="bg-slate-800 p-6 rounded-xl border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+        <h3 className="text-lg font-semibold text-slate-200 flex items-center gap-2">
+          <Split className="w-5 h-5 text-lime-400" />
+          Directional Counts
+          <span className="text-xs font-normal text-slate-500">{crossings.length} crossings</span>
+        </h3>
+        <div className="flex items-center gap-2">
+          <select
+            value={intervalMs}
+            onChange={e => setIntervalMs(Number(e.target.value))}
+            className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 focus:outline-none focus:border-cyan-500"
+          >
+            {COUNT_INTERVALS.map(i => <option key={i.ms} value={i.ms}>{i.label}</option>)}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={rows.length === 0}
+            className="px-3 py-1 rounded text-xs text-slate-300 border border-slate-700 hover:bg-slate-700 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Download className="w-3 h-3" /> CSV
+          </button>
+        </div>
+      </div>
+
+      {rows.length > 0 ? (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left text-slate-400">
+            <thead className="text-xs text-slate-200 uppercase bg-slate-900/50">
+              <tr>
+                <th className="px-3 py-2">Interval</th>
+                <th className="px-3 py-2">Line</th>
+                <th className="px-3 py-2">Direction</th>
+                {classes.map(c => <th key={c} className="px-3 py-2 text-right">{c}</th>)}
+                <th className="px-3 py-2 text-right">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={`${row.intervalStart}-${row.lineId}-${row.direction}`} className="border-b border-slate-700">
+                  <td className="px-3 py-2 font-mono text-xs">
+                    {new Date(row.intervalStart).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    –{new Date(row.intervalStart + intervalMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </td>
+                  <td className="px-3 py-2 text-slate-300">{row.lineName}</td>
+                  <td className="px-3 py-2">{row.directionLabel}</td>
+                  {classes.map(c => <td key={c} className="px-3 py-2 text-right font-mono">{row.byClass[c] || 0}</td>)}
+                  <td className="px-3 py-2 text-right font-mono font-bold text-white">{row.total}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : (
+        <p className="text-sm text-slate-500">No tracked vehicle has crossed a counting line yet.</p>
+      )}
+    </div>
+  );
+};
+
 const ActivityIcon = ({ score }: { score: number }) => {
   if (score > 75) return <TrendingUp className="w-5 h-5 text-red-500" />;
   if (score > 40) return <TrendingUp className="w-5 h-5 text-orange-500" />;
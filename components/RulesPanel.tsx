@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Gauge, X, Save, RotateCcw } from 'lucide-react';
+import { Severity, ViolationRules } from '../types';
+import { DEFAULT_RULES, validateRules } from '../services/rulesService';
+
+interface RulesPanelProps {
+  sourceLabel: string;
+  rules: ViolationRules;
+  onSave: (rules: ViolationRules) => void;
+  onClose: () => void;
+}
+
+const SEVERITIES: Severity[] = ['Low', 'Medium', 'High'];
+
+const NumberField = ({ label, unit, value, step = 1, onChange }: { label: string, unit: string, value: number, step?: number, onChange: (value: number) => void }) => (
+  <label className="block">
+    <span className="text-xs text-slate-400">{label}</span>
+    <div className="mt-1 flex items-center gap-2">
+      <input
+        type="number"
+        step={step}
+        value={value}
+        onChange={e => onChange(Number(e.target.value))}
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm font-mono text-slate-200 focus:outline-none focus:border-cyan-500"
+      />
+      <span className="text-xs text-slate-500 w-16 shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+const SeverityField = ({ label, value, onChange }: { label: string, value: Severity, onChange: (value: Severity) => void }) => (
+  <label className="block">
+    <span className="text-xs text-slate-400">{label}</span>
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value as Severity)}
+      className="mt-1 w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-200 focus:outline-none focus:border-cyan-500"
+    >
+      {SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+    </select>
+  </label>
+);
+
+export const RulesPanel: React.FC<RulesPanelProps> = ({ sourceLabel, rules, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ViolationRules>(rules);
+  const error = validateRules(draft);
+
+  const update = (patch: Partial<ViolationRules>) => setDraft({ ...draft, ...patch });
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <div>
+            <h3 className="font-bold text-white flex items-center gap-2">
+              <Gauge className="w-5 h-5 text-cyan-400" /> Violation Rules
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">{sourceLabel}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-5">
+          <section className="space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Speeding</p>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField label="Speed limit" unit="km/h" value={draft.speedLimit} onChange={speedLimit => update({ speedLimit })} />
+              <NumberField label="Tolerance" unit="km/h" value={draft.speedTolerance} onChange={speedTolerance => update({ speedTolerance })} />
+              <NumberField
+                label="Medium severity from"
+                unit="km/h over"
+                value={draft.speedingSeverity.medium}
+                onChange={medium => update({ speedingSeverity: { ...draft.speedingSeverity, medium } })}
+              />
+              <NumberField
+                label="High severity from"
+                unit="km/h over"
+                value={draft.speedingSeverity.high}
+                onChange={high => update({ speedingSeverity: { ...draft.speedingSeverity, high } })}
+              />
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Wrong Way</p>
+            <label className="flex items-center gap-2 text-sm text-slate-300">
+              <input
+                type="checkbox"
+                checked={draft.wrongWayEnabled}
+                onChange={e => update({ wrongWayEnabled: e.target.checked })}
+                className="accent-cyan-500"
+              />
+              Flag vehicles moving against their lane's direction (or the dominant flow when no lanes are drawn)
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField
+                label="Minimum movement"
+                unit="% frame"
+                step={0.1}
+                value={Math.round(draft.wrongWayMinMotion * 1000) / 10}
+                onChange={value => update({ wrongWayMinMotion: value / 100 })}
+              />
+              <SeverityField label="Severity" value={draft.wrongWaySeverity} onChange={wrongWaySeverity => update({ wrongWaySeverity })} />
+            </div>
+          </section>
+
+          <section className="space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Zone Violations</p>
+            <div className="grid grid-cols-3 gap-3">
+              <SeverityField label="Red light" value={draft.redLightSeverity} onChange={redLightSeverity => update({ redLightSeverity })} />
+              <SeverityField label="Jaywalking" value={draft.jaywalkingSeverity} onChange={jaywalkingSeverity => update({ jaywalkingSeverity })} />
+              <SeverityField label="No entry" value={draft.noEntrySeverity} onChange={noEntrySeverity => update({ noEntrySeverity })} />
+            </div>
+            <p className="text-[10px] text-slate-500">Evaluated against the stop lines, lanes, crosswalks and no-entry zones drawn with Zones.</p>
+          </section>
+
+          <section className="space-y-3">
+            <p className="text-xs text-slate-500 uppercase tracking-wider">Confirmation</p>
+            <div className="grid grid-cols-2 gap-3">
+              <NumberField label="Minimum track age" unit="frames" value={draft.minTrackAge} onChange={minTrackAge => update({ minTrackAge })} />
+              <NumberField label="Consecutive frames" unit="frames" value={draft.minConsecutiveFrames} onChange={minConsecutiveFrames => update({ minConsecutiveFrames })} />
+            </div>
+          </section>
+
+          {error && <div className="text-xs p-3 rounded-lg border border-red-900/50 bg-red-950/20 text-red-300">{error}</div>}
+        </div>
+
+        <div className="flex justify-between gap-3 p-5 border-t border-slate-800">
+          <button
+            onClick={() => setDraft(DEFAULT_RULES)}
+            className="px-4 py-2 rounded-lg text-slate-300 border border-slate-700 hover:bg-slate-800 text-sm flex items-center gap-2"
+          >
+            <RotateCcw className="w-4 h-4" /> Defaults
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!!error}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
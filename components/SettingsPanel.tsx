@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Server, X, CheckCircle2, XCircle, Loader2, Save } from 'lucide-react';
+import { BackendConfig, BackendHealth, BackendProfile, PROFILE_LABELS, PROFILE_URLS, checkBackendHealth, resolveBackendUrl } from '../services/configService';
+
+interface SettingsPanelProps {
+  config: BackendConfig;
+  onSave: (config: BackendConfig) => void;
+  onClose: () => void;
+}
+
+const PROFILES: BackendProfile[] = ['production', 'staging', 'local', 'custom'];
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ config, onSave, onClose }) => {
+  const [draft, setDraft] = useState<BackendConfig>(config);
+  const [testResult, setTestResult] = useState<BackendHealth | null>(null);
+
+  const draftUrl = resolveBackendUrl(draft);
+
+  const handleTest = async () => {
+    setTestResult({ state: 'checking', url: draftUrl });
+    setTestResult(await checkBackendHealth(draftUrl));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/60 backdrop-blur-sm flex items-center justify-center p-4 animate-fadeIn">
+      <div className="w-full max-w-lg bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl">
+        <div className="flex items-center justify-between p-5 border-b border-slate-800">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Server className="w-5 h-5 text-cyan-400" /> Backend Settings
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white p-1">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-3">
+          <p className="text-xs text-slate-500 uppercase tracking-wider">Environment Profile</p>
+          {PROFILES.map(profile => (
+            <label
+              key={profile}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${draft.profile === profile ? 'border-cyan-500/60 bg-cyan-950/20' : 'border-slate-700 hover:border-slate-600'}`}
+            >
+              <input
+                type="radio"
+                name="backend-profile"
+                checked={draft.profile === profile}
+                onChange={() => { setDraft({ ...draft, profile }); setTestResult(null); }}
+                className="mt-1 accent-cyan-500"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-slate-200">{PROFILE_LABELS[profile]}</div>
+                {profile === 'custom' ? (
+                  <input
+                    type="url"
+                    value={draft.customUrl}
+                    placeholder="http://192.168.1.20:8080"
+                    onChange={e => { setDraft({ ...draft, profile: 'custom', customUrl: e.target.value }); setTestResult(null); }}
+                    className="mt-2 w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-cyan-500"
+                  />
+                ) : (
+                  <div className="text-xs font-mono text-slate-500 truncate">{PROFILE_URLS[profile] || 'Not configured'}</div>
+                )}
+              </div>
+            </label>
+          ))}
+
+          <p className="text-xs text-slate-500 uppercase tracking-wider pt-2">Admin Token</p>
+          <input
+            type="password"
+            value={draft.adminToken}
+            placeholder="The backend's ADMIN_TOKEN (optional)"
+            onChange={e => setDraft({ ...draft, adminToken: e.target.value })}
+            className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-200 focus:outline-none focus:border-cyan-500"
+          />
+          <p className="text-xs text-slate-500">Needed to change the alert webhook, the agents' prompts and backend streams.</p>
+
+          {testResult && (
+            <div className={`text-xs p-3 rounded-lg border flex items-center gap-2 ${
+              testResult.state === 'online' ? 'border-green-900/50 bg-green-950/20 text-green-300' :
+              testResult.state === 'offline' ? 'border-red-900/50 bg-red-950/20 text-red-300' :
+              'border-slate-700 text-slate-400'
+            }`}>
+              {testResult.state === 'checking' && <Loader2 className="w-4 h-4 animate-spin" />}
+              {testResult.state === 'online' && <CheckCircle2 className="w-4 h-4" />}
+              {testResult.state === 'offline' && <XCircle className="w-4 h-4" />}
+              <span>
+                {testResult.state === 'checking' ? 'Checking…' : `${testResult.message}${testResult.latencyMs !== undefined ? ` (${testResult.latencyMs} ms)` : ''}`}
+              </span>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-3 p-5 border-t border-slate-800">
+          <button
+            onClick={handleTest}
+            disabled={!draftUrl || testResult?.state === 'checking'}
+            className="px-4 py-2 rounded-lg text-slate-300 border border-slate-700 hover:bg-slate-800 text-sm disabled:opacity-50"
+          >
+            Test Connection
+          </button>
+          <button
+            onClick={() => onSave(draft)}
+            disabled={!draftUrl}
+            className="px-4 py-2 bg-cyan-600 hover:bg-cyan-500 text-white rounded-lg text-sm font-bold flex items-center gap-2 disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" /> Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useState } from 'react';
+import { Check, X, Trash2, ArrowLeftRight } from 'lucide-react';
+import { Zone, ZoneKind } from '../types';
+import { DEFAULT_DIRECTION_LABELS, ZONE_COLORS, ZONE_LABELS, isLineKind, lineNormal, normalize } from '../services/zoneService';
+
+interface ZoneEditorProps {
+  zones: Zone[];
+  editing: boolean;
+  onChange: (zones: Zone[]) => void;
+  onClose: () => void;
+}
+
+type Point = [number, number];
+
+const TOOLS: ZoneKind[] = ['lane', 'stopLine', 'crosswalk', 'noEntry', 'countLine'];
+// Clicking this close to the first vertex closes a polygon
+const CLOSE_DISTANCE = 0.02;
+const ARROW_LENGTH = 0.08;
+
+const centroidOf = (points: Point[]): Point => [
+  points.reduce((sum, p) => sum + p[0], 0) / points.length,
+  points.reduce((sum, p) => sum + p[1], 0) / points.length,
+];
+
+const toSvgPoints = (points: Point[]) => points.map(([x, y]) => `${x},${y}`).join(' ');
+
+// Lane direction arrow from the polygon centre
+const DirectionArrow = ({ from, direction, color }: { from: Point, direction: Point, color: string }) => {
+  const [dx, dy] = direction;
+  const tip: Point = [from[0] + dx * ARROW_LENGTH, from[1] + dy * ARROW_LENGTH];
+  const head = 0.02;
+  const left: Point = [tip[0] - dx * head - dy * head * 0.6, tip[1] - dy * head + dx * head * 0.6];
+  const right: Point = [tip[0] - dx * head + dy * head * 0.6, tip[1] - dy * head - dx * head * 0.6];
+  return (
+    <g>
+      <line x1={from[0]} y1={from[1]} x2={tip[0]} y2={tip[1]} stroke={color} strokeWidth={3} vectorEffect="non-scaling-stroke" />
+      <polygon points={toSvgPoints([tip, left, right])} fill={color} />
+    </g>
+  );
+};
+
+const ZoneShape: React.FC<{ zone: Zone, selected: boolean }> = ({ zone, selected }) => {
+  const color = ZONE_COLORS[zone.kind];
+  const strokeWidth = selected ? 3 : 1.5;
+
+  if (zone.kind === 'stopLine') {
+    const [[x1, y1], [x2, y2]] = zone.points;
+    return <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={selected ? 5 : 4} vectorEffect="non-scaling-stroke" />;
+  }
+
+  if (zone.kind === 'countLine') {
+    // Arrow marks the forward crossing direction
+    const [[x1, y1], [x2, y2]] = zone.points;
+    const mid: Point = [(x1 + x2) / 2, (y1 + y2) / 2];
+    return (
+      <g>
+        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={selected ? 4 : 3} strokeDasharray="8 4" vectorEffect="non-scaling-stroke" />
+        <DirectionArrow from={mid} direction={lineNormal(zone)} color={color} />
+      </g>
+    );
+  }
+
+  return (
+    <g>
+      <polygon
+        points={toSvgPoints(zone.points)}
+        fill={color}
+        fillOpacity={zone.kind === 'lane' ? 0.08 : 0.18}
+        stroke={color}
+        strokeWidth={strokeWidth}
+        strokeDasharray={zone.kind === 'noEntry' ? '6 4' : undefined}
+        vectorEffect="non-scaling-stroke"
+      />
+      {zone.kind === 'lane' && zone.direction && (
+        <DirectionArrow from={centroidOf(zone.points)} direction={zone.direction} color={color} />
+      )}
+    </g>
+  );
+};
+
+export const ZoneEditor: React.FC<ZoneEditorProps> = ({ zones, editing, onChange, onClose }) => {
+  const [tool, setTool] = useState<ZoneKind | null>(null);
+  const [draft, setDraft] = useState<Point[]>([]);
+  // Lanes are drawn in two steps: the polygon, then a start/end click for the direction
+  const [pendingLane, setPendingLane] = useState<Point[] | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const resetDraft = () => {
+    setDraft([]);
+    setPendingLane(null);
+  };
+
+  const selectTool = (kind: ZoneKind) => {
+    resetDraft();
+    setTool(tool === kind ? null : kind);
+  };
+
+  const addZone = (kind: ZoneKind, points: Point[], direction?: Point) => {
+    const count = zones.filter(z => z.kind === kind).length + 1;
+    const zone: Zone = { id: `${kind}-${Date.now().toString(36)}`, kind, name: `${ZONE_LABELS[kind]} ${count}`, points };
+    if (direction) zone.direction = direction;
+    if (kind === 'countLine') zone.directionLabels = DEFAULT_DIRECTION_LABELS;
+    onChange([...zones, zone]);
+    setSelectedId(zone.id);
+    resetDraft();
+  };
+
+  const finishPolygon = (points: Point[]) => {
+    if (!tool || points.length < 3) return;
+    if (tool === 'lane') {
+      setPendingLane(points);
+      setDraft([]);
+    } else {
+      addZone(tool, points);
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (!tool) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const point: Point = [(e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height];
+
+    if (pendingLane) {
+      if (draft.length === 0) {
+        setDraft([point]);
+        return;
+      }
+      const direction = normalize([point[0] - draft[0][0], point[1] - draft[0][1]]);
+      if (direction[0] !== 0 || direction[1] !== 0) addZone('lane', pendingLane, direction);
+      return;
+    }
+
+    if (isLineKind(tool)) {
+      if (draft.length === 1) addZone(tool, [draft[0], point]);
+      else setDraft([point]);
+      return;
+    }
+
+    if (draft.length >= 3 && Math.hypot(point[0] - draft[0][0], point[1] - draft[0][1]) < CLOSE_DISTANCE) {
+      finishPolygon(draft);
+      return;
+    }
+    setDraft([...draft, point]);
+  };
+
+  const updateZone = (id: string, patch: Partial<Zone>) =>
+    onChange(zones.map(z => (z.id === id ? { ...z, ...patch } : z)));
+
+  const removeZone = (id: string) => {
+    onChange(zones.filter(z => z.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const hint = !tool
+    ? 'Pick a tool to draw on the frame.'
+    : pendingLane
+      ? draft.length === 0 ? 'Click where traffic in this lane comes from…' : '…then where it goes.'
+      : isLineKind(tool)
+        ? draft.length === 0 ? `Click one end of the ${ZONE_LABELS[tool].toLowerCase()}.` : 'Click the other end.'
+        : draft.length < 3 ? `Click the corners of the ${ZONE_LABELS[tool].toLowerCase()}.` : 'Click the first corner or Finish to close.';
+
+  if (!editing && zones.length === 0) return null;
+
+  return (
+    <>
+      <svg
+        className={`absolute inset-0 w-full h-full ${editing ? `z-40 ${tool ? 'cursor-crosshair' : ''}` : 'z-[15] pointer-events-none'}`}
+        viewBox="0 0 1 1"
+        preserveAspectRatio="none"
+        onClick={editing ? handleClick : undefined}
+      >
+        {zones.map(zone => <ZoneShape key={zone.id} zone={zone} selected={editing && zone.id === selectedId} />)}
+
+        {pendingLane && (
+          <polygon points={toSvgPoints(pendingLane)} fill={ZONE_COLORS.lane} fillOpacity={0.15} stroke={ZONE_COLORS.lane} strokeWidth={2} vectorEffect="non-scaling-stroke" />
+        )}
+        {tool && draft.length > 0 && (
+          <polyline
+            points={toSvgPoints(draft)}
+            fill="none"
+            stroke={ZONE_COLORS[pendingLane ? 'lane' : tool]}
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+        {tool && draft.map(([x, y], i) => (
+          <ellipse key={i} cx={x} cy={y} rx={0.006} ry={0.01} fill="#fff" stroke={ZONE_COLORS[pendingLane ? 'lane' : tool]} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        ))}
+      </svg>
+
+      {editing && (
+        <div className="absolute top-3 left-3 z-50 w-64 bg-slate-900/95 border border-slate-700 rounded-xl shadow-2xl text-xs">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-slate-800">
+            <span className="font-bold text-white">Zones</span>
+            <button onClick={() => { resetDraft(); setTool(null); onClose(); }} className="text-slate-400 hover:text-white p-0.5">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+
+          <div className="p-3 space-y-3">
+            <div className="grid grid-cols-2 gap-1.5">
+              {TOOLS.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => selectTool(kind)}
+                  className={`px-2 py-1.5 rounded border flex items-center gap-1.5 ${tool === kind ? 'border-cyan-500 bg-cyan-500/10 text-white' : 'border-slate-700 text-slate-300 hover:bg-slate-800'}`}
+                >
+                  <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: ZONE_COLORS[kind] }} />
+                  {ZONE_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+
+            <p className="text-slate-400">{hint}</p>
+
+            {tool && !isLineKind(tool) && !pendingLane && draft.length > 0 && (
+              <div className="flex gap-2">
+                <button onClick={() => finishPolygon(draft)} disabled={draft.length < 3} className="px-2 py-1 bg-cyan-600 hover:bg-cyan-500 text-white rounded flex items-center gap-1 disabled:opacity-50">
+                  <Check className="w-3 h-3" /> Finish
+                </button>
+                <button onClick={resetDraft} className="px-2 py-1 rounded border border-slate-700 text-slate-300 hover:bg-slate-800">Cancel</button>
+              </div>
+            )}
+
+            {zones.length > 0 && (
+              <div className="space-y-1.5 max-h-48 overflow-y-auto border-t border-slate-800 pt-3">
+                {zones.map(zone => (
+                  <div
+                    key={zone.id}
+                    onClick={() => setSelectedId(zone.id)}
+                    className={`p-1.5 rounded border cursor-pointer ${zone.id === selectedId ? 'border-slate-500 bg-slate-800' : 'border-transparent hover:bg-slate-800/60'}`}
+                  >
+                    <div className="flex items-center gap-1.5">
+                      <span className="w-2.5 h-2.5 rounded-sm shrink-0" style={{ backgroundColor: ZONE_COLORS[zone.kind] }} />
+                      <input
+                        value={zone.name}
+                        onChange={e => updateZone(zone.id, { name: e.target.value })}
+                        className="flex-1 min-w-0 bg-transparent text-slate-200 focus:outline-none"
+                      />
+                      {zone.kind === 'lane' && zone.direction && (
+                        <button
+                          title="Reverse direction"
+                          onClick={() => updateZone(zone.id, { direction: [-zone.direction![0], -zone.direction![1]] })}
+                          className="text-slate-400 hover:text-white"
+                        >
+                          <ArrowLeftRight className="w-3 h-3" />
+                        </button>
+                      )}
+                      {zone.kind === 'countLine' && (
+                        <button
+                          title="Reverse direction"
+                          onClick={() => updateZone(zone.id, { points: [zone.points[1], zone.points[0]] })}
+                          className="text-slate-400 hover:text-white"
+                        >
+                          <ArrowLeftRight className="w-3 h-3" />
+                        </button>
+                      )}
+                      <button title="Delete" onClick={() => removeZone(zone.id)} className="text-slate-400 hover:text-red-400">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                    {zone.kind === 'lane' && zone.id === selectedId && (
+                      <label className="mt-1.5 flex items-center gap-2 text-slate-400">
+                        Speed limit
+                        <input
+                          type="number"
+                          placeholder="Rules"
+                          value={zone.speedLimit ?? ''}
+                          onChange={e => updateZone(zone.id, { speedLimit: e.target.value === '' ? undefined : Number(e.target.value) })}
+                          className="w-16 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 font-mono text-slate-200 focus:outline-none focus:border-cyan-500"
+                        />
+                        km/h
+                      </label>
+                    )}
+                    {zone.kind === 'countLine' && zone.id === selectedId && (
+                      <div className="mt-1.5 grid grid-cols-2 gap-1.5">
+                        {(zone.directionLabels || DEFAULT_DIRECTION_LABELS).map((label, i) => (
+                          <input
+                            key={i}
+                            title={i === 0 ? 'Arrow direction' : 'Against the arrow'}
+                            value={label}
+                            onChange={e => {
+                              const labels = [...(zone.directionLabels || DEFAULT_DIRECTION_LABELS)] as [string, string];
+                              labels[i] = e.target.value;
+                              updateZone(zone.id, { directionLabels: labels });
+                            }}
+                            className="min-w-0 bg-slate-950 border border-slate-700 rounded px-1.5 py-0.5 text-slate-200 focus:outline-none focus:border-cyan-500"
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,61 @@
+// baseline.ts — the scores a change is held to. eval/baseline.json keeps the
+// overall metrics of the last accepted run for each detector; a run regresses
+// when one of the headline metrics is worse than the baseline by more than its
+// tolerance.
+
+import fs from 'fs';
+import { fileURLToPath } from 'url';
+import { Metrics } from './metrics';
+
+export interface BaselineEntry {
+  recordedAt: string;
+  promptRevision?: number;
+  sequences: string[]; // The golden set the metrics were taken over
+  metrics: Metrics;
+}
+
+export type Baseline = Record<string, BaselineEntry>; // Detector name -> entry
+
+export interface Comparison {
+  label: string;
+  baseline: number;
+  current: number;
+  regressed: boolean;
+}
+
+interface Headline {
+  label: string;
+  value: (m: Metrics) => number;
+  higherIsBetter: boolean;
+  tolerance: number; // Absolute
+}
+
+export const BASELINE_FILE = fileURLToPath(new URL('./baseline.json', import.meta.url));
+
+const HEADLINES: Headline[] = [
+  { label: 'Detection precision', value: m => m.detection.precision, higherIsBetter: true, tolerance: 0.01 },
+  { label: 'Detection recall', value: m => m.detection.recall, higherIsBetter: true, tolerance: 0.01 },
+  { label: 'Vehicle count MAE', value: m => m.counts.vehicleMAE, higherIsBetter: false, tolerance: 0.1 },
+  { label: 'Pedestrian count MAE', value: m => m.counts.pedestrianMAE, higherIsBetter: false, tolerance: 0.1 },
+  { label: 'MOTA', value: m => m.tracking.mota, higherIsBetter: true, tolerance: 0.01 },
+  { label: 'ID switches', value: m => m.tracking.idSwitches, higherIsBetter: false, tolerance: 0 },
+  { label: 'Violation accuracy', value: m => m.violations.accuracy, higherIsBetter: true, tolerance: 0.01 },
+];
+
+export const readBaseline = (file = BASELINE_FILE): Baseline =>
+  fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf8')) : {};
+
+export const writeBaselineEntry = (detector: string, entry: BaselineEntry, file = BASELINE_FILE) => {
+  const baseline = { ...readBaseline(file), [detector]: entry };
+  const sorted = Object.fromEntries(Object.keys(baseline).sort().map(key => [key, baseline[key]]));
+  fs.writeFileSync(file, JSON.stringify(sorted, null, 2) + '\n');
+};
+
+export const compareToBaseline = (entry: BaselineEntry, metrics: Metrics): Comparison[] =>
+  HEADLINES.map(({ label, value, higherIsBetter, tolerance }) => {
+    const baseline = value(entry.metrics);
+    const current = value(metrics);
+    const worseBy = higherIsBetter ? baseline - current : current - baseline;
+    // Rounding keeps float noise from failing a run that matches the baseline
+    return { label, baseline, current, regressed: Math.round((worseBy - tolerance) * 1e9) > 0 };
+  });
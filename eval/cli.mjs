@@ -0,0 +1,22 @@
+// Entry point of `npm run eval`. The harness imports the app's TypeScript
+// services, so it is loaded through Vite's SSR module loader — the same
+// transforms and aliases the app is built with — rather than compiled first.
+
+import { createServer } from 'vite';
+
+const server = await createServer({
+  appType: 'custom',
+  logLevel: 'error',
+  server: { middlewareMode: true, hmr: false, watch: null },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+try {
+  const { main } = await server.ssrLoadModule('/eval/run.ts');
+  process.exitCode = await main(process.argv.slice(2));
+} catch (err) {
+  console.error(err.message);
+  process.exitCode = 1;
+} finally {
+  await server.close();
+}
@@ -0,0 +1,97 @@
+// golden.ts — the labelled frames the evaluation scores against. Each sequence
+// is a directory under eval/golden holding its frames and a sequence.json whose
+// labels use the app's own shapes (DetectionItem, Violation, Zone), so a result
+// and its ground truth can be compared field by field. A single still is a
+// one-frame sequence.
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { DetectionItem, TrafficAnalysis, Violation, ViolationRules, Zone } from '../types';
+
+export interface GoldenFrame {
+  image: string; // File name within the sequence directory
+  capturedAt: number; // ms; drives the tracker's elapsed time between frames
+  // Every road user in view. box_2d is required, and trackId is the labelled
+  // identity: the same road user keeps it on every frame it appears in
+  detections: DetectionItem[];
+  counts: Pick<TrafficAnalysis, 'totalVehicles' | 'pedestrianCount'>;
+  // Violations starting on this frame. A trackId names the offending road user
+  // (the tracker must flag that identity at some point in the sequence); without
+  // one the violation is scene-level and must be reported on this frame.
+  violations: Violation[];
+}
+
+export interface GoldenSequence {
+  name: string; // The directory name
+  description?: string;
+  zones?: Zone[]; // Loaded into the tracker, as if drawn over the camera
+  rules?: Partial<ViolationRules>; // Over DEFAULT_RULES
+  frames: GoldenFrame[];
+}
+
+export interface LoadedFrame extends GoldenFrame {
+  data: string; // The image, base64
+  mimeType: string;
+}
+
+export interface LoadedSequence extends GoldenSequence {
+  frames: LoadedFrame[];
+}
+
+export const GOLDEN_DIR = fileURLToPath(new URL('./golden', import.meta.url));
+
+const MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.webp': 'image/webp',
+};
+
+// The first problem with a sequence's labels, or null
+const checkSequence = (sequence: GoldenSequence, dir: string): string | null => {
+  if (!Array.isArray(sequence.frames) || sequence.frames.length === 0) return 'no frames';
+  for (const [i, frame] of sequence.frames.entries()) {
+    const where = `frame ${i} (${frame.image})`;
+    if (!MIME_TYPES[path.extname(frame.image || '').toLowerCase()]) return `${where}: image must be a .jpg, .png or .webp file`;
+    if (!fs.existsSync(path.join(dir, frame.image))) return `${where}: image not found`;
+    if (typeof frame.capturedAt !== 'number') return `${where}: capturedAt must be a number`;
+    if (i > 0 && frame.capturedAt <= sequence.frames[i - 1].capturedAt) return `${where}: capturedAt must increase`;
+    if (!Array.isArray(frame.detections) || !Array.isArray(frame.violations) || !frame.counts) {
+      return `${where}: detections, counts and violations are required`;
+    }
+    const unlabelled = frame.detections.find(d => !Array.isArray(d.box_2d) || d.box_2d.length !== 4 || d.trackId === undefined);
+    if (unlabelled) return `${where}: every detection needs a box_2d and a trackId`;
+  }
+  return null;
+};
+
+/** Names of the sequences under `dir`, sorted. */
+export const listSequences = (dir = GOLDEN_DIR): string[] =>
+  fs.readdirSync(dir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory() && fs.existsSync(path.join(dir, entry.name, 'sequence.json')))
+    .map(entry => entry.name)
+    .sort();
+
+/** Reads a sequence with its images; throws when its labels are malformed. */
+export const loadSequence = (name: string, dir = GOLDEN_DIR): LoadedSequence => {
+  const sequenceDir = path.join(dir, name);
+  const file = path.join(sequenceDir, 'sequence.json');
+  let sequence: GoldenSequence;
+  try {
+    sequence = { ...JSON.parse(fs.readFileSync(file, 'utf8')), name };
+  } catch (e) {
+    throw new Error(`Cannot read golden sequence ${file}: ${(e as Error).message}`);
+  }
+  const problem = checkSequence(sequence, sequenceDir);
+  if (problem) throw new Error(`Invalid golden sequence ${file}: ${problem}`);
+
+  return {
+    ...sequence,
+    frames: sequence.frames.map(frame => ({
+      ...frame,
+      data: fs.readFileSync(path.join(sequenceDir, frame.image)).toString('base64'),
+      mimeType: MIME_TYPES[path.extname(frame.image).toLowerCase()],
+    })),
+  };
+};
@@ -0,0 +1,189 @@
+// metrics.ts — scores tracked analyses against golden labels. A scorer walks a
+// sequence frame by frame, pairing labelled and detected road users by box
+// overlap, and keeps raw tallies; the rates are derived from the tallies, so
+// sequences can be added up before rates are taken (micro-averaged).
+//
+//   detection  precision / recall / F1 of boxes matched at IoU >= 0.5, same track class
+//   counts     mean absolute error of the analysis' vehicle and pedestrian counts
+//   tracking   CLEAR-MOT: MOTA = 1 - (misses + false positives + ID switches) / labelled boxes
+//   violations reported violations against labelled ones, by type and offending road user
+//              (and, for those, severity: it shows which limit a speed was held to)
+
+import { DetectionItem, FullAnalysisResult, Violation } from '../types';
+import { classifyDetection } from '../services/trackingService';
+import { solveAssignment } from '../services/hungarian';
+import { GoldenFrame, GoldenSequence } from './golden';
+
+export const MATCH_IOU = 0.5;
+
+export interface Tally {
+  frames: number;
+  labelled: number; // Labelled road-user boxes
+  detected: number; // Detected road-user boxes
+  matched: number;
+  iouSum: number; // Over matched pairs
+  vehicleCountError: number; // Sum of absolute errors
+  pedestrianCountError: number;
+  idSwitches: number;
+  identities: number; // Labelled road users
+  violationsLabelled: number;
+  violationsReported: number;
+  violationsMatched: number;
+}
+
+export interface Metrics {
+  detection: { precision: number; recall: number; f1: number; meanIoU: number; matched: number; missed: number; spurious: number };
+  counts: { vehicleMAE: number; pedestrianMAE: number };
+  tracking: { mota: number; idSwitches: number; identities: number };
+  violations: { precision: number; recall: number; accuracy: number; labelled: number; reported: number; matched: number };
+}
+
+export const emptyTally = (): Tally => ({
+  frames: 0, labelled: 0, detected: 0, matched: 0, iouSum: 0,
+  vehicleCountError: 0, pedestrianCountError: 0, idSwitches: 0, identities: 0,
+  violationsLabelled: 0, violationsReported: 0, violationsMatched: 0,
+});
+
+export const addTallies = (a: Tally, b: Tally): Tally => {
+  const sum = emptyTally();
+  (Object.keys(sum) as (keyof Tally)[]).forEach(key => {
+    sum[key] = a[key] + b[key];
+  });
+  return sum;
+};
+
+// A rate with nothing to measure is perfect: no labels means nothing was missed
+const rate = (count: number, total: number) => (total === 0 ? 1 : count / total);
+
+export const toMetrics = (t: Tally): Metrics => {
+  const precision = rate(t.matched, t.detected);
+  const recall = rate(t.matched, t.labelled);
+  const missed = t.labelled - t.matched;
+  const spurious = t.detected - t.matched;
+  const violationErrors = t.violationsLabelled + t.violationsReported - 2 * t.violationsMatched;
+  return {
+    detection: {
+      precision,
+      recall,
+      f1: precision + recall === 0 ? 0 : (2 * precision * recall) / (precision + recall),
+      meanIoU: t.matched === 0 ? 0 : t.iouSum / t.matched,
+      matched: t.matched,
+      missed,
+      spurious,
+    },
+    counts: {
+      vehicleMAE: t.frames === 0 ? 0 : t.vehicleCountError / t.frames,
+      pedestrianMAE: t.frames === 0 ? 0 : t.pedestrianCountError / t.frames,
+    },
+    tracking: {
+      // Can go below 0 when there are more errors than labelled boxes
+      mota: t.labelled === 0 ? (spurious === 0 ? 1 : 0) : 1 - (missed + spurious + t.idSwitches) / t.labelled,
+      idSwitches: t.idSwitches,
+      identities: t.identities,
+    },
+    violations: {
+      precision: rate(t.violationsMatched, t.violationsReported),
+      recall: rate(t.violationsMatched, t.violationsLabelled),
+      // Matched over everything either side got wrong or right: 1 only for an exact match
+      accuracy: rate(t.violationsMatched, t.violationsMatched + violationErrors),
+      labelled: t.violationsLabelled,
+      reported: t.violationsReported,
+      matched: t.violationsMatched,
+    },
+  };
+};
+
+export const boxIoU = (a: number[], b: number[]): number => {
+  // [ymin, xmin, ymax, xmax]
+  const height = Math.min(a[2], b[2]) - Math.max(a[0], b[0]);
+  const width = Math.min(a[3], b[3]) - Math.max(a[1], b[1]);
+  if (height <= 0 || width <= 0) return 0;
+  const intersection = height * width;
+  const area = (box: number[]) => (box[2] - box[0]) * (box[3] - box[1]);
+  return intersection / (area(a) + area(b) - intersection);
+};
+
+// Only what the tracker follows is scored; traffic lights and the like are not labelled
+const roadUsers = (detections: DetectionItem[]) => detections.filter(d => d.box_2d && classifyDetection(d) !== null);
+
+const violationKey = (trackId: number, type: Violation['type']) => `${trackId}:${type}`;
+
+/**
+ * Scores one sequence. Feed it every frame's tracked result in order; a
+ * labelled road user keeps the track it was last matched to while the boxes
+ * still overlap, and is counted as an ID switch when it is matched to another.
+ */
+export class SequenceScorer {
+  private tally = emptyTally();
+  private lastTrackOf = new Map<number, number>(); // Labelled identity -> track it was last matched to
+  private identities = new Set<number>();
+  private labelledViolations: Map<string, Violation['severity']>; // Tracked violations anywhere in the sequence
+  private matchedViolations = new Set<string>();
+
+  constructor(sequence: GoldenSequence) {
+    this.labelledViolations = new Map(
+      sequence.frames.flatMap(f =>
+        f.violations.filter(v => v.trackId !== undefined).map(v => [violationKey(v.trackId!, v.type), v.severity] as const)
+      )
+    );
+    this.tally.violationsLabelled = this.labelledViolations.size;
+  }
+
+  public add(frame: GoldenFrame, result: FullAnalysisResult) {
+    const t = this.tally;
+    const truth = roadUsers(frame.detections);
+    const detected = roadUsers(result.detections);
+    t.frames += 1;
+    t.labelled += truth.length;
+    t.detected += detected.length;
+    t.vehicleCountError += Math.abs(result.analysis.totalVehicles - frame.counts.totalVehicles);
+    t.pedestrianCountError += Math.abs(result.analysis.pedestrianCount - frame.counts.pedestrianCount);
+    truth.forEach(d => this.identities.add(d.trackId!));
+
+    // Continuing a labelled identity's previous track is preferred over any better-overlapping newcomer
+    const ious = truth.map(gt => detected.map(det => (classifyDetection(gt) === classifyDetection(det) ? boxIoU(gt.box_2d!, det.box_2d!) : 0)));
+    const cost = truth.map((gt, i) =>
+      detected.map((det, j) => {
+        if (ious[i][j] < MATCH_IOU) return Infinity;
+        return det.trackId !== undefined && this.lastTrackOf.get(gt.trackId!) === det.trackId ? -1 : 1 - ious[i][j];
+      })
+    );
+    const identityOfTrack = new Map<number, number>();
+    solveAssignment(cost, 1 - MATCH_IOU).forEach((j, i) => {
+      if (j === -1) return;
+      t.matched += 1;
+      t.iouSum += ious[i][j];
+      const identity = truth[i].trackId!;
+      const track = detected[j].trackId;
+      if (track === undefined) return;
+      const previous = this.lastTrackOf.get(identity);
+      if (previous !== undefined && previous !== track) t.idSwitches += 1;
+      this.lastTrackOf.set(identity, track);
+      identityOfTrack.set(track, identity);
+    });
+
+    // Tracked violations count once per labelled road user and type, on whichever frame they are reported,
+    // and only at the labelled severity
+    const sceneLabels = frame.violations.filter(v => v.trackId === undefined).map(v => v.type);
+    t.violationsLabelled += sceneLabels.length;
+    result.analysis.detectedViolations.forEach(v => {
+      t.violationsReported += 1;
+      if (v.trackId === undefined) {
+        const index = sceneLabels.indexOf(v.type);
+        if (index === -1) return;
+        sceneLabels.splice(index, 1);
+        t.violationsMatched += 1;
+        return;
+      }
+      const identity = identityOfTrack.get(v.trackId);
+      const key = identity === undefined ? null : violationKey(identity, v.type);
+      if (!key || this.labelledViolations.get(key) !== v.severity || this.matchedViolations.has(key)) return;
+      this.matchedViolations.add(key);
+      t.violationsMatched += 1;
+    });
+  }
+
+  public result(): Tally {
+    return { ...this.tally, identities: this.identities.size };
+  }
+}
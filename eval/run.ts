@@ -0,0 +1,153 @@
+// run.ts — the `npm run eval` command: runs the golden set through a detector,
+// prints the scores per sequence and overall, and checks them against the
+// detector's baseline. Resolves to the process exit code: 1 on a regression.
+
+import fs from 'fs';
+import { parseArgs } from 'util';
+import { GOLDEN_DIR, listSequences, loadSequence } from './golden';
+import { Metrics, addTallies, emptyTally, toMetrics } from './metrics';
+import { Detector, SequenceRun, createNoisyLabelsDetector, createPipelineDetector, labelDetector, runSequence } from './runner';
+import { compareToBaseline, readBaseline, writeBaselineEntry } from './baseline';
+
+const USAGE = `Usage: npm run eval -- [options]
+
+  --provider <name>   Model provider the agents run on (default: mock)
+  --prompts <file>    Prompt store to take the agents' prompts from, e.g. backend/data/prompts.json
+                      (default: the built-in prompts)
+  --detector <name>   Score a stand-in for the agents instead:
+                        labels        the labelled boxes, to score the tracker and
+                                      violation rules alone
+                        labels-noisy  the agents on the mock, with the labelled boxes plus
+                                      noise in place of the mock's random ones
+  --sequence <name>   Only run this sequence (repeatable); skips the baseline check
+  --report <file>     Also write the full report as JSON
+  --update-baseline   Record this run as the detector's baseline
+  --help`;
+
+export interface EvaluationReport {
+  createdAt: string;
+  detector: string;
+  promptRevision?: number;
+  sequences: { name: string; frames: number; metrics: Metrics }[];
+  overall: Metrics;
+}
+
+const fixed = (digits: number) => (n: number) => n.toFixed(digits);
+
+const COLUMNS: { title: string; value: (m: Metrics) => number; format: (n: number) => string }[] = [
+  { title: 'Prec', value: m => m.detection.precision, format: fixed(3) },
+  { title: 'Recall', value: m => m.detection.recall, format: fixed(3) },
+  { title: 'F1', value: m => m.detection.f1, format: fixed(3) },
+  { title: 'IoU', value: m => m.detection.meanIoU, format: fixed(2) },
+  { title: 'Veh MAE', value: m => m.counts.vehicleMAE, format: fixed(2) },
+  { title: 'Ped MAE', value: m => m.counts.pedestrianMAE, format: fixed(2) },
+  { title: 'MOTA', value: m => m.tracking.mota, format: fixed(3) },
+  { title: 'IDSW', value: m => m.tracking.idSwitches, format: String },
+  { title: 'Viol acc', value: m => m.violations.accuracy, format: fixed(3) },
+];
+
+const printTable = (rows: { name: string; frames: number; metrics: Metrics }[]) => {
+  const nameWidth = Math.max(8, ...rows.map(r => r.name.length));
+  const cells = (name: string, frames: string, values: string[]) =>
+    [name.padEnd(nameWidth), frames.padStart(6), ...values.map((v, i) => v.padStart(Math.max(7, COLUMNS[i].title.length)))].join('  ');
+  console.log(cells('Sequence', 'Frames', COLUMNS.map(c => c.title)));
+  rows.forEach(({ name, frames, metrics }) => console.log(cells(name, String(frames), COLUMNS.map(c => c.format(c.value(metrics))))));
+};
+
+const printDetails = (overall: Metrics) => {
+  const { detection, tracking, violations } = overall;
+  console.log(`\nBoxes: ${detection.matched} matched, ${detection.missed} missed, ${detection.spurious} spurious`);
+  console.log(`Tracking: ${tracking.identities} labelled road users, ${tracking.idSwitches} ID switches`);
+  console.log(`Violations: ${violations.matched} of ${violations.labelled} labelled reported, ${violations.reported} reported in all`);
+};
+
+export const main = async (argv: string[]): Promise<number> => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      provider: { type: 'string', default: 'mock' },
+      prompts: { type: 'string' },
+      detector: { type: 'string' },
+      sequence: { type: 'string', multiple: true },
+      report: { type: 'string' },
+      'update-baseline': { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  const available = listSequences();
+  const names = values.sequence || available;
+  const unknown = names.filter(name => !available.includes(name));
+  if (unknown.length > 0) throw new Error(`No golden sequence ${unknown.join(', ')} in ${GOLDEN_DIR}. Available: ${available.join(', ')}`);
+  const subset = names.length < available.length;
+  if (subset && values['update-baseline']) throw new Error('The baseline covers the whole golden set; drop --sequence to update it.');
+
+  const detectors: Record<string, () => Detector> = {
+    labels: () => labelDetector,
+    'labels-noisy': () => createNoisyLabelsDetector(values.prompts),
+  };
+  if (values.detector !== undefined && !detectors[values.detector]) {
+    throw new Error(`Unknown detector ${values.detector}. Available: ${Object.keys(detectors).join(', ')}`);
+  }
+  const detector = values.detector ? detectors[values.detector]() : createPipelineDetector(values.provider!, values.prompts);
+  const revision = detector.promptRevision !== undefined ? `, prompts rev ${detector.promptRevision}` : '';
+  console.log(`Evaluating ${names.length} sequence(s) with ${detector.name}${revision}\n`);
+
+  // Progress goes on one overwritten line, and only to a terminal
+  const progress = (line: string) => process.stdout.isTTY && process.stdout.write(`\r\x1b[K${line}`);
+  const runs: SequenceRun[] = [];
+  for (const name of names) {
+    const sequence = loadSequence(name);
+    runs.push(await runSequence(sequence, detector, index => progress(`${name}: frame ${index + 1}/${sequence.frames.length}`)));
+  }
+  progress('');
+
+  const report: EvaluationReport = {
+    createdAt: new Date().toISOString(),
+    detector: detector.name,
+    promptRevision: detector.promptRevision,
+    sequences: runs.map(run => ({ name: run.name, frames: run.frames, metrics: toMetrics(run.tally) })),
+    overall: toMetrics(runs.reduce((total, run) => addTallies(total, run.tally), emptyTally())),
+  };
+  const frames = runs.reduce((n, run) => n + run.frames, 0);
+  printTable([...report.sequences, { name: 'Overall', frames, metrics: report.overall }]);
+  printDetails(report.overall);
+  if (values.report) {
+    fs.writeFileSync(values.report, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nReport written to ${values.report}`);
+  }
+
+  if (values['update-baseline']) {
+    writeBaselineEntry(detector.name, { recordedAt: report.createdAt, promptRevision: report.promptRevision, sequences: names, metrics: report.overall });
+    console.log(`\nBaseline for ${detector.name} updated.`);
+    return 0;
+  }
+  if (subset) return 0;
+
+  const entry = readBaseline()[detector.name];
+  if (!entry) {
+    console.log(`\nNo baseline for ${detector.name}; run with --update-baseline to record one.`);
+    return 0;
+  }
+  if (entry.sequences.join() !== names.join()) {
+    console.log(`\nThe golden set changed since the ${detector.name} baseline was recorded; run with --update-baseline to re-record it.`);
+    return 0;
+  }
+  const comparisons = compareToBaseline(entry, report.overall);
+  const regressions = comparisons.filter(c => c.regressed);
+  const promptNote = entry.promptRevision !== undefined ? `, prompts rev ${entry.promptRevision}` : '';
+  console.log(`\nAgainst the baseline of ${entry.recordedAt}${promptNote}:`);
+  comparisons.forEach(c => {
+    const digits = Number.isInteger(c.baseline) && Number.isInteger(c.current) ? 0 : 3;
+    console.log(`  ${c.regressed ? 'WORSE' : 'ok   '}  ${c.label.padEnd(22)} ${c.baseline.toFixed(digits).padStart(8)} -> ${c.current.toFixed(digits)}`);
+  });
+  if (regressions.length > 0) {
+    console.log(`\n${regressions.length} metric(s) regressed.`);
+    return 1;
+  }
+  return 0;
+};
@@ -0,0 +1,167 @@
+// runner.ts — plays golden sequences through the same stages as a monitored
+// camera: the backend's agent pipeline (loaded in-process, so no server has to
+// run) and the client's SourcePipeline, which tracks, flags tracking violations
+// and folds them into events. The tracked results are then scored.
+
+import { createRequire } from 'module';
+import { fileURLToPath } from 'url';
+import { DetectionItem, FullAnalysisResult } from '../types';
+import { SourcePipeline } from '../services/sourcePipeline';
+import { DEFAULT_RULES } from '../services/rulesService';
+import { LoadedFrame, LoadedSequence } from './golden';
+import { SequenceScorer, Tally } from './metrics';
+
+export interface Detector {
+  name: string; // e.g. "gemini/gemini-2.5-flash", "mock/mock-deterministic", "labels" or "labels-noisy"
+  promptRevision?: number;
+  analyse: (frame: LoadedFrame) => Promise<FullAnalysisResult>;
+}
+
+export interface SequenceRun {
+  name: string;
+  frames: number;
+  tally: Tally;
+}
+
+// Resolves backend modules and their dependencies from backend/
+const backend = createRequire(new URL('../backend/package.json', import.meta.url));
+
+// mulberry32, as the mock provider uses: the noise is the same on every run
+const createRng = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const BOX_JITTER = 0.08; // Of the box's size, per edge
+const MISS_RATE = 0.1;
+const SPURIOUS_RATE = 0.2; // Frames given a car that is not there
+
+const clampCoord = (n: number) => Math.min(1000, Math.max(0, Math.round(n)));
+
+/**
+ * What a fair but imperfect vision model might see on a frame: the labelled
+ * boxes with their edges moved a little, an occasional road user missed and
+ * an occasional car that is not there.
+ */
+const noisyDetections = (frame: LoadedFrame): DetectionItem[] => {
+  const rng = createRng(frame.capturedAt * 31 + frame.detections.length);
+  const detections = frame.detections
+    .filter(() => rng() >= MISS_RATE)
+    .map(({ trackId, ...d }): DetectionItem => {
+      const [ymin, xmin, ymax, xmax] = d.box_2d!;
+      const dy = () => (rng() * 2 - 1) * BOX_JITTER * (ymax - ymin);
+      const dx = () => (rng() * 2 - 1) * BOX_JITTER * (xmax - xmin);
+      return {
+        ...d,
+        confidence: 0.7 + Math.round(rng() * 29) / 100,
+        box_2d: [clampCoord(ymin + dy()), clampCoord(xmin + dx()), clampCoord(ymax + dy()), clampCoord(xmax + dx())],
+      };
+    });
+  if (rng() < SPURIOUS_RATE) {
+    const ymin = 350 + Math.round(rng() * 400);
+    const xmin = Math.round(rng() * 850);
+    detections.push({ object: 'car', count: 1, confidence: 0.6, type: 'vehicle', box_2d: [ymin, xmin, ymin + 75, xmin + 120] });
+  }
+  return detections;
+};
+
+// The provider (MODEL_PROVIDER names) and pipeline definition the server
+// would load, with the prompts of a prompt store file when given
+const loadPipeline = (providerName: string, promptStore?: string) => {
+  backend('dotenv').config({ path: fileURLToPath(new URL('../backend/.env', import.meta.url)) });
+  const { createProvider } = backend('./providers');
+  const { runTrafficPipeline } = backend('./agents/pipeline');
+  const { loadPipelineDefinition, defaultPrompts } = backend('./agents/definition');
+  const { openPromptStore } = backend('./prompts/store');
+
+  const provider = createProvider({ ...process.env, MODEL_PROVIDER: providerName });
+  const definition = loadPipelineDefinition(process.env.PIPELINE_CONFIG || undefined);
+  const templates = promptStore ? openPromptStore(promptStore, defaultPrompts(definition)).snapshot() : undefined;
+  const run = (runProvider: unknown, frame: LoadedFrame) =>
+    runTrafficPipeline(runProvider, { prompt: 'traffic-analysis', image: frame.data, mimeType: frame.mimeType, definition, templates }) as Promise<FullAnalysisResult>;
+  return { provider, definition, templates, run };
+};
+
+/**
+ * The agent pipeline as the server runs it on the given provider. Prompts come
+ * from a prompt store file when given, otherwise the built-in ones.
+ */
+export const createPipelineDetector = (providerName: string, promptStore?: string): Detector => {
+  const { provider, templates, run } = loadPipeline(providerName, promptStore);
+  return {
+    name: `${provider.name}/${provider.model}`,
+    promptRevision: templates ? templates.revision : 1, // The built-in prompts count as revision 1
+    analyse: frame => run(provider, frame),
+  };
+};
+
+/**
+ * The agent pipeline on the mock provider, except that the agent whose output
+ * the definition takes the result's detections from answers with the frame's
+ * labels plus noise. The mock's own boxes are random; this gives the agents
+ * after it, the tracker and the rules a frame worth scoring.
+ */
+export const createNoisyLabelsDetector = (promptStore?: string): Detector => {
+  const { provider, definition, templates, run } = loadPipeline('mock', promptStore);
+  const [detectionsAgent, field = 'detections'] = (definition.result.detections as string).split('.');
+  const providerFor = (frame: LoadedFrame) => ({
+    ...provider,
+    generate: async (request: { agent: string }) => {
+      const response = await provider.generate(request);
+      if (request.agent !== detectionsAgent) return response;
+      return { ...response, text: JSON.stringify({ ...JSON.parse(response.text), [field]: noisyDetections(frame) }) };
+    },
+  });
+
+  return {
+    name: 'labels-noisy',
+    promptRevision: templates ? templates.revision : 1,
+    analyse: frame => run(providerFor(frame), frame),
+  };
+};
+
+/**
+ * A perfect detector: the labelled boxes (without their identities) and counts.
+ * Scores then measure the tracker and violation rules alone.
+ */
+export const labelDetector: Detector = {
+  name: 'labels',
+  analyse: async frame => ({
+    timestamp: frame.capturedAt,
+    detections: frame.detections.map(({ trackId, ...d }) => ({ ...d, box_2d: [...d.box_2d!] })),
+    analysis: {
+      ...frame.counts,
+      trafficLights: [],
+      congestionLevel: 0,
+      trafficFlowStatus: 'Free Flow',
+      estimatedAverageSpeed: 0,
+      detectedViolations: frame.violations.filter(v => v.trackId === undefined).map(v => ({ ...v })),
+    },
+    report: { summary: 'Ground-truth labels.', recommendations: [], priorityScore: 1 },
+  }),
+};
+
+/** Runs one sequence from a fresh tracker and scores every frame. */
+export const runSequence = async (
+  sequence: LoadedSequence,
+  detector: Detector,
+  onFrame: (index: number) => void = () => {}
+): Promise<SequenceRun> => {
+  const pipeline = new SourcePipeline(false);
+  const rules = sequence.rules || {};
+  pipeline.tracker.setRules({ ...DEFAULT_RULES, ...rules, speedingSeverity: { ...DEFAULT_RULES.speedingSeverity, ...rules.speedingSeverity } });
+  pipeline.tracker.setZones(sequence.zones || []);
+
+  const scorer = new SequenceScorer(sequence);
+  for (const [index, frame] of sequence.frames.entries()) {
+    onFrame(index);
+    const { result } = pipeline.process(await detector.analyse(frame), '', frame.capturedAt);
+    scorer.add(frame, result);
+  }
+  return { name: sequence.name, frames: sequence.frames.length, tally: scorer.result() };
+};
@@ -0,0 +1,43 @@
+// alertApi.ts — client for the backend alert routes (/api/alerts): forwards
+// alerts to the backend's outgoing webhook and manages its configuration.
+
+import { Alert } from "../types";
+import { adminHeaders, getBackendUrl } from "./configService";
+
+export interface WebhookConfig {
+  url: string;
+  hasSecret: boolean;
+}
+
+export interface WebhookDelivery {
+  delivered: boolean;
+  status?: number; // HTTP status returned by the receiver
+  error?: string;
+  latencyMs?: number;
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${getBackendUrl()}/api/alerts${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Alert request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+const jsonBody = (method: string, body: unknown, headers?: Record<string, string>): RequestInit => ({
+  method,
+  headers: { "Content-Type": "application/json", ...headers },
+  body: JSON.stringify(body),
+});
+
+export const postAlert = (alert: Alert) => request<WebhookDelivery>("", jsonBody("POST", alert));
+
+export const getWebhookConfig = () => request<WebhookConfig>("/webhook");
+
+/** An omitted secret keeps the current one; an empty url disables the webhook. */
+// Changing or testing the webhook needs the admin token from the backend settings
+export const saveWebhookConfig = (url: string, secret?: string) =>
+  request<WebhookConfig>("/webhook", jsonBody("PUT", secret === undefined ? { url } : { url, secret }, adminHeaders()));
+
+export const testWebhook = () => request<WebhookDelivery>("/webhook/test", { method: "POST", headers: adminHeaders() });
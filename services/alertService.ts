@@ -0,0 +1,180 @@
+// alertService.ts — alert rules over analysis results, their cooldowns, and
+// the browser notification channel. Rules and channel choices are persisted
+// in localStorage; the webhook channel goes through services/alertApi.ts.
+
+import { Alert, AlertChannels, AlertCondition, AlertMetric, AlertRule, FullAnalysisResult, Severity } from '../types';
+import { describeSource } from './sourceSettingsStore';
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  channels: AlertChannels;
+}
+
+const STORAGE_KEY = 'multi_ai_agent_alert_settings';
+
+const SEVERITY_RANK: Record<Severity, number> = { Low: 0, Medium: 1, High: 2 };
+
+export const ALERT_METRICS: Record<AlertMetric, { label: string; unit: string; read: (r: FullAnalysisResult) => number }> = {
+  congestionLevel: { label: 'Congestion', unit: '%', read: r => r.analysis.congestionLevel },
+  totalVehicles: { label: 'Vehicles', unit: '', read: r => r.analysis.totalVehicles },
+  pedestrianCount: { label: 'Pedestrians', unit: '', read: r => r.analysis.pedestrianCount },
+  estimatedAverageSpeed: { label: 'Average speed', unit: ' km/h', read: r => r.analysis.estimatedAverageSpeed },
+  priorityScore: { label: 'Priority score', unit: '/10', read: r => r.report.priorityScore },
+};
+
+export const DEFAULT_ALERT_SETTINGS: AlertSettings = {
+  rules: [
+    {
+      id: 'congestion-spike',
+      name: 'Congestion spike',
+      enabled: true,
+      condition: { kind: 'metric', metric: 'congestionLevel', operator: '>', threshold: 80, frames: 3 },
+      severity: 'Medium',
+      cooldownSeconds: 300,
+    },
+    {
+      id: 'gridlock',
+      name: 'Gridlock',
+      enabled: true,
+      condition: { kind: 'flowStatus', status: 'Gridlock' },
+      severity: 'High',
+      cooldownSeconds: 300,
+    },
+    {
+      id: 'high-violation',
+      name: 'High-severity violation',
+      enabled: true,
+      condition: { kind: 'violation', minSeverity: 'High' },
+      severity: 'High',
+      cooldownSeconds: 30,
+    },
+  ],
+  channels: { notification: true, toast: true, webhook: false },
+};
+
+export const loadAlertSettings = (): AlertSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved) as Partial<AlertSettings>;
+      return {
+        rules: Array.isArray(parsed.rules) ? parsed.rules : DEFAULT_ALERT_SETTINGS.rules,
+        channels: { ...DEFAULT_ALERT_SETTINGS.channels, ...parsed.channels },
+      };
+    }
+  } catch (e) {
+    console.error('Failed to load alert settings', e);
+  }
+  return DEFAULT_ALERT_SETTINGS;
+};
+
+export const saveAlertSettings = (settings: AlertSettings) =>
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+
+export const validateAlertRule = (rule: AlertRule): string | null => {
+  if (!rule.name.trim()) return 'Every rule needs a name.';
+  if (rule.cooldownSeconds < 0) return `${rule.name}: cooldown cannot be negative.`;
+  if (rule.condition.kind === 'metric' && !(rule.condition.frames >= 1)) return `${rule.name}: frame count must be at least 1.`;
+  return null;
+};
+
+export const describeCondition = (condition: AlertCondition): string => {
+  switch (condition.kind) {
+    case 'metric': {
+      const { label, unit } = ALERT_METRICS[condition.metric];
+      const held = condition.frames > 1 ? ` for ${condition.frames} consecutive frames` : '';
+      return `${label} ${condition.operator} ${condition.threshold}${unit}${held}`;
+    }
+    case 'flowStatus':
+      return `Traffic flow is ${condition.status}`;
+    case 'violation':
+      return `${condition.violationType || 'Any'} violation of ${condition.minSeverity} severity or above`;
+  }
+};
+
+/**
+ * Evaluates the rules frame by frame. Consecutive-frame counts and cooldowns
+ * are kept per rule and source, so a spike on one camera neither delays nor
+ * silences alerts for another.
+ */
+export class AlertEngine {
+  private streaks = new Map<string, number>();
+  private lastFired = new Map<string, number>();
+
+  public evaluate(rules: AlertRule[], result: FullAnalysisResult, sourceId?: string): Alert[] {
+    const alerts: Alert[] = [];
+    const where = sourceId ? ` on ${describeSource(sourceId)}` : '';
+
+    rules.forEach(rule => {
+      if (!rule.enabled) return;
+      const key = `${rule.id}|${sourceId || ''}`;
+      const match = this.match(rule, key, result);
+      if (!match) return;
+
+      const last = this.lastFired.get(key);
+      if (last !== undefined && result.timestamp - last < rule.cooldownSeconds * 1000) return;
+      this.lastFired.set(key, result.timestamp);
+      alerts.push({
+        id: crypto.randomUUID(),
+        ruleId: rule.id,
+        ruleName: rule.name,
+        message: `${match.message}${where}`,
+        severity: match.severity,
+        timestamp: result.timestamp,
+        ...(sourceId ? { sourceId } : {}),
+        ...(result.analysisId ? { analysisId: result.analysisId } : {}),
+      });
+    });
+    return alerts;
+  }
+
+  /** Forgets streaks and cooldowns, e.g. after the rules were edited. */
+  public reset() {
+    this.streaks.clear();
+    this.lastFired.clear();
+  }
+
+  private match(rule: AlertRule, key: string, result: FullAnalysisResult): { message: string; severity: Severity } | null {
+    const { condition } = rule;
+    switch (condition.kind) {
+      case 'metric': {
+        const metric = ALERT_METRICS[condition.metric];
+        const value = metric.read(result);
+        const holds = condition.operator === '>' ? value > condition.threshold : value < condition.threshold;
+        const streak = holds ? (this.streaks.get(key) || 0) + 1 : 0;
+        this.streaks.set(key, streak);
+        if (streak < condition.frames) return null;
+        return { message: `${metric.label} ${value}${metric.unit} (${condition.operator} ${condition.threshold}${metric.unit})`, severity: rule.severity };
+      }
+      case 'flowStatus':
+        return result.analysis.trafficFlowStatus === condition.status
+          ? { message: `Traffic flow is ${condition.status}`, severity: rule.severity }
+          : null;
+      case 'violation': {
+        const matching = result.analysis.detectedViolations.filter(v =>
+          SEVERITY_RANK[v.severity] >= SEVERITY_RANK[condition.minSeverity]
+          && (!condition.violationType || v.type === condition.violationType));
+        if (matching.length === 0) return null;
+        const worst = matching.reduce((a, b) => (SEVERITY_RANK[b.severity] > SEVERITY_RANK[a.severity] ? b : a));
+        const more = matching.length > 1 ? ` (+${matching.length - 1} more)` : '';
+        return { message: `${worst.type}: ${worst.description}${more}`, severity: worst.severity };
+      }
+    }
+  }
+}
+
+// Browser notifications
+
+export const notificationPermission = (): NotificationPermission | 'unsupported' =>
+  'Notification' in window ? Notification.permission : 'unsupported';
+
+export const requestNotificationPermission = async (): Promise<NotificationPermission | 'unsupported'> =>
+  'Notification' in window ? Notification.requestPermission() : 'unsupported';
+
+export const showBrowserNotification = (alert: Alert) => {
+  if (notificationPermission() !== 'granted') return;
+  new Notification(`${alert.severity} alert: ${alert.ruleName}`, {
+    body: alert.message,
+    tag: alert.ruleId, // Replaces an earlier notification of the same rule
+  });
+};
@@ -0,0 +1,82 @@
+// analysisApi.ts — client for the backend analysis database (/api/analyses).
+// Queries take the same HistoryQuery as the local IndexedDB store, so the
+// History view can read from either.
+
+import { FullAnalysisResult, HistoryItem } from "../types";
+import { getBackendUrl } from "./configService";
+import { HistoryFacets, HistoryPage, HistoryQuery } from "./historyStore";
+import { ExportedAnalysis } from "./exportService";
+
+interface AnalysisRecord extends FullAnalysisResult {
+  id: string;
+  sourceId?: string;
+  hasImage: boolean;
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${getBackendUrl()}/api/analyses${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Analysis database request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const analysisImageUrl = (id: string) => `${getBackendUrl()}/api/analyses/${encodeURIComponent(id)}/image`;
+
+const toHistoryItem = ({ hasImage, ...record }: AnalysisRecord): HistoryItem => ({
+  ...record,
+  thumbnail: hasImage ? analysisImageUrl(record.id) : "",
+});
+
+export const queryServerHistory = async (query: HistoryQuery = {}, offset = 0, limit = 25): Promise<HistoryPage> => {
+  const params = new URLSearchParams({ offset: String(offset), limit: String(limit) });
+  if (query.from !== undefined) params.set("from", String(query.from));
+  if (query.to !== undefined) params.set("to", String(query.to));
+  if (query.minCongestion !== undefined) params.set("minCongestion", String(query.minCongestion));
+  if (query.maxCongestion !== undefined) params.set("maxCongestion", String(query.maxCongestion));
+  if (query.text) params.set("q", query.text);
+  query.sourceIds?.forEach(v => params.append("sourceId", v));
+  query.flowStatuses?.forEach(v => params.append("flowStatus", v));
+  query.violationTypes?.forEach(v => params.append("violationType", v));
+  query.severities?.forEach(v => params.append("severity", v));
+  query.models?.forEach(v => params.append("model", v));
+  query.promptRevisions?.forEach(v => params.append("promptRevision", v));
+  if (query.sort) {
+    params.set("sort", query.sort.field);
+    params.set("order", query.sort.direction);
+  }
+
+  const page = await request<{ items: AnalysisRecord[]; total: number; facets: HistoryFacets }>(`?${params}`);
+  return { items: page.items.map(toHistoryItem), total: page.total, facets: page.facets };
+};
+
+/** Replaces the stored result, e.g. with tracker-derived detections and violations. */
+export const saveServerAnalysis = (analysisId: string, result: FullAnalysisResult, sourceId?: string) =>
+  request<AnalysisRecord>(`/${encodeURIComponent(analysisId)}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...result, sourceId }),
+  });
+
+/** Imports an exported analysis; a record with the same id is replaced. */
+export const importServerAnalysis = ({ thumbnail, ...item }: ExportedAnalysis) => {
+  const image = thumbnail?.match(/^data:([^;]+);base64,(.*)$/);
+  return request<AnalysisRecord>("", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ...item, ...(image ? { mimeType: image[1], image: image[2] } : {}) }),
+  });
+};
+
+export const deleteServerAnalysis = (analysisId: string) =>
+  request<void>(`/${encodeURIComponent(analysisId)}`, { method: "DELETE" });
+
+export const deleteServerAnalyses = async (analysisIds: string[]): Promise<number> => {
+  const { deleted } = await request<{ deleted: number }>("/bulk-delete", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ ids: analysisIds }),
+  });
+  return deleted;
+};
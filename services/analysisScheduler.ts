@@ -0,0 +1,120 @@
+// analysisScheduler.ts — shares the backend between every monitored source.
+// Each source has its own FIFO of analysis jobs; sources take turns, so a busy
+// camera cannot starve the others, and at most `concurrency` requests are in
+// flight. A rate-limit error pauses everyone, since they share one backend.
+
+const RATE_LIMIT_BACKOFF_MS = 10000;
+
+interface Job {
+  run: () => Promise<unknown>;
+  onStart?: () => void;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+export interface SchedulerStats {
+  concurrency: number;
+  running: number;
+  waiting: Record<string, number>; // Jobs queued per source
+  served: Record<string, number>; // Jobs completed per source since start
+  pausedUntil: number | null; // Set while backing off after a rate limit
+}
+
+const isRateLimit = (err: unknown) => /rate limit|429/i.test((err as Error)?.message || '');
+
+export class AnalysisScheduler {
+  private queues = new Map<string, Job[]>();
+  private turns: string[] = []; // Sources with waiting jobs, in the order they are served
+  private running = 0;
+  private served = new Map<string, number>();
+  private pausedUntil = 0;
+  private resumeTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<() => void>();
+
+  constructor(private concurrency = 2) {}
+
+  /** Queues a job for a source; `onStart` runs when it leaves the queue. */
+  public schedule<T>(sourceId: string, run: () => Promise<T>, onStart?: () => void): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(sourceId) || [];
+      queue.push({ run, onStart, resolve: resolve as (value: unknown) => void, reject });
+      this.queues.set(sourceId, queue);
+      if (!this.turns.includes(sourceId)) this.turns.push(sourceId);
+      this.dispatch();
+    });
+  }
+
+  /** Rejects the source's waiting jobs; a job already running completes. */
+  public cancel(sourceId: string) {
+    const queue = this.queues.get(sourceId);
+    if (!queue) return;
+    this.queues.delete(sourceId);
+    this.turns = this.turns.filter(id => id !== sourceId);
+    queue.forEach(job => job.reject(new Error('Analysis cancelled')));
+    this.notify();
+  }
+
+  public setConcurrency(concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency));
+    this.dispatch();
+  }
+
+  public getStats(): SchedulerStats {
+    return {
+      concurrency: this.concurrency,
+      running: this.running,
+      waiting: Object.fromEntries([...this.queues].map(([id, queue]) => [id, queue.length])),
+      served: Object.fromEntries(this.served),
+      pausedUntil: this.pausedUntil > Date.now() ? this.pausedUntil : null,
+    };
+  }
+
+  public onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => listener());
+  }
+
+  private dispatch() {
+    const wait = this.pausedUntil - Date.now();
+    if (wait > 0) {
+      if (!this.resumeTimer) {
+        this.resumeTimer = setTimeout(() => {
+          this.resumeTimer = null;
+          this.dispatch();
+        }, wait);
+      }
+      this.notify();
+      return;
+    }
+
+    while (this.running < this.concurrency && this.turns.length > 0) {
+      const sourceId = this.turns.shift()!;
+      const queue = this.queues.get(sourceId)!;
+      const job = queue.shift()!;
+      // The source goes to the back of the line if it has more waiting
+      if (queue.length > 0) this.turns.push(sourceId);
+      else this.queues.delete(sourceId);
+
+      this.running++;
+      job.onStart?.();
+      job.run()
+        .then(job.resolve, err => {
+          if (isRateLimit(err)) this.pausedUntil = Date.now() + RATE_LIMIT_BACKOFF_MS;
+          job.reject(err);
+        })
+        .finally(() => {
+          this.running--;
+          this.served.set(sourceId, (this.served.get(sourceId) || 0) + 1);
+          this.dispatch();
+        });
+    }
+    this.notify();
+  }
+}
+
+// One scheduler for the whole app: the single-source monitor and the camera grid share the backend
+export const analysisScheduler = new AnalysisScheduler();
@@ -0,0 +1,54 @@
+// analysisStats.ts — chart series and violation event outcomes derived from
+// analysis results, shared by the dashboard and the PDF report.
+
+import { DetectionItem, FullAnalysisResult, Violation, ViolationEvent } from '../types';
+
+export interface CompositionEntry {
+  name: string; // Detector label, e.g. 'car'
+  count: number;
+}
+
+export const BUSY_CLASS_COUNT = 5; // Classes above this count are highlighted
+
+/** Vehicle counts per detector label, in first-seen order. */
+export const vehicleComposition = (detections: DetectionItem[]): CompositionEntry[] =>
+  detections
+    .filter(d => d.type === 'vehicle')
+    .reduce((acc: CompositionEntry[], curr) => {
+      const existing = acc.find(item => item.name === curr.object);
+      if (existing) {
+        existing.count += curr.count;
+      } else {
+        acc.push({ name: curr.object, count: curr.count });
+      }
+      return acc;
+    }, []);
+
+export interface TrendPoint {
+  time: string;
+  vehicles: number;
+  congestion: number;
+}
+
+/** One point per analysed frame of a session (frames are about a second apart). */
+export const sessionTrend = (session: FullAnalysisResult[]): TrendPoint[] =>
+  session.map((d, idx) => ({
+    time: idx + 's',
+    vehicles: d.analysis.totalVehicles,
+    congestion: d.analysis.congestionLevel,
+  }));
+
+/** The last reported state of every violation event in the results, by event id. */
+export const latestViolationEvents = (results: FullAnalysisResult[]): Map<string, ViolationEvent> => {
+  const events = new Map<string, ViolationEvent>();
+  results.forEach(r => r.violationEvents?.forEach(e => events.set(e.id, e)));
+  return events;
+};
+
+/** A violation as its event ended up: highest severity, latest description and how long it lasted. */
+export const withEventOutcome = (v: Violation, events: Map<string, ViolationEvent>): Violation => {
+  const event = v.eventId ? events.get(v.eventId) : undefined;
+  if (!event || event.frames === 1) return v;
+  const seconds = Math.round(((event.endedAt ?? event.lastSeenAt) - event.startedAt) / 1000);
+  return { ...v, severity: event.severity, description: `${event.description} (${event.frames} frames over ${seconds}s)` };
+};
@@ -0,0 +1,106 @@
+// calibrationService.ts — camera calibration for real-world measurements.
+// A homography maps normalized image points (x, y in 0-1) onto the road's ground
+// plane in metres. It is solved from four clicked image points and their
+// surveyed/known ground positions (e.g. lane markings of known spacing).
+
+import { CameraCalibration } from '../types';
+import { loadSourceSetting, saveSourceSetting } from './sourceSettingsStore';
+
+type Point = [number, number];
+export type Homography = number[]; // 3x3 row-major, h[8] = 1
+
+const SETTING_KIND = 'calibration';
+
+// Gaussian elimination with partial pivoting; returns null for singular systems
+const solveLinearSystem = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const f = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= f * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+};
+
+/** Direct linear transform from exactly four point correspondences. */
+export const computeHomography = (imagePoints: Point[], worldPoints: Point[]): Homography | null => {
+  if (imagePoints.length !== 4 || worldPoints.length !== 4) return null;
+
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const [x, y] = imagePoints[i];
+    const [X, Y] = worldPoints[i];
+    a.push([x, y, 1, 0, 0, 0, -X * x, -X * y]);
+    b.push(X);
+    a.push([0, 0, 0, x, y, 1, -Y * x, -Y * y]);
+    b.push(Y);
+  }
+
+  const h = solveLinearSystem(a, b);
+  return h ? [...h, 1] : null;
+};
+
+/** Projects a normalized image point onto the ground plane (metres). */
+export const projectToGround = (h: Homography, [x, y]: Point): Point => {
+  const w = h[6] * x + h[7] * y + h[8];
+  return [(h[0] * x + h[1] * y + h[2]) / w, (h[3] * x + h[4] * y + h[5]) / w];
+};
+
+export const groundDistance = (h: Homography, a: Point, b: Point): number => {
+  const [ax, ay] = projectToGround(h, a);
+  const [bx, by] = projectToGround(h, b);
+  return Math.hypot(ax - bx, ay - by);
+};
+
+// The four clicked points must form a convex quadrilateral, otherwise the
+// homography flips or explodes between them
+const isConvexQuad = (points: Point[]): boolean => {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const [ax, ay] = points[i];
+    const [bx, by] = points[(i + 1) % 4];
+    const [cx, cy] = points[(i + 2) % 4];
+    const cross = (bx - ax) * (cy - by) - (by - ay) * (cx - bx);
+    if (Math.abs(cross) < 1e-9) return false;
+    if (sign === 0) sign = Math.sign(cross);
+    else if (Math.sign(cross) !== sign) return false;
+  }
+  return true;
+};
+
+/** Builds a calibration or throws with a message suitable for the UI. */
+export const createCalibration = (imagePoints: Point[], worldPoints: Point[]): CameraCalibration => {
+  if (imagePoints.length !== 4) throw new Error('Select exactly four points on the frame.');
+  if (!isConvexQuad(imagePoints)) throw new Error('Image points must form a convex quadrilateral, in order around its edge.');
+  if (!isConvexQuad(worldPoints)) throw new Error('Ground coordinates must form a convex quadrilateral in the same order.');
+
+  const homography = computeHomography(imagePoints, worldPoints);
+  if (!homography || homography.some(v => !Number.isFinite(v))) {
+    throw new Error('Could not solve the calibration; check that no three points are collinear.');
+  }
+  return { imagePoints, worldPoints, homography, updatedAt: Date.now() };
+};
+
+export const loadCalibration = (sourceId: string): CameraCalibration | null =>
+  loadSourceSetting<CameraCalibration>(SETTING_KIND, sourceId);
+
+export const saveCalibration = (sourceId: string, calibration: CameraCalibration | null) =>
+  saveSourceSetting(SETTING_KIND, sourceId, calibration);
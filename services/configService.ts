@@ -0,0 +1,121 @@
+// configService.ts — selects which backend the UI talks to.
+// Profile URLs come from Vite env vars (see vite.config.ts); the chosen profile
+// and any custom URL are persisted in localStorage so they survive reloads.
+
+export type BackendProfile = 'production' | 'staging' | 'local' | 'custom';
+
+export interface BackendConfig {
+  profile: BackendProfile;
+  customUrl: string;
+  adminToken: string; // The backend's ADMIN_TOKEN, for changing webhooks, prompts and streams; may be empty
+}
+
+export interface BackendHealth {
+  state: 'checking' | 'online' | 'offline';
+  url: string;
+  latencyMs?: number;
+  message?: string;
+  checkedAt?: number;
+}
+
+const STORAGE_KEY = 'multi_ai_agent_backend_config';
+const HEALTH_TIMEOUT_MS = 5000;
+
+export const PROFILE_URLS: Record<Exclude<BackendProfile, 'custom'>, string> = {
+  production: process.env.BACKEND_URL_PRODUCTION || 'https://multi-ai-backend-ehhj.onrender.com',
+  staging: process.env.BACKEND_URL_STAGING || '',
+  local: process.env.BACKEND_URL_LOCAL || 'http://localhost:8080',
+};
+
+export const PROFILE_LABELS: Record<BackendProfile, string> = {
+  production: 'Production',
+  staging: 'Staging',
+  local: 'Local',
+  custom: 'Custom URL',
+};
+
+const isProfile = (value: unknown): value is BackendProfile =>
+  value === 'production' || value === 'staging' || value === 'local' || value === 'custom';
+
+const defaultConfig = (): BackendConfig => ({
+  profile: isProfile(process.env.BACKEND_PROFILE) ? process.env.BACKEND_PROFILE : 'production',
+  customUrl: '',
+  adminToken: '',
+});
+
+let current: BackendConfig | null = null;
+
+export const loadBackendConfig = (): BackendConfig => {
+  if (current) return current;
+  current = defaultConfig();
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (isProfile(parsed.profile)) {
+        current = {
+          profile: parsed.profile,
+          customUrl: typeof parsed.customUrl === 'string' ? parsed.customUrl : '',
+          adminToken: typeof parsed.adminToken === 'string' ? parsed.adminToken : '',
+        };
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load backend config', e);
+  }
+  return current;
+};
+
+// Change notifications, so open connections can follow the UI to another backend
+type BackendConfigListener = () => void;
+const listeners = new Set<BackendConfigListener>();
+
+export const onBackendConfigChange = (listener: BackendConfigListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+export const saveBackendConfig = (config: BackendConfig) => {
+  current = config;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  listeners.forEach(listener => listener());
+};
+
+const normalizeUrl = (url: string) => url.trim().replace(/\/+$/, '');
+
+export const resolveBackendUrl = (config: BackendConfig): string =>
+  normalizeUrl(config.profile === 'custom' ? config.customUrl : PROFILE_URLS[config.profile]);
+
+export const getBackendUrl = (): string => {
+  const url = resolveBackendUrl(loadBackendConfig());
+  if (!url) throw new Error(`No backend URL configured for the "${loadBackendConfig().profile}" profile.`);
+  return url;
+};
+
+/** The Authorization header for the backend's admin routes, when a token is set. */
+export const adminHeaders = (): Record<string, string> => {
+  const { adminToken } = loadBackendConfig();
+  return adminToken ? { Authorization: `Bearer ${adminToken}` } : {};
+};
+
+// Pings the backend's GET / route
+export const checkBackendHealth = async (url: string): Promise<BackendHealth> => {
+  if (!url) return { state: 'offline', url, message: 'No URL configured', checkedAt: Date.now() };
+
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), HEALTH_TIMEOUT_MS);
+  const started = performance.now();
+  try {
+    const response = await fetch(`${url}/`, { signal: controller.signal });
+    const latencyMs = Math.round(performance.now() - started);
+    if (!response.ok) {
+      return { state: 'offline', url, latencyMs, message: `HTTP ${response.status}`, checkedAt: Date.now() };
+    }
+    return { state: 'online', url, latencyMs, message: (await response.text()).trim(), checkedAt: Date.now() };
+  } catch (err) {
+    const message = controller.signal.aborted ? 'Timed out' : 'Unreachable';
+    return { state: 'offline', url, message, checkedAt: Date.now() };
+  } finally {
+    clearTimeout(timer);
+  }
+};
@@ -0,0 +1,69 @@
+// countingService.ts — per-interval totals of counting-line crossings, by line,
+// direction and vehicle class, and their CSV export.
+
+import { CrossingDirection, LineCrossing, Zone } from '../types';
+import { directionLabel } from './zoneService';
+import { toCsv } from './exportService';
+
+export const COUNT_INTERVALS = [
+  { label: '1 min', ms: 60_000 },
+  { label: '5 min', ms: 5 * 60_000 },
+  { label: '15 min', ms: 15 * 60_000 },
+  { label: '1 hour', ms: 60 * 60_000 },
+];
+
+export interface CountRow {
+  intervalStart: number;
+  lineId: string;
+  lineName: string;
+  direction: CrossingDirection;
+  directionLabel: string;
+  byClass: Record<string, number>;
+  total: number;
+}
+
+/** Groups crossings into fixed wall-clock intervals, newest interval first. */
+export const aggregateCrossings = (crossings: LineCrossing[], lines: Zone[], intervalMs: number): CountRow[] => {
+  const rows = new Map<string, CountRow>();
+
+  crossings.forEach(c => {
+    const intervalStart = Math.floor(c.timestamp / intervalMs) * intervalMs;
+    const key = `${intervalStart}|${c.lineId}|${c.direction}`;
+    let row = rows.get(key);
+    if (!row) {
+      const line = lines.find(l => l.id === c.lineId);
+      row = {
+        intervalStart,
+        lineId: c.lineId,
+        lineName: line?.name || 'Removed line',
+        direction: c.direction,
+        directionLabel: line ? directionLabel(line, c.direction) : c.direction,
+        byClass: {},
+        total: 0,
+      };
+      rows.set(key, row);
+    }
+    row.byClass[c.objectClass] = (row.byClass[c.objectClass] || 0) + 1;
+    row.total++;
+  });
+
+  return [...rows.values()].sort((a, b) =>
+    b.intervalStart - a.intervalStart || a.lineName.localeCompare(b.lineName) || a.direction.localeCompare(b.direction));
+};
+
+export const countedClasses = (rows: CountRow[]): string[] =>
+  [...new Set(rows.flatMap(r => Object.keys(r.byClass)))].sort();
+
+export const countsToCsv = (rows: CountRow[], intervalMs: number): string => {
+  const classes = countedClasses(rows);
+  const header = ['interval_start', 'interval_end', 'line', 'direction', ...classes, 'total'];
+  const lines = rows.map(r => [
+    new Date(r.intervalStart).toISOString(),
+    new Date(r.intervalStart + intervalMs).toISOString(),
+    r.lineName,
+    r.directionLabel,
+    ...classes.map(c => r.byClass[c] || 0),
+    r.total,
+  ]);
+  return toCsv([header, ...lines]);
+};
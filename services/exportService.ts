@@ -0,0 +1,177 @@
+// exportService.ts — analysis history as files: CSV summaries for spreadsheets,
+// NDJSON and GeoJSON that round-trip back into the database, and the parser
+// for importing those.
+
+import { FullAnalysisResult, HistoryItem } from '../types';
+import { validateAgainst } from './validationService';
+
+// One exported analysis: the result, its ids and (when available) its thumbnail as a data URL
+export type ExportedAnalysis = FullAnalysisResult & { id: string; sourceId?: string; thumbnail?: string };
+
+export type ExportFormat = 'csv' | 'ndjson' | 'geojson';
+
+export interface ImportResult {
+  items: ExportedAnalysis[];
+  skipped: string[]; // One message per entry that could not be read
+}
+
+export const csvCell = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: (string | number | undefined)[][]): string =>
+  rows.map(row => row.map(csvCell).join(',')).join('\n');
+
+export const downloadText = (text: string, fileName: string, type: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(new Blob([text], { type }));
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+const isoTime = (timestamp: number) => new Date(timestamp).toISOString();
+
+/** One row per analysis. */
+export const analysesToCsv = (items: HistoryItem[]): string => toCsv([
+  ['id', 'time', 'source', 'address', 'latitude', 'longitude', 'flow_status', 'congestion', 'vehicles',
+    'pedestrians', 'avg_speed_kmh', 'violations', 'priority', 'summary'],
+  ...items.map(item => [
+    item.id,
+    isoTime(item.timestamp),
+    item.sourceId,
+    item.locationContext?.address,
+    item.locationContext?.latitude,
+    item.locationContext?.longitude,
+    item.analysis.trafficFlowStatus,
+    item.analysis.congestionLevel,
+    item.analysis.totalVehicles,
+    item.analysis.pedestrianCount,
+    item.analysis.estimatedAverageSpeed,
+    item.analysis.detectedViolations.length,
+    item.report.priorityScore,
+    item.report.summary,
+  ]),
+]);
+
+/** One row per detection and per violation (tracked violations once per event), keyed by analysis id. */
+export const detailsToCsv = (items: HistoryItem[]): string => toCsv([
+  ['analysis_id', 'time', 'record', 'label', 'category', 'count', 'confidence', 'track_id', 'speed_kmh', 'severity', 'description', 'event_id'],
+  ...items.flatMap(item => [
+    ...item.detections.map(d => [
+      item.id, isoTime(item.timestamp), 'detection', d.object, d.type, d.count, d.confidence, d.trackId,
+      d.estimatedSpeed === undefined ? undefined : Math.round(d.estimatedSpeed), undefined, undefined, undefined,
+    ]),
+    ...item.analysis.detectedViolations.map(v => [
+      item.id, isoTime(item.timestamp), 'violation', v.type, undefined, undefined, undefined, v.trackId, undefined,
+      v.severity, v.description, v.eventId,
+    ]),
+  ]),
+]);
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// History items -> portable records. Local thumbnails (object URLs) are inlined;
+// server image URLs only mean something to that server, so they are dropped.
+const toExported = async ({ thumbnail, ...item }: HistoryItem): Promise<ExportedAnalysis> => {
+  if (!thumbnail.startsWith('blob:')) return item;
+  try {
+    return { ...item, thumbnail: await blobToDataUrl(await (await fetch(thumbnail)).blob()) };
+  } catch (e) {
+    console.warn(`Exporting ${item.id} without its thumbnail`, e);
+    return item;
+  }
+};
+
+/** Newline-delimited JSON, one FullAnalysisResult (with id, sourceId and thumbnail) per line. */
+export const toNdjson = async (items: HistoryItem[]): Promise<string> => {
+  const lines: string[] = [];
+  for (const item of items) lines.push(JSON.stringify(await toExported(item)));
+  return lines.join('\n');
+};
+
+/** Point features for analyses with coordinates; the full result rides along in properties.result. */
+export const toGeoJson = (items: HistoryItem[]) => {
+  const located = items.filter(item =>
+    item.locationContext?.latitude !== undefined && item.locationContext?.longitude !== undefined);
+  return {
+    collection: {
+      type: 'FeatureCollection',
+      features: located.map(({ thumbnail, ...item }) => ({
+        type: 'Feature',
+        id: item.id,
+        geometry: { type: 'Point', coordinates: [item.locationContext!.longitude, item.locationContext!.latitude] },
+        properties: {
+          time: isoTime(item.timestamp),
+          address: item.locationContext?.address,
+          flowStatus: item.analysis.trafficFlowStatus,
+          congestion: item.analysis.congestionLevel,
+          vehicles: item.analysis.totalVehicles,
+          violations: item.analysis.detectedViolations.length,
+          result: item,
+        },
+      })),
+    },
+    unlocated: items.length - located.length,
+  };
+};
+
+const readEntry = (value: unknown, label: string, items: ExportedAnalysis[], skipped: string[]) => {
+  if (!value || typeof value !== 'object') {
+    skipped.push(`${label}: not an object`);
+    return;
+  }
+  const { id, sourceId, thumbnail, ...result } = value as Record<string, unknown>;
+  const issues = validateAgainst('FullAnalysisResult', result);
+  if (issues.length > 0) {
+    skipped.push(`${label}: ${issues[0]}${issues.length > 1 ? ` (+${issues.length - 1} more)` : ''}`);
+    return;
+  }
+  items.push({
+    ...(result as unknown as FullAnalysisResult),
+    id: typeof id === 'string' && id ? id : crypto.randomUUID(),
+    ...(typeof sourceId === 'string' && sourceId ? { sourceId } : {}),
+    ...(typeof thumbnail === 'string' && thumbnail.startsWith('data:image/') ? { thumbnail } : {}),
+  });
+};
+
+/** Reads an NDJSON or GeoJSON export (a plain JSON array of results is accepted too). */
+export const parseImport = (text: string): ImportResult => {
+  const items: ExportedAnalysis[] = [];
+  const skipped: string[] = [];
+  const trimmed = text.trim();
+  if (!trimmed) return { items, skipped };
+
+  let document: unknown;
+  try {
+    document = JSON.parse(trimmed);
+  } catch {
+    // Not a single JSON document: newline-delimited
+    trimmed.split('\n').forEach((line, i) => {
+      if (!line.trim()) return;
+      try {
+        readEntry(JSON.parse(line), `Line ${i + 1}`, items, skipped);
+      } catch {
+        skipped.push(`Line ${i + 1}: not valid JSON`);
+      }
+    });
+    return { items, skipped };
+  }
+
+  const doc = document as { type?: string; features?: { properties?: { result?: unknown } }[] };
+  if (doc && doc.type === 'FeatureCollection' && Array.isArray(doc.features)) {
+    doc.features.forEach((feature, i) => readEntry(feature?.properties?.result, `Feature ${i + 1}`, items, skipped));
+  } else if (Array.isArray(document)) {
+    document.forEach((entry, i) => readEntry(entry, `Entry ${i + 1}`, items, skipped));
+  } else {
+    readEntry(document, 'Document', items, skipped);
+  }
+  return { items, skipped };
+};
@@ -1,34 +1,48 @@
 // geminiService.ts — FRONTEND SHOULD NEVER CALL GOOGLE API DIRECTLY
 
 import { FullAnalysisResult, LocationContextData } from "../types";
+import { getBackendUrl } from "./configService";
+import { SchemaValidationError, assertFullAnalysisResult, assertLocationContext } from "./validationService";
 
-const BACKEND_URL = "https://multi-ai-backend-ehhj.onrender.com";
-
-// Upload image to backend for AI analysis
+// Upload image to backend for AI analysis; the backend stores the result under `analysisId`
+// and pushes its progress to the source's live feed under `jobId`
 export const analyzeTrafficImage = async (
   base64Image: string,
-  mimeType: string
+  mimeType: string,
+  sourceId?: string,
+  jobId?: string
 ): Promise<FullAnalysisResult> => {
+  const backendUrl = getBackendUrl();
+
+  let response: Response;
   try {
-    const response = await fetch(`${BACKEND_URL}/api/gemini`, {
+    response = await fetch(`${backendUrl}/api/gemini`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({
         prompt: "traffic-analysis",
         image: base64Image,
         mimeType,
+        sourceId,
+        jobId,
       }),
     });
-
-    if (!response.ok) {
-      throw new Error("Analysis failed: " + response.statusText);
-    }
-
-    return await response.json();
   } catch (err: any) {
     console.error("Frontend Error:", err);
     throw new Error("Failed to connect to analysis server.");
   }
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    // Backend exhausted its repair/retry budget on the model output
+    if (body?.issues) {
+      throw new SchemaValidationError("server", body.issues, body.error);
+    }
+    throw new Error(body?.error || "Analysis failed: " + response.statusText);
+  }
+
+  return assertFullAnalysisResult(body);
 };
 
 // Get location context from your backend
@@ -37,7 +51,7 @@ export const getLocationContext = async (
   lng: number
 ): Promise<LocationContextData> => {
   try {
-    const response = await fetch(`${BACKEND_URL}/api/location`, {
+    const response = await fetch(`${getBackendUrl()}/api/location`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
       body: JSON.stringify({ lat, lng }),
@@ -45,7 +59,7 @@ export const getLocationContext = async (
 
     if (!response.ok) throw new Error("Location lookup failed.");
 
-    return await response.json();
+    return assertLocationContext(await response.json());
   } catch (err) {
     console.error("Location context fetch failed:", err);
 
@@ -0,0 +1,356 @@
+// historyStore.ts — analysis history persisted in IndexedDB.
+// Thumbnails are stored as downscaled JPEG Blobs; derived fields (congestion,
+// violation types, search terms) are denormalized onto each record so they can
+// be indexed. Older localStorage history is migrated on first open.
+
+import { FullAnalysisResult, HistoryItem, Severity, TrafficAnalysis, Violation } from '../types';
+import { HISTORY_STORE, openDb, request, transactionDone } from './localDb';
+
+const STORE = HISTORY_STORE;
+const LEGACY_STORAGE_KEY = 'multi_ai_agent_history';
+
+const THUMBNAIL_MAX_WIDTH = 640;
+const THUMBNAIL_QUALITY = 0.7;
+const MAX_TERMS = 200;
+
+export const HISTORY_RETENTION = {
+  maxItems: 2000,
+  maxAgeMs: 30 * 24 * 60 * 60 * 1000,
+};
+
+export type HistorySortField = 'timestamp' | 'congestion' | 'vehicles' | 'violations';
+
+export interface HistorySort {
+  field: HistorySortField;
+  direction: 'asc' | 'desc';
+}
+
+export interface HistoryQuery {
+  from?: number; // Timestamp range (ms), inclusive
+  to?: number;
+  minCongestion?: number;
+  maxCongestion?: number;
+  text?: string; // Words matched (by prefix) against report, address, violations and objects
+  // Facets: a record matches if it has any of the listed values; empty means no filter
+  sourceIds?: string[];
+  flowStatuses?: TrafficAnalysis['trafficFlowStatus'][];
+  violationTypes?: Violation['type'][];
+  severities?: Severity[];
+  models?: string[];
+  promptRevisions?: string[]; // PipelineRun.promptRevision, as text
+  sort?: HistorySort; // Default: newest first
+}
+
+export type HistoryFacet = 'source' | 'flowStatus' | 'violationType' | 'severity' | 'model' | 'promptRevision';
+
+// Value -> number of records, over the query's non-facet filters (so selecting a value keeps the others visible)
+export type HistoryFacets = Record<HistoryFacet, Record<string, number>>;
+
+export interface HistoryPage {
+  items: HistoryItem[];
+  total: number;
+  facets?: HistoryFacets;
+}
+
+interface HistoryRecord extends Omit<HistoryItem, 'thumbnail' | 'sourceId'> {
+  thumbnail: Blob | null; // Null for imported items that came without an image
+  sourceId: string; // '' when unknown; IndexedDB does not index undefined
+  congestion: number;
+  violationTypes: string[];
+  terms: string[];
+}
+
+// Change notifications, so views can re-query after writes
+
+type HistoryListener = () => void;
+const listeners = new Set<HistoryListener>();
+
+export const onHistoryChange = (listener: HistoryListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Records
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= 2);
+
+const buildTerms = (result: FullAnalysisResult): string[] => {
+  const { analysis, report, locationContext, detections } = result;
+  const text = [
+    report.summary,
+    ...report.recommendations,
+    analysis.trafficFlowStatus,
+    ...analysis.detectedViolations.flatMap(v => [v.type, v.description]),
+    ...detections.map(d => d.object),
+    locationContext?.address || '',
+  ].join(' ');
+  return [...new Set(tokenize(text))].slice(0, MAX_TERMS);
+};
+
+const toRecord = (item: FullAnalysisResult & { id: string; sourceId?: string }, thumbnail: Blob | null): HistoryRecord => ({
+  ...item,
+  thumbnail,
+  sourceId: item.sourceId || '',
+  congestion: item.analysis.congestionLevel,
+  violationTypes: [...new Set(item.analysis.detectedViolations.map(v => v.type))],
+  terms: buildTerms(item),
+});
+
+// Object URLs are created once per record and reused while the page lives
+const thumbnailUrls = new Map<string, string>();
+
+const toHistoryItem = (record: HistoryRecord): HistoryItem => {
+  const { thumbnail, sourceId, congestion, violationTypes, terms, ...result } = record;
+  let url = thumbnailUrls.get(record.id) || '';
+  if (!url && thumbnail) {
+    url = URL.createObjectURL(thumbnail);
+    thumbnailUrls.set(record.id, url);
+  }
+  return { ...result, thumbnail: url, ...(sourceId ? { sourceId } : {}) };
+};
+
+const releaseThumbnail = (id: string) => {
+  const url = thumbnailUrls.get(id);
+  if (url) URL.revokeObjectURL(url);
+  thumbnailUrls.delete(id);
+};
+
+/** Downscales an image (data URL or object URL) to a JPEG thumbnail Blob. */
+export const createThumbnail = (src: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_MAX_WIDTH / img.naturalWidth);
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height);
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Thumbnail encoding failed'))), 'image/jpeg', THUMBNAIL_QUALITY);
+    };
+    img.onerror = () => reject(new Error('Thumbnail image could not be decoded'));
+    img.src = src;
+  });
+
+// Deletes records past the age limit, then the oldest beyond the item limit
+const applyRetention = async (db: IDBDatabase) => {
+  const tx = db.transaction(STORE, 'readwrite');
+  const index = tx.objectStore(STORE).index('timestamp');
+  const expired = await request(index.getAllKeys(IDBKeyRange.upperBound(Date.now() - HISTORY_RETENTION.maxAgeMs, true)));
+  const remaining = (await request(index.count())) - expired.length;
+  const overflow = remaining > HISTORY_RETENTION.maxItems
+    ? await request(index.getAllKeys(null, expired.length + remaining - HISTORY_RETENTION.maxItems))
+    : [];
+  const ids = [...new Set([...expired, ...overflow])] as string[];
+  ids.forEach(id => {
+    tx.objectStore(STORE).delete(id);
+    releaseThumbnail(id);
+  });
+  await transactionDone(tx);
+  return ids;
+};
+
+export const addHistoryItem = async (item: FullAnalysisResult & { id: string; sourceId?: string }, thumbnail: Blob) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  tx.objectStore(STORE).put(toRecord(item, thumbnail));
+  await transactionDone(tx);
+  await applyRetention(db);
+  notify();
+};
+
+// Later enrichment of a saved result (e.g. location context); a record retention already removed is left alone
+export const updateHistoryItem = async (id: string, patch: Partial<FullAnalysisResult>) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const record = await request<HistoryRecord | undefined>(store.get(id));
+  if (!record) return;
+  const { thumbnail, congestion, violationTypes, terms, ...item } = record;
+  store.put(toRecord({ ...item, ...patch }, thumbnail));
+  await transactionDone(tx);
+  notify();
+};
+
+/**
+ * Restores exported items, keeping their ids (so importing twice replaces rather
+ * than duplicates). Returns how many were stored and how many retention removed
+ * straight away for being too old.
+ */
+export const importHistoryItems = async (entries: { item: FullAnalysisResult & { id: string; sourceId?: string }; thumbnail: Blob | null }[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  entries.forEach(({ item, thumbnail }) => {
+    releaseThumbnail(item.id);
+    tx.objectStore(STORE).put(toRecord(item, thumbnail));
+  });
+  await transactionDone(tx);
+  const removed = new Set(await applyRetention(db));
+  notify();
+  const expired = entries.filter(({ item }) => removed.has(item.id)).length;
+  return { imported: entries.length - expired, expired };
+};
+
+export const deleteHistoryItems = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(STORE).delete(id);
+    releaseThumbnail(id);
+  });
+  await transactionDone(tx);
+  notify();
+};
+
+// Facet values of a record; violation facets can hold several values
+const facetValues = (record: HistoryRecord): Record<HistoryFacet, string[]> => ({
+  source: [record.sourceId],
+  flowStatus: [record.analysis.trafficFlowStatus],
+  violationType: record.violationTypes,
+  severity: [...new Set(record.analysis.detectedViolations.map(v => v.severity))],
+  model: [record.pipeline?.model || ''],
+  promptRevision: [record.pipeline?.promptRevision ? String(record.pipeline.promptRevision) : ''],
+});
+
+const FACET_FILTERS: [HistoryFacet, keyof HistoryQuery][] = [
+  ['source', 'sourceIds'],
+  ['flowStatus', 'flowStatuses'],
+  ['violationType', 'violationTypes'],
+  ['severity', 'severities'],
+  ['model', 'models'],
+  ['promptRevision', 'promptRevisions'],
+];
+
+const matchesFilters = (record: HistoryRecord, query: HistoryQuery, words: string[]): boolean =>
+  (query.from === undefined || record.timestamp >= query.from)
+  && (query.to === undefined || record.timestamp <= query.to)
+  && (query.minCongestion === undefined || record.congestion >= query.minCongestion)
+  && (query.maxCongestion === undefined || record.congestion <= query.maxCongestion)
+  && words.every(word => record.terms.some(term => term.startsWith(word)));
+
+const matchesFacets = (record: HistoryRecord, query: HistoryQuery): boolean => {
+  const values = facetValues(record);
+  return FACET_FILTERS.every(([facet, key]) => {
+    const selected = query[key] as string[] | undefined;
+    return !selected || selected.length === 0 || values[facet].some(v => selected.includes(v));
+  });
+};
+
+const countFacets = (records: HistoryRecord[]): HistoryFacets => {
+  const facets: HistoryFacets = { source: {}, flowStatus: {}, violationType: {}, severity: {}, model: {}, promptRevision: {} };
+  records.forEach(record => {
+    const values = facetValues(record);
+    (Object.keys(facets) as HistoryFacet[]).forEach(facet => {
+      values[facet].filter(Boolean).forEach(value => {
+        facets[facet][value] = (facets[facet][value] || 0) + 1;
+      });
+    });
+  });
+  return facets;
+};
+
+const SORT_KEYS: Record<HistorySortField, (record: HistoryRecord) => number> = {
+  timestamp: r => r.timestamp,
+  congestion: r => r.congestion,
+  vehicles: r => r.analysis.totalVehicles,
+  violations: r => r.analysis.detectedViolations.length,
+};
+
+const hasFacetFilters = (query: HistoryQuery) =>
+  FACET_FILTERS.some(([, key]) => ((query[key] as string[] | undefined) || []).length > 0);
+
+/** One page of history matching every field of the query, with facet counts if asked for. */
+export const queryHistory = async (query: HistoryQuery = {}, offset = 0, limit = 25, withFacets = false): Promise<HistoryPage> => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const words = tokenize(query.text || '');
+  const sort = query.sort || { field: 'timestamp', direction: 'desc' };
+  const timeRange = IDBKeyRange.bound(query.from ?? -Infinity, query.to ?? Infinity);
+
+  const needsScan = withFacets || words.length > 0 || sort.field !== 'timestamp' || hasFacetFilters(query)
+    || query.minCongestion !== undefined || query.maxCongestion !== undefined;
+
+  if (!needsScan) {
+    // A time range in time order is an index range: page with a cursor
+    const index = store.index('timestamp');
+    const total = await request(index.count(timeRange));
+    const items: HistoryItem[] = [];
+    await new Promise<void>((resolve, reject) => {
+      let skipped = offset === 0;
+      const req = index.openCursor(timeRange, sort.direction === 'desc' ? 'prev' : 'next');
+      req.onerror = () => reject(req.error);
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor || items.length >= limit) return resolve();
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        items.push(toHistoryItem(cursor.value));
+        cursor.continue();
+      };
+    });
+    return { items, total };
+  }
+
+  // Candidates come from the most selective non-facet index; the rest is filtered in memory
+  let candidates: HistoryRecord[];
+  if (words.length > 0) {
+    const longest = words.reduce((a, b) => (b.length > a.length ? b : a));
+    candidates = await request(store.index('terms').getAll(IDBKeyRange.bound(longest, longest + '\uffff')));
+  } else if (query.minCongestion !== undefined || query.maxCongestion !== undefined) {
+    candidates = await request(store.index('congestion').getAll(
+      IDBKeyRange.bound(query.minCongestion ?? -Infinity, query.maxCongestion ?? Infinity)
+    ));
+  } else {
+    candidates = await request(store.index('timestamp').getAll(timeRange));
+  }
+
+  const unique = new Map(candidates.map(record => [record.id, record]));
+  const filtered = [...unique.values()].filter(record => matchesFilters(record, query, words));
+  const sortKey = SORT_KEYS[sort.field];
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  const matched = filtered
+    .filter(record => matchesFacets(record, query))
+    .sort((a, b) => sign * (sortKey(a) - sortKey(b)) || b.timestamp - a.timestamp);
+
+  return {
+    items: matched.slice(offset, offset + limit).map(toHistoryItem),
+    total: matched.length,
+    ...(withFacets ? { facets: countFacets(filtered) } : {}),
+  };
+};
+
+/** One-time import of the old localStorage history (base64 thumbnails) into IndexedDB. */
+export const migrateLegacyHistory = async () => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return 0;
+
+  let items: HistoryItem[] = [];
+  try {
+    items = JSON.parse(saved);
+  } catch (e) {
+    console.error('Failed to parse legacy history', e);
+  }
+
+  const records: HistoryRecord[] = [];
+  for (const item of items) {
+    try {
+      records.push(toRecord(item, await createThumbnail(item.thumbnail)));
+    } catch (e) {
+      console.warn(`Skipping legacy history item ${item.id}`, e);
+    }
+  }
+
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  records.forEach(record => tx.objectStore(STORE).put(record));
+  await transactionDone(tx);
+  await applyRetention(db);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  notify();
+  return records.length;
+};
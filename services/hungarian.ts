@@ -0,0 +1,75 @@
+// Hungarian (Kuhn-Munkres) algorithm for minimum-cost assignment.
+// O(n^2 * m) implementation with row/column potentials; works on rectangular matrices.
+
+const UNASSIGNABLE = 1e9;
+
+/**
+ * Returns, for each row of `cost`, the column it is assigned to, or -1.
+ * Entries that are not finite or exceed `maxCost` are never assigned.
+ */
+export const solveAssignment = (cost: number[][], maxCost = Infinity): number[] => {
+  const rows = cost.length;
+  const cols = rows > 0 ? cost[0].length : 0;
+  if (rows === 0 || cols === 0) return new Array(rows).fill(-1);
+
+  // The algorithm needs rows <= cols, so solve the transpose when needed
+  const transposed = rows > cols;
+  const n = transposed ? cols : rows;
+  const m = transposed ? rows : cols;
+  const at = (i: number, j: number) => {
+    const c = transposed ? cost[j][i] : cost[i][j];
+    return Number.isFinite(c) && c <= maxCost ? c : UNASSIGNABLE;
+  };
+
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0); // p[j] = row matched to column j (1-based)
+  const way = new Array(m + 1).fill(0);
+
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(Infinity);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = Infinity;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = at(i0 - 1, j - 1) - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0);
+  }
+
+  const result = new Array(rows).fill(-1);
+  for (let j = 1; j <= m; j++) {
+    if (p[j] === 0 || at(p[j] - 1, j - 1) >= UNASSIGNABLE) continue;
+    if (transposed) result[j - 1] = p[j] - 1;
+    else result[p[j] - 1] = j - 1;
+  }
+  return result;
+};
@@ -0,0 +1,105 @@
+// incidentService.ts — turns tracking-derived violations into incident records
+// with evidence: the annotated frame the violation was flagged on, the frames
+// before and after it, and a crop of the offending object.
+
+import { DetectionItem, Violation } from '../types';
+import { annotateImage, loadImage } from './overlayRenderer';
+import { addIncident, attachFrameAfter } from './incidentStore';
+
+const FRAME_MAX_WIDTH = 960;
+const CROP_MAX_SIZE = 320;
+const CROP_PADDING = 0.15; // Fraction of the box added on every side
+const JPEG_QUALITY = 0.8;
+
+export interface IncidentFrame {
+  src: string; // The analysed frame (data URL)
+  timestamp: number;
+  detections: DetectionItem[]; // Tracked detections, as drawn on the monitor
+  violations: Violation[]; // Tracking-derived violations flagged on this frame
+  sourceId?: string;
+  analysisId?: string;
+}
+
+const toBlob = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Evidence image encoding failed'))), 'image/jpeg', JPEG_QUALITY);
+  });
+
+// The padded box_2d region of the unannotated frame
+const cropObject = (img: HTMLImageElement, box: [number, number, number, number]): Promise<Blob> => {
+  const [ymin, xmin, ymax, xmax] = box;
+  const padX = (xmax - xmin) * CROP_PADDING;
+  const padY = (ymax - ymin) * CROP_PADDING;
+  const sx = Math.max(0, ((xmin - padX) / 1000) * img.naturalWidth);
+  const sy = Math.max(0, ((ymin - padY) / 1000) * img.naturalHeight);
+  const sw = Math.min(img.naturalWidth, ((xmax + padX) / 1000) * img.naturalWidth) - sx;
+  const sh = Math.min(img.naturalHeight, ((ymax + padY) / 1000) * img.naturalHeight) - sy;
+  const scale = Math.min(1, CROP_MAX_SIZE / Math.max(sw, sh));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(sw * scale));
+  canvas.height = Math.max(1, Math.round(sh * scale));
+  canvas.getContext('2d')?.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+  return toBlob(canvas);
+};
+
+/**
+ * Records incidents frame by frame. Frames are handled strictly in order (the
+ * "after" frame of one violation is the next frame recorded), so `record` can be
+ * called without awaiting it.
+ */
+export class IncidentRecorder {
+  private previous: { src: string; detections: DetectionItem[] } | null = null;
+  private awaitingAfter: string[] = [];
+  private queue: Promise<void> = Promise.resolve();
+
+  public record(frame: IncidentFrame): Promise<void> {
+    this.queue = this.queue
+      .then(() => this.process(frame))
+      .catch(e => console.error('Failed to record incidents', e));
+    return this.queue;
+  }
+
+  /** Forgets the previous frame, e.g. when the source changes. */
+  public reset() {
+    this.previous = null;
+    this.awaitingAfter = [];
+  }
+
+  private async process(frame: IncidentFrame) {
+    const tracked = frame.violations.filter(v => v.trackId !== undefined);
+    const previous = this.previous;
+    this.previous = { src: frame.src, detections: frame.detections };
+    if (tracked.length === 0 && this.awaitingAfter.length === 0) return;
+
+    const img = await loadImage(frame.src);
+    const annotated = await toBlob(annotateImage(img, frame.detections, FRAME_MAX_WIDTH));
+
+    const waiting = this.awaitingAfter;
+    this.awaitingAfter = [];
+    await Promise.all(waiting.map(id => attachFrameAfter(id, annotated)));
+
+    if (tracked.length === 0) return;
+    const before = previous
+      ? await toBlob(annotateImage(await loadImage(previous.src), previous.detections, FRAME_MAX_WIDTH))
+      : null;
+
+    for (const violation of tracked) {
+      const detection = frame.detections.find(d => d.trackId === violation.trackId);
+      const id = crypto.randomUUID();
+      await addIncident({
+        id,
+        timestamp: frame.timestamp,
+        violation,
+        trackId: violation.trackId,
+        objectClass: detection?.object,
+        sourceId: frame.sourceId,
+        analysisId: frame.analysisId,
+        frame: annotated,
+        frameBefore: before,
+        frameAfter: null,
+        crop: detection?.box_2d ? await cropObject(img, detection.box_2d) : null,
+      });
+      this.awaitingAfter.push(id);
+    }
+  }
+}
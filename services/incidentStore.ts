@@ -0,0 +1,173 @@
+// incidentStore.ts — violation incidents and their evidence images, persisted
+// in IndexedDB next to the analysis history, with their review status.
+
+import { Incident, IncidentStatus } from '../types';
+import { INCIDENT_STORE, openDb, request, transactionDone } from './localDb';
+
+const STORE = INCIDENT_STORE;
+
+export const INCIDENT_STATUSES: IncidentStatus[] = ['pending', 'confirmed', 'dismissed'];
+
+// Oldest incidents beyond this are deleted, whatever their status
+export const INCIDENT_RETENTION = { maxItems: 1000 };
+
+type ImageField = 'frame' | 'frameBefore' | 'frameAfter' | 'crop';
+const IMAGE_FIELDS: ImageField[] = ['frame', 'frameBefore', 'frameAfter', 'crop'];
+
+interface IncidentRecord extends Omit<Incident, ImageField | 'sourceId'> {
+  sourceId: string; // '' when unknown
+  frame: Blob;
+  frameBefore: Blob | null;
+  frameAfter: Blob | null;
+  crop: Blob | null;
+}
+
+// What the recorder hands over: the incident without review state, images as Blobs
+export type NewIncident = Omit<IncidentRecord, 'status' | 'reviewedAt' | 'note' | 'sourceId'> & { sourceId?: string };
+
+export interface IncidentPage {
+  items: Incident[];
+  total: number;
+  counts: Record<IncidentStatus, number>;
+}
+
+// Change notifications
+
+type IncidentListener = () => void;
+const listeners = new Set<IncidentListener>();
+
+export const onIncidentsChange = (listener: IncidentListener): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+const notify = () => listeners.forEach(listener => listener());
+
+// Object URLs, created once per image and reused while the page lives
+
+const imageUrls = new Map<string, string>();
+
+const imageUrl = (id: string, field: ImageField, blob: Blob | null): string | undefined => {
+  if (!blob) return undefined;
+  const key = `${id}:${field}`;
+  let url = imageUrls.get(key);
+  if (!url) {
+    url = URL.createObjectURL(blob);
+    imageUrls.set(key, url);
+  }
+  return url;
+};
+
+const releaseImages = (id: string) => IMAGE_FIELDS.forEach(field => {
+  const key = `${id}:${field}`;
+  const url = imageUrls.get(key);
+  if (url) URL.revokeObjectURL(url);
+  imageUrls.delete(key);
+});
+
+const toIncident = (record: IncidentRecord): Incident => {
+  const { frame, frameBefore, frameAfter, crop, sourceId, ...incident } = record;
+  return {
+    ...incident,
+    ...(sourceId ? { sourceId } : {}),
+    frame: imageUrl(record.id, 'frame', frame)!,
+    frameBefore: imageUrl(record.id, 'frameBefore', frameBefore),
+    frameAfter: imageUrl(record.id, 'frameAfter', frameAfter),
+    crop: imageUrl(record.id, 'crop', crop),
+  };
+};
+
+const applyRetention = async (db: IDBDatabase) => {
+  const tx = db.transaction(STORE, 'readwrite');
+  const index = tx.objectStore(STORE).index('timestamp');
+  const overflow = (await request(index.count())) - INCIDENT_RETENTION.maxItems;
+  if (overflow > 0) {
+    const ids = (await request(index.getAllKeys(null, overflow))) as string[];
+    ids.forEach(id => {
+      tx.objectStore(STORE).delete(id);
+      releaseImages(id);
+    });
+  }
+  await transactionDone(tx);
+};
+
+export const addIncident = async (incident: NewIncident) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const record: IncidentRecord = { ...incident, sourceId: incident.sourceId || '', status: 'pending' };
+  tx.objectStore(STORE).put(record);
+  await transactionDone(tx);
+  await applyRetention(db);
+  notify();
+};
+
+// Reads, changes and writes back one record in a single transaction
+const patchIncident = async (id: string, patch: (record: IncidentRecord) => void) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  const store = tx.objectStore(STORE);
+  const record = await request<IncidentRecord | undefined>(store.get(id));
+  if (!record) return;
+  patch(record);
+  store.put(record);
+  await transactionDone(tx);
+  notify();
+};
+
+/** Adds the frame that followed the violation, once it has been analysed. */
+export const attachFrameAfter = (id: string, frameAfter: Blob) =>
+  patchIncident(id, record => { record.frameAfter = frameAfter; });
+
+export const reviewIncident = (id: string, status: IncidentStatus, note?: string) =>
+  patchIncident(id, record => {
+    record.status = status;
+    record.reviewedAt = status === 'pending' ? undefined : Date.now();
+    if (note !== undefined) record.note = note || undefined;
+  });
+
+export const deleteIncidents = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(STORE, 'readwrite');
+  ids.forEach(id => {
+    tx.objectStore(STORE).delete(id);
+    releaseImages(id);
+  });
+  await transactionDone(tx);
+  notify();
+};
+
+/** Newest first, optionally one status only, with the number of incidents in each status. */
+export const queryIncidents = async (status?: IncidentStatus, offset = 0, limit = 25): Promise<IncidentPage> => {
+  const db = await openDb();
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const statusIndex = store.index('status_time');
+  const statusRange = (s: IncidentStatus) => IDBKeyRange.bound([s, -Infinity], [s, Infinity]);
+
+  const counts = {} as Record<IncidentStatus, number>;
+  for (const s of INCIDENT_STATUSES) counts[s] = await request(statusIndex.count(statusRange(s)));
+  const total = status ? counts[status] : INCIDENT_STATUSES.reduce((sum, s) => sum + counts[s], 0);
+
+  // Both indexes end in the timestamp, so a reverse cursor pages newest first
+  const items: Incident[] = [];
+  if (limit > 0) {
+    await new Promise<void>((resolve, reject) => {
+      let skipped = offset === 0;
+      const req = status
+        ? statusIndex.openCursor(statusRange(status), 'prev')
+        : store.index('timestamp').openCursor(null, 'prev');
+      req.onerror = () => reject(req.error);
+      req.onsuccess = () => {
+        const cursor = req.result;
+        if (!cursor || items.length >= limit) return resolve();
+        if (!skipped) {
+          skipped = true;
+          cursor.advance(offset);
+          return;
+        }
+        items.push(toIncident(cursor.value));
+        cursor.continue();
+      };
+    });
+  }
+  return { items, total, counts };
+};
@@ -0,0 +1,126 @@
+// Constant-velocity Kalman filters for bounding boxes.
+// Each box coordinate (centre x/y, width, height) is an independent [position, velocity]
+// filter, which keeps the maths scalar while still predicting motion through missed frames.
+
+export interface MotionModel {
+  processNoise: number;     // Acceleration variance for the centre (normalized units/s^2)
+  sizeProcessNoise: number; // Same for width/height; boxes change size slowly
+  measurementNoise: number; // Detector jitter variance (normalized units^2)
+}
+
+export const DEFAULT_MOTION_MODEL: MotionModel = {
+  processNoise: 0.002,
+  sizeProcessNoise: 0.0002,
+  measurementNoise: 0.0004,
+};
+
+class AxisFilter {
+  private p: number;
+  private v = 0;
+  // Covariance [[p00, p01], [p10, p11]]
+  private p00: number;
+  private p01 = 0;
+  private p10 = 0;
+  private p11 = 1;
+
+  constructor(position: number, private q: number, private r: number) {
+    this.p = position;
+    this.p00 = r;
+  }
+
+  predict(dt: number) {
+    this.p += this.v * dt;
+
+    // P = F P F^T + Q, F = [[1, dt], [0, 1]], Q from white-noise acceleration
+    const p00 = this.p00 + dt * (this.p10 + this.p01) + dt * dt * this.p11;
+    const p01 = this.p01 + dt * this.p11;
+    const p10 = this.p10 + dt * this.p11;
+    this.p00 = p00 + (this.q * dt ** 4) / 4;
+    this.p01 = p01 + (this.q * dt ** 3) / 2;
+    this.p10 = p10 + (this.q * dt ** 3) / 2;
+    this.p11 = this.p11 + this.q * dt * dt;
+    return this.p;
+  }
+
+  update(z: number) {
+    const s = this.p00 + this.r;
+    const k0 = this.p00 / s;
+    const k1 = this.p10 / s;
+    const y = z - this.p;
+    this.p += k0 * y;
+    this.v += k1 * y;
+
+    const p00 = (1 - k0) * this.p00;
+    const p01 = (1 - k0) * this.p01;
+    this.p10 = this.p10 - k1 * this.p00;
+    this.p11 = this.p11 - k1 * this.p01;
+    this.p00 = p00;
+    this.p01 = p01;
+    return this.p;
+  }
+
+  get position() { return this.p; }
+  get velocity() { return this.v; }
+  get variance() { return this.p00; }
+}
+
+/** Box filter in the tracker's box format: [ymin, xmin, ymax, xmax], normalized 0-1000. */
+export class KalmanBoxFilter {
+  private cx: AxisFilter;
+  private cy: AxisFilter;
+  private w: AxisFilter;
+  private h: AxisFilter;
+
+  constructor(box: [number, number, number, number], model: MotionModel = DEFAULT_MOTION_MODEL) {
+    const [cx, cy, w, h] = KalmanBoxFilter.toState(box);
+    this.cx = new AxisFilter(cx, model.processNoise, model.measurementNoise);
+    this.cy = new AxisFilter(cy, model.processNoise, model.measurementNoise);
+    this.w = new AxisFilter(w, model.sizeProcessNoise, model.measurementNoise);
+    this.h = new AxisFilter(h, model.sizeProcessNoise, model.measurementNoise);
+  }
+
+  /** Advances the state by dt seconds and returns the predicted box. */
+  predict(dt: number): [number, number, number, number] {
+    this.cx.predict(dt);
+    this.cy.predict(dt);
+    this.w.predict(dt);
+    this.h.predict(dt);
+    return this.getBox();
+  }
+
+  /** Corrects the state with a measured box and returns the filtered box. */
+  update(box: [number, number, number, number]): [number, number, number, number] {
+    const [cx, cy, w, h] = KalmanBoxFilter.toState(box);
+    this.cx.update(cx);
+    this.cy.update(cy);
+    this.w.update(w);
+    this.h.update(h);
+    return this.getBox();
+  }
+
+  getBox(): [number, number, number, number] {
+    const w = Math.max(0.001, this.w.position);
+    const h = Math.max(0.001, this.h.position);
+    return [
+      (this.cy.position - h / 2) * 1000,
+      (this.cx.position - w / 2) * 1000,
+      (this.cy.position + h / 2) * 1000,
+      (this.cx.position + w / 2) * 1000,
+    ];
+  }
+
+  /** Centre velocity [vx, vy] in normalized units per second. */
+  getVelocity(): [number, number] {
+    return [this.cx.velocity, this.cy.velocity];
+  }
+
+  /** Standard deviation of the centre position estimate (normalized units). */
+  getPositionUncertainty(): number {
+    return Math.sqrt((this.cx.variance + this.cy.variance) / 2);
+  }
+
+  private static toState(box: [number, number, number, number]): [number, number, number, number] {
+    const [ymin, xmin, ymax, xmax] = box;
+    return [(xmin + xmax) / 2000, (ymin + ymax) / 2000, (xmax - xmin) / 1000, (ymax - ymin) / 1000];
+  }
+}
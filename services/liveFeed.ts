@@ -0,0 +1,146 @@
+// liveFeed.ts — client for the backend's live feeds (/api/live): per-agent
+// progress and final results of every analysis of a source, pushed over
+// Server-Sent Events to everyone watching it. All subscriptions share one
+// connection, which is reopened when the set of watched feeds or the backend
+// changes.
+
+import { AgentRunState, AgentStage, FullAnalysisResult } from "../types";
+import { getBackendUrl, onBackendConfigChange } from "./configService";
+import { assertFullAnalysisResult } from "./validationService";
+
+export interface LiveProgress {
+  feedId: string;
+  jobId: string;
+  agent: string; // Agent id from the pipeline definition
+  state: 'started' | 'completed' | 'failed' | 'skipped'; // Skipped: an optional agent it depends on failed
+  stage?: AgentStage; // With 'completed': the agent's timing, usage and output
+  error?: string;
+  at: number;
+}
+
+export interface LiveResult {
+  feedId: string;
+  jobId: string;
+  capturedAt: number;
+  frameSrc: string; // The analysed frame as a data URL
+  result: FullAnalysisResult;
+}
+
+export type LiveEvent =
+  | { type: 'progress'; progress: LiveProgress }
+  | { type: 'result'; result: LiveResult }
+  | { type: 'failed'; feedId: string; jobId: string; error: string }
+  | { type: 'viewers'; feedId: string; count: number; recording: boolean } // recording: this browser is the one saving the feed (see subscribeToFeed)
+  | { type: 'error'; feedId: string; error: string }; // The connection could not be opened
+
+export interface LiveFeedInfo {
+  feedId: string; // A source id
+  viewers: number;
+  lastEventAt: number;
+  lastResultAt: number | null;
+}
+
+const RECONNECT_DELAY_MS = 100; // Lets several tiles subscribe before the connection is reopened
+
+export const newJobId = () => Math.random().toString(36).substr(2, 9);
+
+export const listLiveFeeds = async (): Promise<LiveFeedInfo[]> => {
+  const response = await fetch(`${getBackendUrl()}/api/live`);
+  if (!response.ok) throw new Error(`Live feed request failed: ${response.status} ${response.statusText}`);
+  return response.json();
+};
+
+/** The state a progress event puts its agent in. */
+export const progressState = ({ state }: LiveProgress): AgentRunState => (state === 'started' ? 'running' : state);
+
+const listeners = new Map<string, Set<(event: LiveEvent) => void>>();
+const recordingListeners = new Set<(event: LiveEvent) => void>();
+const deliveredJobs = new Map<string, string>(); // Last result per feed; reconnecting replays it
+let source: EventSource | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+const offersRecording = (feedListeners: Set<(event: LiveEvent) => void>) =>
+  [...feedListeners].some(listener => recordingListeners.has(listener));
+
+const emit = (feedId: string, event: LiveEvent) => listeners.get(feedId)?.forEach(listener => listener(event));
+
+const connect = () => {
+  reconnectTimer = null;
+  source?.close();
+  source = null;
+  if (listeners.size === 0) return;
+
+  let backendUrl: string;
+  try {
+    backendUrl = getBackendUrl();
+  } catch (err) {
+    const error = (err as Error).message;
+    listeners.forEach((_, feedId) => emit(feedId, { type: 'error', feedId, error }));
+    return;
+  }
+  const params = new URLSearchParams();
+  listeners.forEach((feedListeners, feedId) => {
+    params.append('feed', feedId);
+    if (offersRecording(feedListeners)) params.append('record', feedId);
+  });
+  source = new EventSource(`${backendUrl}/api/live/events?${params}`);
+  source.addEventListener('progress', e => {
+    const progress: LiveProgress = JSON.parse((e as MessageEvent).data);
+    emit(progress.feedId, { type: 'progress', progress });
+  });
+  source.addEventListener('result', e => {
+    const { feedId, jobId, capturedAt, image, mimeType, result } = JSON.parse((e as MessageEvent).data);
+    if (deliveredJobs.get(feedId) === jobId) return;
+    deliveredJobs.set(feedId, jobId);
+    try {
+      const frameSrc = `data:${mimeType};base64,${image}`;
+      emit(feedId, { type: 'result', result: { feedId, jobId, capturedAt, frameSrc, result: assertFullAnalysisResult(result) } });
+    } catch (err) {
+      console.warn(`Ignoring invalid pushed result for ${feedId}:`, (err as Error).message);
+    }
+  });
+  source.addEventListener('failed', e => {
+    const { feedId, jobId, error } = JSON.parse((e as MessageEvent).data);
+    emit(feedId, { type: 'failed', feedId, jobId, error });
+  });
+  source.addEventListener('viewers', e => {
+    const { feedId, count, recording } = JSON.parse((e as MessageEvent).data);
+    emit(feedId, { type: 'viewers', feedId, count, recording: !!recording });
+  });
+};
+
+const scheduleConnect = () => {
+  if (!reconnectTimer) reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+};
+
+onBackendConfigChange(() => {
+  if (listeners.size > 0) scheduleConnect();
+});
+
+/**
+ * Watches a feed (a source id); the connection closes with the last subscriber.
+ * With record, this browser offers to save what the feed shows: of all the
+ * browsers offering, the backend elects one at a time, announced by the
+ * `recording` flag of 'viewers' events.
+ */
+export const subscribeToFeed = (feedId: string, listener: (event: LiveEvent) => void, { record = false } = {}): (() => void) => {
+  const feedListeners = listeners.get(feedId) || new Set();
+  const wasRecording = offersRecording(feedListeners);
+  feedListeners.add(listener);
+  listeners.set(feedId, feedListeners);
+  if (record) recordingListeners.add(listener);
+  if (feedListeners.size === 1 || offersRecording(feedListeners) !== wasRecording) scheduleConnect();
+
+  return () => {
+    const wasRecording = offersRecording(feedListeners);
+    feedListeners.delete(listener);
+    recordingListeners.delete(listener);
+    if (feedListeners.size > 0) {
+      if (offersRecording(feedListeners) !== wasRecording) scheduleConnect();
+      return;
+    }
+    listeners.delete(feedId);
+    deliveredJobs.delete(feedId);
+    scheduleConnect();
+  };
+};
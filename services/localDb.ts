@@ -0,0 +1,57 @@
+// localDb.ts — the app's IndexedDB database and promise wrappers around the
+// IndexedDB request API. Each store module owns its records; schema upgrades
+// for all of them live here, keyed by the version that introduced them.
+
+const DB_NAME = 'multi_ai_agent';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const INCIDENT_STORE = 'incidents';
+
+const UPGRADES: Record<number, (db: IDBDatabase) => void> = {
+  1: db => {
+    const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('source_time', ['sourceId', 'timestamp']);
+    store.createIndex('congestion', 'congestion');
+    store.createIndex('violationTypes', 'violationTypes', { multiEntry: true });
+    store.createIndex('terms', 'terms', { multiEntry: true });
+  },
+  2: db => {
+    const store = db.createObjectStore(INCIDENT_STORE, { keyPath: 'id' });
+    store.createIndex('timestamp', 'timestamp');
+    store.createIndex('status_time', ['status', 'timestamp']);
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const request = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = event => {
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) UPGRADES[version](req.result);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
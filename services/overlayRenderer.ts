@@ -0,0 +1,157 @@
+// overlayRenderer.ts — draws detections (boxes, labels, trajectories, speed tags)
+// and predicted tracks onto a 2D canvas. Shared by the live monitor overlay and
+// the annotated frames in PDF reports.
+
+import { DetectionItem } from '../types';
+
+export interface PredictedTrack {
+  id: number;
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000
+}
+
+export const isViolating = (det: DetectionItem) =>
+  !!(det.isSpeeding || det.isRedLightViolation || det.isWrongWay || det.isInNoEntryZone || det.isJaywalking);
+
+/** Draws onto `ctx` over a width x height area; the caller clears or paints the background. */
+export const renderDetections = (
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  detections: DetectionItem[],
+  predictedTracks: PredictedTrack[] = [],
+) => {
+  // Tracks not detected this frame, drawn at their Kalman-predicted position
+  predictedTracks.forEach(({ id, box }) => {
+    const [ymin, xmin, ymax, xmax] = box;
+    const x = (xmin / 1000) * width;
+    const y = (ymin / 1000) * height;
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = '#64748b';
+    ctx.lineWidth = 1.5;
+    ctx.strokeRect(x, y, ((xmax - xmin) / 1000) * width, ((ymax - ymin) / 1000) * height);
+    ctx.setLineDash([]);
+    ctx.fillStyle = '#94a3b8';
+    ctx.font = '10px monospace';
+    ctx.fillText(`#${id} (predicted)`, x + 2, y - 4);
+  });
+
+  detections.forEach(det => {
+    if (det.box_2d) {
+      // box: [ymin, xmin, ymax, xmax] 0-1000 normalized
+      const [ymin, xmin, ymax, xmax] = det.box_2d;
+
+      const x = (xmin / 1000) * width;
+      const y = (ymin / 1000) * height;
+      const w = ((xmax - xmin) / 1000) * width;
+      const h = ((ymax - ymin) / 1000) * height;
+
+      const isTracked = !!det.trackId;
+
+      // Box Color based on Status
+      let color = isTracked ? '#06b6d4' : '#94a3b8'; // Cyan for tracked, Slate for untracked
+      let lineWidth = 2;
+
+      if (det.isSpeeding || det.isRedLightViolation) {
+        color = '#ef4444'; // Red
+        lineWidth = 4;
+      } else if (det.isWrongWay || det.isInNoEntryZone || det.isJaywalking) {
+        color = '#f59e0b'; // Orange
+        lineWidth = 3;
+      } else if (isTracked && det.trackClass === 'pedestrian') {
+        color = '#c084fc'; // Purple for pedestrians
+      } else if (isTracked && det.trackClass === 'cyclist') {
+        color = '#34d399'; // Green for cyclists
+      } else if (isTracked) {
+        color = '#22d3ee'; // Bright Cyan for active tracking
+        lineWidth = 2;
+      }
+
+      // Draw Trajectory (recent centroid path)
+      if (det.trajectory && det.trajectory.length > 1) {
+        ctx.strokeStyle = color + '99';
+        ctx.lineWidth = det.trackClass === 'pedestrian' ? 2 : 1.5;
+        ctx.beginPath();
+        det.trajectory.forEach(([tx, ty], i) => {
+          const px = tx * width;
+          const py = ty * height;
+          if (i === 0) ctx.moveTo(px, py);
+          else ctx.lineTo(px, py);
+        });
+        ctx.stroke();
+      }
+
+      ctx.strokeStyle = color;
+      ctx.lineWidth = lineWidth;
+
+      // Draw Box
+      ctx.strokeRect(x, y, w, h);
+
+      // Draw distinct overlay for tracked items
+      if (isTracked) {
+        ctx.fillStyle = color + '20'; // 20 hex = ~12% opacity
+        ctx.fillRect(x, y, w, h);
+      }
+
+      // Draw Label Background
+      ctx.fillStyle = color;
+      const labelHeight = 22;
+      ctx.fillRect(x, y - labelHeight, w, labelHeight);
+
+      // Draw Text
+      ctx.fillStyle = isViolating(det) ? '#fff' : '#000';
+      ctx.font = 'bold 11px "JetBrains Mono", monospace';
+
+      // Construct Label
+      let labelText = det.object.toUpperCase();
+      if (isTracked) {
+        labelText = `[#${det.trackId}] ${labelText}`;
+      }
+
+      // Override label for severe violations to keep it readable
+      if (det.isSpeeding) labelText = `⚠️ SPEEDING [#${det.trackId}]`;
+      else if (det.isRedLightViolation) labelText = `🚦 RED LIGHT [#${det.trackId}]`;
+      else if (det.isWrongWay) labelText = `⛔ WRONG WAY [#${det.trackId}]`;
+      else if (det.isInNoEntryZone) labelText = `⛔ NO ENTRY [#${det.trackId}]`;
+      else if (det.isJaywalking) labelText = `🚶 JAYWALKING [#${det.trackId}]`;
+
+      ctx.fillText(labelText, x + 4, y - 6);
+
+      // Draw Speed if available (secondary bottom tag)
+      if (det.estimatedSpeed !== undefined) {
+        const speedText = det.speedUncertainty ? `${det.estimatedSpeed}±${det.speedUncertainty} km/h` : `${det.estimatedSpeed} km/h`;
+        const speedMetrics = ctx.measureText(speedText);
+        const sw = speedMetrics.width + 10;
+
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+        ctx.fillRect(x, y + h, sw, 16);
+
+        ctx.fillStyle = '#fff';
+        ctx.font = '10px monospace';
+        ctx.fillText(speedText, x + 4, y + h + 12);
+      }
+    }
+  });
+};
+
+export const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous'; // Server frames: keeps canvases drawn from them exportable
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Frame image could not be decoded'));
+    img.src = src;
+  });
+
+/** The frame with its detections drawn on, at most `maxWidth` pixels wide. */
+export const annotateImage = (img: HTMLImageElement, detections: DetectionItem[], maxWidth: number): HTMLCanvasElement => {
+  const scale = Math.min(1, maxWidth / img.naturalWidth);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (ctx) {
+    ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+    renderDetections(ctx, canvas.width, canvas.height, detections);
+  }
+  return canvas;
+};
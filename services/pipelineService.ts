@@ -0,0 +1,68 @@
+// pipelineService.ts — the agent pipeline the backend runs on every frame
+// (/api/pipeline): which agents there are and what each depends on, so the
+// UI can draw the DAG, and what each agent is doing during an analysis.
+
+import { AgentDefinition, AgentRunState, AgentStage, AgentStatus, PipelineDefinition } from "../types";
+import { getBackendUrl } from "./configService";
+
+// Agent id -> state, from the live feed's progress events of one analysis
+export type AgentProgress = Record<string, AgentRunState>;
+
+// The backend's stock pipeline (backend/agents/pipeline.json), shown until it answers
+export const DEFAULT_PIPELINE: PipelineDefinition = {
+  name: 'traffic-analysis',
+  agents: [
+    { id: 'vision', label: 'Vision', description: 'Object detection & classification', enabled: true, optional: false, image: true, dependsOn: [] },
+    { id: 'analysis', label: 'Analysis', description: 'Congestion & risk calculation', enabled: true, optional: false, image: true, dependsOn: ['vision'] },
+    { id: 'report', label: 'Reporting', description: 'Summary & strategic output', enabled: true, optional: false, image: false, dependsOn: ['analysis', 'vision'] },
+  ],
+};
+
+export const fetchPipelineDefinition = async (): Promise<PipelineDefinition> => {
+  const response = await fetch(`${getBackendUrl()}/api/pipeline`);
+  if (!response.ok) throw new Error(`Pipeline request failed: ${response.status} ${response.statusText}`);
+  return response.json();
+};
+
+/** Enabled agents in columns: each agent one column after the last agent it depends on. */
+export const pipelineLevels = (definition: PipelineDefinition): AgentDefinition[][] => {
+  const agents = definition.agents.filter(agent => agent.enabled);
+  const byId = new Map(agents.map(agent => [agent.id, agent]));
+  const depths = new Map<string, number>();
+  const depthOf = (agent: AgentDefinition): number => {
+    if (!depths.has(agent.id)) {
+      const deps = agent.dependsOn.map(id => byId.get(id)).filter((dep): dep is AgentDefinition => !!dep);
+      depths.set(agent.id, deps.length === 0 ? 0 : 1 + Math.max(...deps.map(depthOf)));
+    }
+    return depths.get(agent.id)!;
+  };
+
+  const levels: AgentDefinition[][] = [];
+  agents.forEach(agent => {
+    const depth = depthOf(agent);
+    (levels[depth] = levels[depth] || []).push(agent);
+  });
+  return levels.filter(Boolean);
+};
+
+/**
+ * What an agent is doing in the current analysis. Stage records are final;
+ * pushed progress comes next. Without either (no live feed), agents that
+ * need no other agent's output are assumed to be running.
+ */
+export const agentRunState = (
+  agent: AgentDefinition,
+  status: AgentStatus,
+  progress: AgentProgress,
+  stages: AgentStage[],
+): AgentRunState => {
+  const stage = stages.find(s => s.agent === agent.id);
+  if (stage) return stage.error ? 'failed' : 'completed';
+  if (progress[agent.id]) return progress[agent.id];
+  if (status === AgentStatus.COMPLETE) {
+    // Results without stage records (simulation, older history) only say the pipeline finished
+    return stages.length > 0 ? 'skipped' : 'completed';
+  }
+  if (status === AgentStatus.RUNNING && Object.keys(progress).length === 0 && agent.dependsOn.length === 0) return 'running';
+  return 'pending';
+};
@@ -0,0 +1,75 @@
+// promptApi.ts — client for the backend's prompt templates (/api/prompts):
+// the versioned instructions of each agent. Saving adds a version, rolling
+// back re-activates an old one; either bumps the store's revision, which every
+// analysis records in its pipeline record (PipelineRun.promptRevision).
+
+import { adminHeaders, getBackendUrl } from "./configService";
+
+export interface PromptVersion {
+  version: number;
+  text: string;
+  note: string;
+  createdAt: number;
+}
+
+export interface PromptTemplate {
+  agent: string;
+  activeVersion: number;
+  versions: PromptVersion[]; // Oldest first
+}
+
+export interface PromptSummary {
+  agent: string;
+  activeVersion: number;
+  latestVersion: number;
+  text: string; // The active version's
+  updatedAt: number;
+}
+
+export interface PromptRevision {
+  revision: number;
+  at: number;
+  action: 'initial' | 'added' | 'edited' | 'rolled back';
+  agent?: string; // Absent when built-in prompts were added
+  version?: number;
+  note: string;
+  prompts: Record<string, number>; // Agent -> active version after the change
+}
+
+export interface PromptDiff {
+  agent: string;
+  from: number;
+  to: number;
+  changes: { op: 'equal' | 'insert' | 'delete'; text: string }[]; // Word-level
+}
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${getBackendUrl()}/api/prompts${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Prompt request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+};
+
+// Only admin calls post: saving and rolling back need the token from the backend settings
+const post = (body: unknown): RequestInit => ({
+  method: "POST",
+  headers: { "Content-Type": "application/json", ...adminHeaders() },
+  body: JSON.stringify(body),
+});
+
+export const listPrompts = () => request<{ revision: number; agents: PromptSummary[] }>("");
+
+export const listPromptRevisions = () => request<PromptRevision[]>("/revisions");
+
+export const getPrompt = (agent: string) => request<PromptTemplate>(`/${encodeURIComponent(agent)}`);
+
+export const savePrompt = (agent: string, text: string, note?: string) =>
+  request<PromptTemplate>(`/${encodeURIComponent(agent)}`, post({ text, note }));
+
+export const rollbackPrompt = (agent: string, version: number) =>
+  request<PromptTemplate>(`/${encodeURIComponent(agent)}/rollback`, post({ version }));
+
+export const diffPrompt = (agent: string, from: number, to: number) =>
+  request<PromptDiff>(`/${encodeURIComponent(agent)}/diff?${new URLSearchParams({ from: String(from), to: String(to) })}`);
@@ -0,0 +1,398 @@
+// reportService.ts — printable PDF incident report for one analysis or a whole
+// session: key figures, annotated frames, charts, the violation table, location
+// context and the agents' recommendations. Laid out on A4 in millimetres.
+
+import { jsPDF } from 'jspdf';
+import { FullAnalysisResult, Severity, Violation } from '../types';
+import { BUSY_CLASS_COUNT, CompositionEntry, TrendPoint, latestViolationEvents, sessionTrend, vehicleComposition, withEventOutcome } from './analysisStats';
+import { annotateImage, loadImage } from './overlayRenderer';
+import { describeSource } from './sourceSettingsStore';
+
+export interface ReportEntry {
+  result: FullAnalysisResult;
+  image?: string; // Frame the result was computed on (data, object or server URL)
+  sourceId?: string;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 15;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * MARGIN;
+const FOOTER_HEIGHT = 10;
+
+const MAX_FRAME_WIDTH = 1280; // px the annotated frames are rendered at
+const MAX_FRAME_PAGES = 12; // Session reports: frames beyond this are left out, least eventful first
+const MAX_RECOMMENDATIONS = 10;
+
+type RGB = [number, number, number];
+const COLORS: Record<string, RGB> = {
+  text: [15, 23, 42],
+  muted: [100, 116, 139],
+  rule: [203, 213, 225],
+  panel: [241, 245, 249],
+  accent: [6, 182, 212],
+  busy: [245, 158, 11],
+  danger: [239, 68, 68],
+};
+const SEVERITY_COLORS: Record<Severity, RGB> = { High: [239, 68, 68], Medium: [245, 158, 11], Low: [100, 116, 139] };
+const SEVERITY_ORDER: Severity[] = ['High', 'Medium', 'Low'];
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleString();
+
+interface AnnotatedFrame {
+  dataUrl: string;
+  aspect: number; // height / width
+}
+
+/** Draws the result's boxes and labels over its frame; null if the frame cannot be read. */
+const annotateFrame = async (src: string, result: FullAnalysisResult): Promise<AnnotatedFrame | null> => {
+  try {
+    const canvas = annotateImage(await loadImage(src), result.detections, MAX_FRAME_WIDTH);
+    return { dataUrl: canvas.toDataURL('image/jpeg', 0.85), aspect: canvas.height / canvas.width };
+  } catch (e) {
+    console.warn('Report frame left out', e);
+    return null;
+  }
+};
+
+// Cursor-based page writer: every block asks for the height it needs and moves to a new page if it doesn't fit
+const createWriter = (doc: jsPDF) => {
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  const setColor = (color: RGB) => doc.setTextColor(color[0], color[1], color[2]);
+
+  const heading = (text: string) => {
+    ensureSpace(14);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    setColor(COLORS.text);
+    doc.text(text, MARGIN, y);
+    y += 2;
+    doc.setDrawColor(...COLORS.rule);
+    doc.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    y += 5;
+  };
+
+  const paragraph = (text: string, { size = 10, color = COLORS.text, indent = 0, bold = false } = {}) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.setFontSize(size);
+    setColor(color);
+    const lineHeight = size * 0.45;
+    (doc.splitTextToSize(text, CONTENT_WIDTH - indent) as string[]).forEach(line => {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y + lineHeight * 0.8);
+      y += lineHeight;
+    });
+    y += 1.5;
+  };
+
+  const image = (frame: AnnotatedFrame, caption: string, maxHeight = 120) => {
+    const width = Math.min(CONTENT_WIDTH, maxHeight / frame.aspect);
+    const height = width * frame.aspect;
+    ensureSpace(height + 8);
+    doc.addImage(frame.dataUrl, 'JPEG', MARGIN + (CONTENT_WIDTH - width) / 2, y, width, height);
+    y += height + 4;
+    paragraph(caption, { size: 8, color: COLORS.muted });
+  };
+
+  const figures = (items: [string, string][]) => {
+    const gap = 3;
+    const width = (CONTENT_WIDTH - gap * (items.length - 1)) / items.length;
+    ensureSpace(20);
+    items.forEach(([label, value], i) => {
+      const x = MARGIN + i * (width + gap);
+      doc.setFillColor(...COLORS.panel);
+      doc.roundedRect(x, y, width, 17, 1.5, 1.5, 'F');
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(7.5);
+      setColor(COLORS.muted);
+      doc.text(label.toUpperCase(), x + 3, y + 5);
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(13);
+      setColor(COLORS.text);
+      doc.text(value, x + 3, y + 13);
+    });
+    y += 22;
+  };
+
+  const barChart = (title: string, data: CompositionEntry[]) => {
+    const height = 55;
+    ensureSpace(height + 10);
+    paragraph(title, { size: 9, bold: true });
+    const top = y;
+    const plotHeight = height - 10;
+    const max = Math.max(1, ...data.map(d => d.count));
+    const slot = CONTENT_WIDTH / Math.max(1, data.length);
+    const barWidth = Math.min(18, slot * 0.6);
+    doc.setDrawColor(...COLORS.rule);
+    doc.line(MARGIN, top + plotHeight, MARGIN + CONTENT_WIDTH, top + plotHeight);
+    data.forEach((d, i) => {
+      const barHeight = (d.count / max) * (plotHeight - 6);
+      const x = MARGIN + i * slot + (slot - barWidth) / 2;
+      doc.setFillColor(...(d.count > BUSY_CLASS_COUNT ? COLORS.busy : COLORS.accent));
+      doc.rect(x, top + plotHeight - barHeight, barWidth, barHeight, 'F');
+      doc.setFontSize(8);
+      setColor(COLORS.text);
+      doc.text(String(Math.round(d.count * 10) / 10), x + barWidth / 2, top + plotHeight - barHeight - 1.5, { align: 'center' });
+      setColor(COLORS.muted);
+      doc.text(d.name, x + barWidth / 2, top + plotHeight + 4, { align: 'center', maxWidth: slot - 1 });
+    });
+    if (data.length === 0) paragraph('No vehicles detected.', { size: 9, color: COLORS.muted });
+    y = top + height;
+  };
+
+  const trendChart = (title: string, data: TrendPoint[]) => {
+    const height = 60;
+    ensureSpace(height + 10);
+    paragraph(title, { size: 9, bold: true });
+    const top = y;
+    const plotHeight = height - 14;
+    const maxVehicles = Math.max(1, ...data.map(d => d.vehicles));
+    const xAt = (i: number) => MARGIN + (i / Math.max(1, data.length - 1)) * CONTENT_WIDTH;
+    doc.setDrawColor(...COLORS.rule);
+    [0, 0.5, 1].forEach(f => doc.line(MARGIN, top + plotHeight * f, MARGIN + CONTENT_WIDTH, top + plotHeight * f));
+
+    const series = (values: number[], max: number, color: RGB, width: number) => {
+      doc.setDrawColor(...color);
+      doc.setLineWidth(width);
+      values.slice(1).forEach((v, i) => {
+        doc.line(xAt(i), top + plotHeight * (1 - values[i] / max), xAt(i + 1), top + plotHeight * (1 - v / max));
+      });
+      doc.setLineWidth(0.2);
+    };
+    series(data.map(d => d.vehicles), maxVehicles, COLORS.accent, 0.8);
+    series(data.map(d => d.congestion), 100, COLORS.danger, 0.5);
+
+    doc.setFontSize(7.5);
+    setColor(COLORS.muted);
+    doc.text(`${maxVehicles} veh`, MARGIN, top - 1);
+    doc.text('100%', MARGIN + CONTENT_WIDTH, top - 1, { align: 'right' });
+    doc.text(data[0]?.time || '', MARGIN, top + plotHeight + 4);
+    doc.text(data[data.length - 1]?.time || '', MARGIN + CONTENT_WIDTH, top + plotHeight + 4, { align: 'right' });
+    setColor(COLORS.accent);
+    doc.text('Vehicle count', MARGIN + CONTENT_WIDTH / 2 - 22, top + plotHeight + 9);
+    setColor(COLORS.danger);
+    doc.text('Congestion %', MARGIN + CONTENT_WIDTH / 2 + 6, top + plotHeight + 9);
+    y = top + height;
+  };
+
+  // Columns: [header, width in mm]; cells wrap and rows never split across pages
+  const table = (columns: [string, number][], rows: string[][], rowColor?: (row: number) => RGB | undefined) => {
+    const lineHeight = 3.8;
+    const drawHeader = () => {
+      ensureSpace(8);
+      doc.setFillColor(...COLORS.panel);
+      doc.rect(MARGIN, y, CONTENT_WIDTH, 6, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(8);
+      setColor(COLORS.muted);
+      let x = MARGIN;
+      columns.forEach(([header, width]) => {
+        doc.text(header, x + 1.5, y + 4);
+        x += width;
+      });
+      y += 7;
+    };
+    drawHeader();
+    doc.setFont('helvetica', 'normal');
+    rows.forEach((row, r) => {
+      doc.setFontSize(8.5);
+      const cells = row.map((cell, c) => doc.splitTextToSize(cell, columns[c][1] - 3) as string[]);
+      const height = Math.max(...cells.map(lines => lines.length)) * lineHeight + 1.5;
+      if (y + height > PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT) {
+        doc.addPage();
+        y = MARGIN;
+        drawHeader();
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(8.5);
+      }
+      let x = MARGIN;
+      cells.forEach((lines, c) => {
+        setColor((c === 0 ? undefined : rowColor?.(r)) || COLORS.text);
+        doc.text(lines, x + 1.5, y + lineHeight - 0.5);
+        x += columns[c][1];
+      });
+      y += height;
+      doc.setDrawColor(...COLORS.rule);
+      doc.line(MARGIN, y - 0.75, MARGIN + CONTENT_WIDTH, y - 0.75);
+    });
+  };
+
+  return {
+    heading,
+    paragraph,
+    image,
+    figures,
+    barChart,
+    trendChart,
+    table,
+    space: (height: number) => { y += height; },
+    newPage: () => { doc.addPage(); y = MARGIN; },
+  };
+};
+
+// Per-class vehicle counts averaged over the session's frames (the same
+// vehicles appear in many frames, so sums would overstate the traffic)
+const averageComposition = (results: FullAnalysisResult[]): CompositionEntry[] => {
+  const totals = new Map<string, number>();
+  results.forEach(r => vehicleComposition(r.detections).forEach(({ name, count }) => {
+    totals.set(name, (totals.get(name) || 0) + count);
+  }));
+  return [...totals.entries()].map(([name, count]) => ({ name, count: count / results.length }));
+};
+
+// Recommendations across the session, most often repeated first
+const rankRecommendations = (results: FullAnalysisResult[]): string[] => {
+  const counts = new Map<string, number>();
+  results.forEach(r => r.report.recommendations.forEach(rec => counts.set(rec, (counts.get(rec) || 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1]).slice(0, MAX_RECOMMENDATIONS).map(([rec]) => rec);
+};
+
+const eventfulness = (r: FullAnalysisResult) => r.analysis.detectedViolations.length * 10 + r.report.priorityScore;
+
+/**
+ * Builds the report and saves it as a PDF. One entry gives a single-analysis
+ * report; several give a session report with trends and the most eventful frames.
+ */
+export const generateIncidentReport = async (entries: ReportEntry[], title = 'Traffic Incident Report') => {
+  if (entries.length === 0) throw new Error('Nothing to report: no analyses selected.');
+  const sorted = [...entries].sort((a, b) => a.result.timestamp - b.result.timestamp);
+  const results = sorted.map(e => e.result);
+  const isSession = results.length > 1;
+  const latest = results[results.length - 1];
+  const lead = isSession ? results.reduce((a, b) => (eventfulness(b) > eventfulness(a) ? b : a)) : latest;
+
+  // Frames: the single analysis, or the most eventful frames of the session in time order
+  const framed = sorted.filter(e => e.image);
+  const chosen = isSession
+    ? [...framed].sort((a, b) => eventfulness(b.result) - eventfulness(a.result)).slice(0, MAX_FRAME_PAGES)
+      .sort((a, b) => a.result.timestamp - b.result.timestamp)
+    : framed;
+  const frames: { entry: ReportEntry; frame: AnnotatedFrame }[] = [];
+  for (const entry of chosen) {
+    const frame = await annotateFrame(entry.image!, entry.result);
+    if (frame) frames.push({ entry, frame });
+  }
+
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const w = createWriter(doc);
+
+  // Title block
+  w.paragraph(title, { size: 20, bold: true });
+  const sources = [...new Set(sorted.map(e => e.sourceId).filter((s): s is string => !!s))];
+  w.paragraph(isSession
+    ? `Session of ${results.length} analyses, ${formatTime(results[0].timestamp)} to ${formatTime(latest.timestamp)}`
+    : `Analysis of ${formatTime(latest.timestamp)}`, { size: 11, color: COLORS.muted });
+  if (sources.length > 0) w.paragraph(`Source: ${sources.map(describeSource).join(', ')}`, { size: 9, color: COLORS.muted });
+  const address = [...results].reverse().find(r => r.locationContext?.address)?.locationContext?.address;
+  if (address) w.paragraph(`Location: ${address}`, { size: 9, color: COLORS.muted });
+  w.paragraph(`Generated ${formatTime(Date.now())}`, { size: 8, color: COLORS.muted });
+  w.space(3);
+
+  // Key figures
+  const congestion = results.map(r => r.analysis.congestionLevel);
+  const events = latestViolationEvents(results);
+  const violations = results.flatMap(r => r.analysis.detectedViolations.map(v => ({ at: r.timestamp, v: withEventOutcome(v, events) })));
+  const avg = (values: number[]) => Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+  w.figures(isSession
+    ? [
+      ['Avg / peak congestion', `${avg(congestion)}% / ${Math.max(...congestion)}%`],
+      ['Avg vehicles', String(avg(results.map(r => r.analysis.totalVehicles)))],
+      ['Violations', String(violations.length)],
+      ['Peak priority', `${Math.max(...results.map(r => r.report.priorityScore))}/10`],
+    ]
+    : [
+      ['Congestion', `${latest.analysis.congestionLevel}% ${latest.analysis.trafficFlowStatus}`],
+      ['Vehicles / pedestrians', `${latest.analysis.totalVehicles} / ${latest.analysis.pedestrianCount}`],
+      ['Avg speed', `${latest.analysis.estimatedAverageSpeed} km/h`],
+      ['Priority', `${latest.report.priorityScore}/10`],
+    ]);
+
+  // Summary and recommendations
+  w.heading('Summary');
+  if (isSession) w.paragraph(`Most significant frame (${formatTime(lead.timestamp)}):`, { size: 9, color: COLORS.muted });
+  w.paragraph(lead.report.summary);
+  const recommendations = isSession ? rankRecommendations(results) : latest.report.recommendations;
+  if (recommendations.length > 0) {
+    w.heading('Recommendations');
+    recommendations.forEach((rec, i) => w.paragraph(`${i + 1}. ${rec}`, { indent: 2 }));
+  }
+
+  if (!isSession && frames[0]) {
+    w.heading('Annotated Frame');
+    w.image(frames[0].frame, `Detections at ${formatTime(latest.timestamp)}; red boxes are violations, orange are zone events.`);
+  }
+
+  // Charts
+  w.heading('Traffic');
+  w.barChart(isSession ? 'Vehicle classification (average per frame)' : 'Vehicle classification', isSession
+    ? averageComposition(results) : vehicleComposition(latest.detections));
+  if (isSession) w.trendChart('Traffic flow over the session', sessionTrend(results));
+
+  // Violations
+  w.heading(`Violations (${violations.length})`);
+  if (violations.length === 0) {
+    w.paragraph('No violations were detected.', { color: COLORS.muted });
+  } else {
+    const bySeverity = SEVERITY_ORDER.map(s => `${violations.filter(({ v }) => v.severity === s).length} ${s}`).join(', ');
+    w.paragraph(bySeverity, { size: 9, color: COLORS.muted });
+    const ordered = [...violations].sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.v.severity) - SEVERITY_ORDER.indexOf(b.v.severity) || a.at - b.at);
+    w.table(
+      [['Time', 32], ['Type', 26], ['Severity', 18], ['Description', CONTENT_WIDTH - 76]],
+      ordered.map(({ at, v }: { at: number; v: Violation }) => [
+        new Date(at).toLocaleTimeString(), v.type, v.severity, v.description,
+      ]),
+      row => SEVERITY_COLORS[ordered[row].v.severity],
+    );
+  }
+
+  // Location context (latest known)
+  const location = [...results].reverse().find(r => r.locationContext)?.locationContext;
+  if (location) {
+    w.heading('Location Context');
+    if (location.address) w.paragraph(location.address, { bold: true });
+    if (location.latitude !== undefined && location.longitude !== undefined) {
+      w.paragraph(`${location.latitude.toFixed(5)}, ${location.longitude.toFixed(5)}`, { size: 9, color: COLORS.muted });
+    }
+    if (location.trafficInfluencers.length > 0) w.paragraph(location.trafficInfluencers.join(' '));
+    if (location.nearbyPlaces.length > 0) {
+      w.table(
+        [['Nearby place', 90], ['Type', 50], ['Distance', CONTENT_WIDTH - 140]],
+        location.nearbyPlaces.map(p => [p.name, p.type, p.distance]),
+      );
+    }
+  }
+
+  // Session frames, two to a page
+  if (isSession && frames.length > 0) {
+    w.newPage();
+    w.heading(`Annotated Frames (${frames.length}${framed.length > frames.length ? ` of ${framed.length}` : ''})`);
+    frames.forEach(({ entry, frame }) => {
+      const r = entry.result;
+      w.image(frame, `${formatTime(r.timestamp)} - ${r.analysis.trafficFlowStatus}, ${r.analysis.congestionLevel}% congestion, `
+        + `${r.analysis.detectedViolations.length} violation(s), priority ${r.report.priorityScore}/10`, 100);
+    });
+  }
+
+  // Footer on every page
+  const pages = doc.getNumberOfPages();
+  for (let i = 1; i <= pages; i++) {
+    doc.setPage(i);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(7.5);
+    doc.setTextColor(...COLORS.muted);
+    doc.text(title, MARGIN, PAGE_HEIGHT - MARGIN / 2);
+    doc.text(`Page ${i} of ${pages}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN / 2, { align: 'right' });
+  }
+
+  doc.save(`multi-ai-agent-report-${latest.timestamp}.pdf`);
+};
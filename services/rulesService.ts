@@ -0,0 +1,97 @@
+// rulesService.ts — per-camera violation rules and the violations derived from tracking.
+
+import { DetectionItem, Severity, Violation, ViolationRules } from '../types';
+import { loadSourceSetting, saveSourceSetting } from './sourceSettingsStore';
+
+const SETTING_KIND = 'rules';
+
+export const DEFAULT_RULES: ViolationRules = {
+  speedLimit: 80,
+  speedTolerance: 0,
+  minTrackAge: 2,
+  minConsecutiveFrames: 1,
+  wrongWayEnabled: true,
+  wrongWayMinMotion: 0.005,
+  speedingSeverity: { medium: 10, high: 20 },
+  wrongWaySeverity: 'High',
+  redLightSeverity: 'High',
+  jaywalkingSeverity: 'Medium',
+  noEntrySeverity: 'High',
+};
+
+// Saved rules are merged over the defaults so older saves pick up new fields
+export const loadRules = (sourceId: string | null): ViolationRules => {
+  const saved = sourceId ? loadSourceSetting<Partial<ViolationRules>>(SETTING_KIND, sourceId) : null;
+  return { ...DEFAULT_RULES, ...saved, speedingSeverity: { ...DEFAULT_RULES.speedingSeverity, ...saved?.speedingSeverity } };
+};
+
+export const saveRules = (sourceId: string, rules: ViolationRules | null) =>
+  saveSourceSetting(SETTING_KIND, sourceId, rules);
+
+export const validateRules = (rules: ViolationRules): string | null => {
+  if (!(rules.speedLimit > 0)) return 'Speed limit must be greater than 0.';
+  if (rules.speedTolerance < 0) return 'Tolerance cannot be negative.';
+  if (rules.minTrackAge < 1 || rules.minConsecutiveFrames < 1) return 'Frame counts must be at least 1.';
+  if (rules.speedingSeverity.high < rules.speedingSeverity.medium) return 'High severity threshold must be above Medium.';
+  return null;
+};
+
+// `limit` is the one the speed was checked against, e.g. a lane's own
+export const speedingSeverity = (rules: ViolationRules, speed: number, limit = rules.speedLimit): Severity => {
+  const excess = speed - (limit + rules.speedTolerance);
+  if (excess >= rules.speedingSeverity.high) return 'High';
+  if (excess >= rules.speedingSeverity.medium) return 'Medium';
+  return 'Low';
+};
+
+// Turns tracker flags on detections into Violation entries
+export const buildTrackingViolations = (detections: DetectionItem[], rules: ViolationRules, calibrated: boolean): Violation[] => {
+  const violations: Violation[] = [];
+  detections.forEach(d => {
+    if (d.isSpeeding) {
+      const speed = d.estimatedSpeed ?? 0;
+      const limit = d.speedLimit ?? rules.speedLimit;
+      violations.push({
+        type: 'Speeding',
+        description: `Vehicle ID:${d.trackId} moving at ${speed}±${d.speedUncertainty ?? 0}km/h (Limit: ${limit}${calibrated ? '' : ', uncalibrated'})`,
+        severity: speedingSeverity(rules, speed, limit),
+        trackId: d.trackId,
+      });
+    }
+    if (d.isWrongWay) {
+      violations.push({
+        type: 'Wrong Lane',
+        description: d.laneId
+          ? `Vehicle ID:${d.trackId} moving against the allowed direction of its lane.`
+          : `Vehicle ID:${d.trackId} detected moving against dominant traffic flow.`,
+        severity: rules.wrongWaySeverity,
+        trackId: d.trackId,
+      });
+    }
+    if (d.isRedLightViolation) {
+      violations.push({
+        type: 'Red Light',
+        description: `Vehicle ID:${d.trackId} crossed the stop line while the signal was red.`,
+        severity: rules.redLightSeverity,
+        trackId: d.trackId,
+      });
+    }
+    if (d.isJaywalking) {
+      violations.push({
+        type: 'Jaywalking',
+        description: `Pedestrian ID:${d.trackId} walking in a traffic lane outside a crosswalk.`,
+        severity: rules.jaywalkingSeverity,
+        trackId: d.trackId,
+      });
+    }
+    if (d.isInNoEntryZone) {
+      violations.push({
+        type: 'Other',
+        description: `Vehicle ID:${d.trackId} entered a no-entry zone.`,
+        severity: rules.noEntrySeverity,
+        trackId: d.trackId,
+      });
+    }
+  });
+  return violations;
+};
@@ -0,0 +1,133 @@
+// sourcePipeline.ts — the client-side half of analysing a frame from one
+// source: tracking, tracking-derived violations folded into events, incident
+// evidence, and saving the result to history and the backend database.
+// Every monitored source owns a pipeline, so road users from different
+// cameras never share a tracker. A viewer watching another browser's feed
+// tracks for display only; the browser that analysed the frame saves it.
+
+import { CameraCalibration, FullAnalysisResult, LineCrossing, ViolationEvent, ViolationRules, Zone } from '../types';
+import { ObjectTracker } from './trackingService';
+import { PredictedTrack } from './overlayRenderer';
+import { ViolationAggregator } from './violationEventService';
+import { IncidentRecorder } from './incidentService';
+import { buildTrackingViolations, loadRules } from './rulesService';
+import { loadCalibration } from './calibrationService';
+import { loadZones } from './zoneService';
+import { addHistoryItem, createThumbnail, updateHistoryItem } from './historyStore';
+import { saveServerAnalysis } from './analysisApi';
+
+export interface ProcessedFrame {
+  result: FullAnalysisResult; // Tracked detections, merged violations
+  crossings: LineCrossing[];
+  predictedTracks: PredictedTrack[];
+  frameSrc: string; // The analysed frame as a data URL
+  historyId?: string; // The history record the frame is saved as, when the pipeline persists
+}
+
+interface SavedFrame {
+  historyId: string;
+  result: FullAnalysisResult;
+  sourceId?: string;
+  saving: Promise<unknown>; // Settles once the history item and the stored analysis are written
+}
+
+export class SourcePipeline {
+  public readonly tracker = new ObjectTracker();
+  private violationEvents = new ViolationAggregator();
+  private incidents = new IncidentRecorder();
+  private lastSaved: SavedFrame | null = null;
+
+  constructor(private persist = true) {}
+
+  /**
+   * Turns saving on or off, e.g. as another viewer takes over saving a shared
+   * feed. Violation events stay tracked either way; once saving is off, those
+   * closing later are left to whoever saves now.
+   */
+  public setPersist(persist: boolean) {
+    this.persist = persist;
+    if (!persist) this.lastSaved = null;
+  }
+
+  /** Loads the calibration, rules and zones saved for the source into the tracker. */
+  public loadSettings(sourceId: string | null): { calibration: CameraCalibration | null; rules: ViolationRules; zones: Zone[] } {
+    const calibration = sourceId ? loadCalibration(sourceId) : null;
+    const rules = loadRules(sourceId);
+    const zones = loadZones(sourceId);
+    this.tracker.setCalibration(calibration);
+    this.tracker.setRules(rules);
+    this.tracker.setZones(zones);
+    return { calibration, rules, zones };
+  }
+
+  /**
+   * Forgets every track, e.g. when the media changes. Open violation events are
+   * closed and saved with the last frame, as if their tracks had been dropped there.
+   */
+  public reset() {
+    const closed = this.violationEvents.reset();
+    if (closed.length > 0) this.saveClosedEvents(closed);
+    this.lastSaved = null;
+    this.tracker.reset();
+    this.incidents.reset();
+  }
+
+  private saveClosedEvents(closed: ViolationEvent[]) {
+    const last = this.lastSaved;
+    if (!last) return;
+    const ids = new Set(closed.map(e => e.id));
+    const violationEvents = [...(last.result.violationEvents || []).filter(e => !ids.has(e.id)), ...closed];
+    // Waits for the frame's own saves, which the amendment must not race
+    last.saving.then(() => {
+      updateHistoryItem(last.historyId, { violationEvents }).catch(e => console.error("Failed to save closed violation events", e));
+      if (last.result.analysisId) {
+        saveServerAnalysis(last.result.analysisId, { ...last.result, violationEvents }, last.sourceId).catch(e => console.error("Failed to update stored analysis", e));
+      }
+    });
+  }
+
+  /**
+   * Runs the tracker over a backend result (mutated in place) and saves it.
+   * Saving happens in the background: a storage failure must not fail the analysis.
+   */
+  public process(data: FullAnalysisResult, frameSrc: string, capturedAt: number, sourceId?: string): ProcessedFrame {
+    const tracker = this.tracker;
+    const trackedDetections = tracker.update(data.detections, capturedAt, data.analysis.trafficLights);
+    data.detections = trackedDetections;
+
+    const crossings = tracker.getLineCrossings();
+    if (crossings.length > 0) data.lineCrossings = crossings;
+
+    // Only a violation that opens an event is recorded; repeats on later frames update the event
+    const frameViolations = buildTrackingViolations(trackedDetections, tracker.getRules(), tracker.isCalibrated());
+    const { opened, events } = this.violationEvents.update(frameViolations, tracker.getTrackIds(), capturedAt);
+    if (events.length > 0) data.violationEvents = events;
+
+    // Merge tracking violations with the model's visual violations
+    if (opened.length > 0) {
+      data.analysis.detectedViolations = [...data.analysis.detectedViolations, ...opened];
+    }
+
+    if (!this.persist) return { result: data, crossings, predictedTracks: tracker.getPredictedTracks(), frameSrc };
+
+    const historyId = data.analysisId || Math.random().toString(36).substr(2, 9);
+    this.incidents.record({
+      src: frameSrc,
+      timestamp: data.timestamp,
+      detections: trackedDetections,
+      violations: opened,
+      sourceId,
+      analysisId: historyId,
+    });
+    const savingHistory = createThumbnail(frameSrc)
+      .then(thumbnail => addHistoryItem({ ...data, id: historyId, sourceId }, thumbnail))
+      .catch(e => console.error("Failed to save history", e));
+    // The backend stored the raw model result; replace it with the tracked, merged one
+    const savingAnalysis = data.analysisId
+      ? saveServerAnalysis(data.analysisId, data, sourceId).catch(e => console.error("Failed to update stored analysis", e))
+      : null;
+    this.lastSaved = { historyId, result: data, sourceId, saving: Promise.all([savingHistory, savingAnalysis]) };
+
+    return { result: data, crossings, predictedTracks: tracker.getPredictedTracks(), frameSrc, historyId };
+  }
+}
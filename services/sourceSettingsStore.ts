@@ -0,0 +1,62 @@
+// sourceSettingsStore.ts — per-camera/per-source settings persisted in localStorage.
+// Each setting kind (calibration, rules, ...) is one JSON map of sourceId -> value.
+
+const STORAGE_PREFIX = 'multi_ai_agent_source_';
+
+// Stable identifiers for the media sources the monitor can analyse
+// Source ids end up in history, the backend and tile titles, so a stream URL
+// is never kept with the user:password@ part some cameras require
+export const withoutCredentials = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    parsed.username = '';
+    parsed.password = '';
+    return parsed.toString();
+  } catch {
+    return url;
+  }
+};
+
+export const sourceIds = {
+  camera: (deviceId?: string) => `camera:${deviceId || 'default'}`,
+  video: (fileName: string) => `video:${fileName}`,
+  stream: (url: string) => `stream:${withoutCredentials(url)}`,
+  upload: () => 'upload',
+  simulation: () => 'simulation',
+};
+
+export const describeSource = (sourceId: string): string => {
+  const [kind, ...rest] = sourceId.split(':');
+  const name = rest.join(':');
+  switch (kind) {
+    case 'camera': return name === 'default' ? 'Camera' : `Camera ${name.slice(0, 8)}`;
+    case 'video': return `Video: ${name}`;
+    case 'stream': return `Stream: ${name.replace(/^[a-z]+:\/\//i, '')}`;
+    case 'ingest': return `Ingested stream ${name.slice(0, 8)}`;
+    case 'upload': return 'Uploaded Images';
+    case 'simulation': return 'Simulation';
+    default: return sourceId;
+  }
+};
+
+const readMap = <T>(kind: string): Record<string, T> => {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + kind);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error(`Failed to load ${kind} settings`, e);
+    return {};
+  }
+};
+
+export const loadSourceSetting = <T>(kind: string, sourceId: string): T | null => {
+  const map = readMap<T>(kind);
+  return map[sourceId] ?? null;
+};
+
+export const saveSourceSetting = <T>(kind: string, sourceId: string, value: T | null) => {
+  const map = readMap<T>(kind);
+  if (value === null) delete map[sourceId];
+  else map[sourceId] = value;
+  localStorage.setItem(STORAGE_PREFIX + kind, JSON.stringify(map));
+};
@@ -0,0 +1,77 @@
+// streamApi.ts — client for streams ingested by the backend (/api/streams):
+// IP cameras (RTSP, HLS, MJPEG) the browser cannot open itself. The backend
+// analyses them on its own schedule; stream status changes arrive over one
+// shared Server-Sent Events connection, results on the stream's live feed.
+
+import { adminHeaders, getBackendUrl } from "./configService";
+
+export type IngestStatus = 'connecting' | 'running' | 'reconnecting' | 'error';
+
+export interface IngestedStream {
+  id: string;
+  url: string; // without any user:password@ part
+  name: string;
+  sourceId: string; // "ingest:<id>"
+  protocol: 'rtsp' | 'hls' | 'http' | 'mjpeg' | 'snapshot'; // "http" until the response type is known
+  intervalSeconds: number;
+  status: IngestStatus;
+  error: string | null;
+  framesReceived: number;
+  framesAnalysed: number;
+  lastFrameAt: number | null;
+  lastResultAt: number | null;
+}
+
+export type StreamEvent =
+  | { type: 'streams'; streams: IngestedStream[] }
+  | { type: 'status'; stream: IngestedStream }
+  | { type: 'removed'; id: string };
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(`${getBackendUrl()}/api/streams${path}`, init);
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Stream request failed: ${response.status} ${response.statusText}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+export const listIngestedStreams = () => request<IngestedStream[]>("");
+
+export const ingestStream = (url: string, intervalSeconds?: number, name?: string) =>
+  request<IngestedStream>("", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...adminHeaders() },
+    body: JSON.stringify({ url, intervalSeconds, name }),
+  });
+
+export const stopIngestedStream = (id: string) =>
+  request<void>(`/${encodeURIComponent(id)}`, { method: "DELETE", headers: adminHeaders() });
+
+export const ingestedFrameUrl = (id: string) => `${getBackendUrl()}/api/streams/${encodeURIComponent(id)}/frame`;
+
+// One EventSource for every subscriber; browsers allow few connections per host
+const listeners = new Set<(event: StreamEvent) => void>();
+let source: EventSource | null = null;
+
+const emit = (event: StreamEvent) => listeners.forEach(listener => listener(event));
+
+const open = () => {
+  source = new EventSource(`${getBackendUrl()}/api/streams/events`);
+  source.addEventListener('streams', e => emit({ type: 'streams', streams: JSON.parse((e as MessageEvent).data) }));
+  source.addEventListener('status', e => emit({ type: 'status', stream: JSON.parse((e as MessageEvent).data) }));
+  source.addEventListener('removed', e => emit({ type: 'removed', id: JSON.parse((e as MessageEvent).data).id }));
+};
+
+/** Subscribes to stream list and status events; the connection closes with the last subscriber. */
+export const subscribeToStreams = (listener: (event: StreamEvent) => void): (() => void) => {
+  listeners.add(listener);
+  if (!source) open();
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && source) {
+      source.close();
+      source = null;
+    }
+  };
+};
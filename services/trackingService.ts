@@ -1,135 +1,157 @@
-
-import { DetectionItem } from "../types";
+import { CameraCalibration, DetectionItem, LineCrossing, TrackClass, TrafficLight, ViolationRules, Zone } from "../types";
+import { groundDistance } from "./calibrationService";
+import { DEFAULT_RULES } from "./rulesService";
+import { crossedStopLine, crossingDirection, findZoneAt, normalize } from "./zoneService";
+import { solveAssignment } from "./hungarian";
+import { KalmanBoxFilter, MotionModel } from "./kalmanFilter";
 
 // Types for internal tracker state
 interface TrackedObject {
   id: number;
-  class: string;
-  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax]
-  centroid: [number, number]; // [x, y] normalized
+  trackClass: TrackClass;
+  class: string; // Detector label, e.g. 'car', 'person'
+  box: [number, number, number, number]; // [ymin, xmin, ymax, xmax] (Kalman estimate)
+  centroid: [number, number]; // [x, y] normalized, last measured
   history: [number, number][]; // History of centroids
+  filter: KalmanBoxFilter;
+  footPoint: [number, number]; // Bottom-centre of the last measured box (ground contact), normalized
+  lastSeenAt: number; // Timestamp (ms) of the last measurement
   missingFrames: number;
-  speed: number;
+  hits: number; // Frames with a matched detection
+  speedingFrames: number; // Consecutive measured frames over the limit
+  wrongWayFrames: number; // Consecutive measured frames against the flow
+  jaywalkFrames: number; // Consecutive measured frames in a lane outside crosswalks
+  noEntryFrames: number; // Consecutive measured frames inside a no-entry zone
+  laneId: string | null; // Drawn lane containing the foot point
+  crossedStopLine: boolean; // Foot point crossed a stop line since the previous measurement
+  countedLines: string[]; // Counting lines this track has already been counted on
+  speed: number; // km/h
+  speedUncertainty: number; // ± km/h
   dy: number; // Vertical velocity component for flow detection
   laneStatus: 'Stable' | 'Lane Change' | 'Merging';
   createdAt: number;
 }
 
+interface TrackClassConfig {
+  motion: MotionModel;
+  maxCentroidDistance: number; // Normalized; beyond this a pair is never matched
+  maxMissingFrames: number;    // Tracks coast on Kalman prediction while missing
+  historyLength: number;
+}
+
+// Per-class motion models. Pedestrians move a fraction of a vehicle's distance
+// per frame, so they get tighter gating and less process noise but are kept
+// longer through occlusion (they are often hidden behind vehicles).
+const TRACK_CLASS_CONFIG: Record<TrackClass, TrackClassConfig> = {
+  vehicle: {
+    motion: { processNoise: 0.002, sizeProcessNoise: 0.0002, measurementNoise: 0.0004 },
+    maxCentroidDistance: 0.25,
+    maxMissingFrames: 10,
+    historyLength: 10,
+  },
+  cyclist: {
+    motion: { processNoise: 0.001, sizeProcessNoise: 0.0001, measurementNoise: 0.0003 },
+    maxCentroidDistance: 0.15,
+    maxMissingFrames: 10,
+    historyLength: 20,
+  },
+  pedestrian: {
+    motion: { processNoise: 0.0003, sizeProcessNoise: 0.00005, measurementNoise: 0.0002 },
+    maxCentroidDistance: 0.08,
+    maxMissingFrames: 15,
+    historyLength: 30,
+  },
+};
+
+const TRACK_CLASSES = Object.keys(TRACK_CLASS_CONFIG) as TrackClass[];
+
+// Without calibration the frame height is assumed to span this many metres of road
+const UNCALIBRATED_FRAME_METRES = 40;
+// Relative error assumed for uncalibrated speeds
+const UNCALIBRATED_RELATIVE_ERROR = 0.5;
+// Box jitter as a fraction of box size; vision-model boxes are coarse
+const BOX_JITTER = 0.1;
+// Weight of the newest speed measurement in the running estimate
+const SPEED_SMOOTHING = 0.5;
+// Heading more than 120° away from a lane's direction counts as wrong way
+const WRONG_WAY_COS = -0.5;
+// Centroids of history used for heading and lateral displacement
+const MOTION_HISTORY = 4;
+
+const CYCLIST_LABELS = /bicycle|bike|cyclist|rider|scooter/i;
+const MOTOR_LABELS = /motor/i;
+
+// Which pool a detection belongs to; null for things that are not tracked
+export const classifyDetection = (det: DetectionItem): TrackClass | null => {
+  if (det.type === 'pedestrian') return 'pedestrian';
+  if (CYCLIST_LABELS.test(det.object) && !MOTOR_LABELS.test(det.object)) return 'cyclist';
+  if (det.type === 'vehicle') return 'vehicle';
+  return null;
+};
+
 export class ObjectTracker {
-  private tracks: TrackedObject[] = [];
+  private pools: Record<TrackClass, TrackedObject[]> = { vehicle: [], cyclist: [], pedestrian: [] };
   private nextId = 1;
+  private lastTimestamp: number | null = null;
+  private calibration: CameraCalibration | null = null;
+  private rules: ViolationRules = DEFAULT_RULES;
+  private zones: Zone[] = [];
+  private crossings: LineCrossing[] = []; // Counting-line crossings from the latest update
   // Tuned Parameters
-  private maxMissingFrames = 50; 
-  private iouThreshold = 0.15; 
-  
-  // Violation Thresholds
-  private SPEED_LIMIT = 80; // km/h (Demonstration threshold)
-  private WRONG_WAY_THRESHOLD = -0.01; // Movement against flow
+  private maxMatchCost = 0.85;
+
+  // Matching cost weights (sum to 1)
+  private iouWeight = 0.5;
+  private distanceWeight = 0.35;
+  private classWeight = 0.15;
 
   constructor() {}
 
-  // Main update method called with new detections from API
-  public update(detections: DetectionItem[], timestamp: number): DetectionItem[] {
-    const validDetections = detections.filter(d => d.box_2d && d.type === 'vehicle');
-    
-    // 1. Predict (Update existing tracks missing count)
-    this.tracks.forEach(t => t.missingFrames++);
-
-    // 2. Match (Greedy matching based on IoU/Distance)
-    const unmatchedDetections = new Set(validDetections.map((_, i) => i));
-    
-    // Simple matching loop
-    this.tracks.forEach(track => {
-      let bestMatchIndex = -1;
-      let bestIoU = 0;
-
-      validDetections.forEach((det, index) => {
-        if (!unmatchedDetections.has(index) || !det.box_2d) return;
-        
-        const iou = this.calculateIoU(track.box, det.box_2d);
-        if (iou > this.iouThreshold && iou > bestIoU) {
-          bestIoU = iou;
-          bestMatchIndex = index;
-        }
-      });
-
-      if (bestMatchIndex !== -1) {
-        // MATCH FOUND
-        unmatchedDetections.delete(bestMatchIndex);
-        const match = validDetections[bestMatchIndex];
-        
-        // Update Track
-        track.missingFrames = 0;
-        track.box = match.box_2d!;
-        const newCentroid = this.getCentroid(match.box_2d!);
-        
-        // Calculate Speed & Direction
-        const deltaY = newCentroid[1] - track.centroid[1]; // + is Down, - is Up
-        const absDeltaY = Math.abs(deltaY);
-        
-        track.dy = deltaY;
-        
-        // Scale factor: assuming frame rate and approximate scale. 
-        // 1.0 vertical screen travel = 1000 units. 
-        // Speed = units per frame * arbitrary constant to look like km/h
-        track.speed = Math.floor(absDeltaY * 1000 * 1.5); 
-
-        // Update History
-        track.history.push(newCentroid);
-        if (track.history.length > 10) track.history.shift();
-
-        // Advanced Lane Discipline Logic
-        if (track.history.length >= 2) {
-            const historyDepth = Math.min(track.history.length, 4);
-            const startX = track.history[track.history.length - historyDepth][0];
-            const endX = newCentroid[0];
-            const lateralDisplacement = Math.abs(endX - startX);
-            
-            // If moved > 3% of screen width laterally over recent history
-            if (lateralDisplacement > 0.03) { 
-                track.laneStatus = 'Lane Change';
-            } else {
-                track.laneStatus = 'Stable';
-            }
-        }
+  // Ground-plane calibration for the current camera; null falls back to a nominal scale
+  public setCalibration(calibration: CameraCalibration | null) {
+    this.calibration = calibration;
+  }
 
-        track.centroid = newCentroid;
+  // Violation thresholds for the current camera
+  public setRules(rules: ViolationRules) {
+    this.rules = rules;
+  }
 
-        // Assign ID back to detection for UI
-        match.trackId = track.id;
-        match.estimatedSpeed = track.speed;
-        match.laneEvent = track.laneStatus;
-      }
-    });
+  public getRules(): ViolationRules {
+    return this.rules;
+  }
 
-    // 3. Create New Tracks
-    unmatchedDetections.forEach(index => {
-      const det = validDetections[index];
-      if (det.box_2d) {
-        const newCentroid = this.getCentroid(det.box_2d);
-        const newTrack: TrackedObject = {
-          id: this.nextId++,
-          class: det.object,
-          box: det.box_2d,
-          centroid: newCentroid,
-          history: [newCentroid],
-          missingFrames: 0,
-          speed: 0,
-          dy: 0,
-          laneStatus: 'Stable',
-          createdAt: timestamp
-        };
-        this.tracks.push(newTrack);
-        
-        det.trackId = newTrack.id;
-        det.estimatedSpeed = 0;
-        det.laneEvent = 'Stable';
-      }
+  public isCalibrated(): boolean {
+    return this.calibration !== null;
+  }
+
+  // Lanes, stop lines, crosswalks and no-entry zones drawn for the current camera.
+  // Without lanes, lane changes and wrong way fall back to frame-wide heuristics.
+  public setZones(zones: Zone[]) {
+    this.zones = zones;
+    this.allTracks().forEach(t => { t.laneId = this.findLaneId(t.footPoint); });
+  }
+
+  // Main update method called with new detections from API.
+  // `timestamp` is when the frame was captured (ms), so speeds use real elapsed time;
+  // `trafficLights` from the same frame drive red-light checks at stop lines.
+  public update(detections: DetectionItem[], timestamp: number, trafficLights: TrafficLight[] = []): DetectionItem[] {
+    // Seconds since the previous frame; the first frame assumes the 1 FPS sampling rate
+    const dt = this.lastTimestamp === null ? 1 : Math.max(0.05, (timestamp - this.lastTimestamp) / 1000);
+    this.lastTimestamp = timestamp;
+    this.crossings = [];
+
+    // 1-3. Predict, match and create tracks independently per class pool
+    TRACK_CLASSES.forEach(trackClass => {
+      const poolDetections = detections.filter(d => d.box_2d && classifyDetection(d) === trackClass);
+      this.updatePool(trackClass, poolDetections, dt, timestamp);
     });
 
-    // 4. Violation Checks (Speeding & Wrong Way)
-    // First, determine dominant flow direction
-    const activeMovingTracks = this.tracks.filter(t => t.missingFrames === 0 && Math.abs(t.dy) > 0.001);
+    // 4. Violation Checks (Speeding, Wrong Way, Red Light, Jaywalking, No Entry)
+    // Without drawn lanes, wrong way is judged against the dominant flow (from motor vehicles only)
+    const hasLanes = this.zones.some(z => z.kind === 'lane');
+    const isRed = trafficLights.some(l => l.state === 'Red' && l.count > 0);
+    const activeMovingTracks = this.pools.vehicle.filter(t => t.missingFrames === 0 && Math.abs(t.dy) > 0.001);
     let dominantDy = 0;
     if (activeMovingTracks.length > 0) {
         const totalDy = activeMovingTracks.reduce((sum, t) => sum + t.dy, 0);
@@ -137,38 +159,301 @@ export class ObjectTracker {
     }
 
     // Apply flags to detections
-    validDetections.forEach(det => {
+    const { speedLimit, speedTolerance, minTrackAge, minConsecutiveFrames, wrongWayEnabled, wrongWayMinMotion } = this.rules;
+    detections.forEach(det => {
         if (!det.trackId) return;
-        const track = this.tracks.find(t => t.id === det.trackId);
-        if (!track) return;
+        const track = this.findTrack(det.trackId);
+        if (!track || track.missingFrames > 0) return;
+        const lane = this.zones.find(z => z.id === track.laneId);
 
-        // Speeding Check
-        if (track.speed > this.SPEED_LIMIT) {
-            det.isSpeeding = true;
+        if (track.trackClass === 'pedestrian') {
+          // Jaywalking Check (in a lane, outside every crosswalk)
+          const inRoadway = !!lane && !findZoneAt(this.zones, 'crosswalk', track.footPoint);
+          track.jaywalkFrames = inRoadway ? track.jaywalkFrames + 1 : 0;
+          if (track.hits >= minTrackAge && track.jaywalkFrames >= minConsecutiveFrames) det.isJaywalking = true;
+          return;
         }
 
-        // Wrong Way Check (Moving opposite to dominant flow)
-        // Only check if we have a clear dominant flow and this object is moving significantly
-        if (Math.abs(dominantDy) > 0.005 && Math.abs(track.dy) > 0.005) {
-             // If signs are different (one pos, one neg), they are opposite
-             if (Math.sign(dominantDy) !== Math.sign(track.dy)) {
-                 det.isWrongWay = true;
-             }
+        // Speeding Check (only when over the limit beyond the measurement uncertainty)
+        const limit = lane?.speedLimit ?? speedLimit;
+        det.speedLimit = limit;
+        const overLimit = track.trackClass === 'vehicle' && track.speed - track.speedUncertainty > limit + speedTolerance;
+        track.speedingFrames = overLimit ? track.speedingFrames + 1 : 0;
+
+        // Wrong Way Check
+        let againstFlow = false;
+        if (wrongWayEnabled && hasLanes) {
+          // Heading opposite to the drawn direction of the lane the object is in
+          const heading = this.getHeading(track);
+          againstFlow = !!lane?.direction && !!heading
+            && heading[0] * lane.direction[0] + heading[1] * lane.direction[1] < WRONG_WAY_COS;
+        } else if (wrongWayEnabled) {
+          // Moving opposite to dominant flow; only with a clear flow and significant motion
+          againstFlow = Math.abs(dominantDy) > wrongWayMinMotion
+            && Math.abs(track.dy) > wrongWayMinMotion
+            && Math.sign(dominantDy) !== Math.sign(track.dy); // If signs are different (one pos, one neg), they are opposite
         }
+        track.wrongWayFrames = againstFlow ? track.wrongWayFrames + 1 : 0;
+
+        // No-Entry Check (motor vehicles only)
+        const inNoEntry = track.trackClass === 'vehicle' && !!findZoneAt(this.zones, 'noEntry', track.footPoint);
+        track.noEntryFrames = inNoEntry ? track.noEntryFrames + 1 : 0;
+
+        // Red Light Check (crossing is a single event, so it is not held to consecutive frames)
+        if (track.crossedStopLine && isRed) det.isRedLightViolation = true;
+
+        // Young tracks have unreliable motion; conditions must also persist
+        if (track.hits < minTrackAge) return;
+        if (track.speedingFrames >= minConsecutiveFrames) det.isSpeeding = true;
+        if (track.wrongWayFrames >= minConsecutiveFrames) det.isWrongWay = true;
+        if (track.noEntryFrames >= minConsecutiveFrames) det.isInNoEntryZone = true;
     });
 
-    // 5. Cleanup
-    this.tracks = this.tracks.filter(t => t.missingFrames <= this.maxMissingFrames);
+    // 5. Cleanup (Drop tracks missing too long or predicted out of frame)
+    TRACK_CLASSES.forEach(trackClass => {
+      const { maxMissingFrames } = TRACK_CLASS_CONFIG[trackClass];
+      this.pools[trackClass] = this.pools[trackClass].filter(t => t.missingFrames <= maxMissingFrames && this.isInFrame(t.box));
+    });
 
     return detections;
   }
 
+  private updatePool(trackClass: TrackClass, poolDetections: DetectionItem[], dt: number, timestamp: number) {
+    const config = TRACK_CLASS_CONFIG[trackClass];
+    const tracks = this.pools[trackClass];
+    const isPedestrian = trackClass === 'pedestrian';
+
+    // 1. Predict (Advance every track with its motion model)
+    tracks.forEach(t => {
+      t.box = t.filter.predict(dt);
+      t.missingFrames++;
+      t.crossedStopLine = false;
+    });
+
+    // 2. Match (Global optimal assignment over IoU, centroid distance and class)
+    const costMatrix = tracks.map(track => poolDetections.map(det => this.matchCost(track, det, config)));
+    const assignment = solveAssignment(costMatrix, this.maxMatchCost);
+    const unmatchedDetections = new Set(poolDetections.map((_, i) => i));
+
+    assignment.forEach((detectionIndex, trackIndex) => {
+      if (detectionIndex === -1) return;
+      const track = tracks[trackIndex];
+      unmatchedDetections.delete(detectionIndex);
+      const match = poolDetections[detectionIndex];
+
+      // Update Track
+      track.missingFrames = 0;
+      track.hits++;
+      track.class = match.object;
+      track.box = track.filter.update(match.box_2d!);
+      const newCentroid = this.getCentroid(match.box_2d!);
+
+      // Calculate Direction
+      const deltaY = newCentroid[1] - track.centroid[1]; // + is Down, - is Up
+      track.dy = deltaY;
+
+      // Calculate Speed (ground displacement of the foot point over real elapsed time)
+      const footPoint = this.getFootPoint(match.box_2d!);
+      const elapsed = (timestamp - track.lastSeenAt) / 1000;
+      if (elapsed > 0) {
+        const measured = this.measureSpeed(track.footPoint, footPoint, elapsed, match.box_2d!);
+        const isFirst = track.history.length < 2;
+        track.speed = isFirst ? measured.speed : track.speed + SPEED_SMOOTHING * (measured.speed - track.speed);
+        track.speedUncertainty = isFirst
+          ? measured.uncertainty
+          : track.speedUncertainty + SPEED_SMOOTHING * (measured.uncertainty - track.speedUncertainty);
+      }
+      track.crossedStopLine = !isPedestrian && !!crossedStopLine(this.zones, track.footPoint, footPoint);
+      if (!isPedestrian) this.countCrossings(track, footPoint, timestamp);
+      track.footPoint = footPoint;
+      track.lastSeenAt = timestamp;
+
+      // Update History
+      track.history.push(newCentroid);
+      if (track.history.length > config.historyLength) track.history.shift();
+
+      const laneId = this.findLaneId(footPoint);
+      if (!isPedestrian && this.zones.some(z => z.kind === 'lane')) {
+          // Lane Discipline against drawn lanes: moving from one lane polygon into another
+          track.laneStatus = track.laneId && laneId && track.laneId !== laneId ? 'Lane Change' : 'Stable';
+      } else if (!isPedestrian && track.history.length >= 2) {
+          // Advanced Lane Discipline Logic (no lanes drawn)
+          const historyDepth = Math.min(track.history.length, MOTION_HISTORY);
+          const startX = track.history[track.history.length - historyDepth][0];
+          const endX = newCentroid[0];
+          const lateralDisplacement = Math.abs(endX - startX);
+
+          // If moved > 3% of screen width laterally over recent history
+          if (lateralDisplacement > 0.03) {
+              track.laneStatus = 'Lane Change';
+          } else {
+              track.laneStatus = 'Stable';
+          }
+      }
+
+      track.laneId = laneId;
+      track.centroid = newCentroid;
+
+      // Assign ID back to detection for UI
+      this.annotate(match, track);
+    });
+
+    // 3. Create New Tracks
+    unmatchedDetections.forEach(index => {
+      const det = poolDetections[index];
+      const newCentroid = this.getCentroid(det.box_2d!);
+      const footPoint = this.getFootPoint(det.box_2d!);
+      const newTrack: TrackedObject = {
+        id: this.nextId++,
+        trackClass,
+        class: det.object,
+        box: det.box_2d!,
+        centroid: newCentroid,
+        history: [newCentroid],
+        filter: new KalmanBoxFilter(det.box_2d!, config.motion),
+        footPoint,
+        lastSeenAt: timestamp,
+        missingFrames: 0,
+        hits: 1,
+        speedingFrames: 0,
+        wrongWayFrames: 0,
+        jaywalkFrames: 0,
+        noEntryFrames: 0,
+        laneId: this.findLaneId(footPoint),
+        crossedStopLine: false,
+        countedLines: [],
+        speed: 0,
+        speedUncertainty: 0,
+        dy: 0,
+        laneStatus: 'Stable',
+        createdAt: timestamp
+      };
+      tracks.push(newTrack);
+      this.annotate(det, newTrack);
+    });
+  }
+
+  // Copies track state onto the detection the UI and violation logic consume
+  private annotate(det: DetectionItem, track: TrackedObject) {
+    det.trackId = track.id;
+    det.trackClass = track.trackClass;
+    det.trajectory = [...track.history];
+    if (track.laneId) det.laneId = track.laneId;
+    if (track.trackClass === 'pedestrian') return;
+    det.estimatedSpeed = Math.round(track.speed);
+    det.speedUncertainty = Math.round(track.speedUncertainty);
+    det.laneEvent = track.laneStatus;
+  }
+
   public reset() {
-    this.tracks = [];
+    this.pools = { vehicle: [], cyclist: [], pedestrian: [] };
     this.nextId = 1;
+    this.lastTimestamp = null;
+    this.crossings = [];
+  }
+
+  // Counting-line crossings completed during the latest update
+  public getLineCrossings(): LineCrossing[] {
+    return [...this.crossings];
+  }
+
+  // Predicted boxes of tracks not seen in the latest frame (for occlusion overlays)
+  public getPredictedTracks(): { id: number; box: [number, number, number, number] }[] {
+    return this.allTracks().filter(t => t.missingFrames > 0).map(t => ({ id: t.id, box: t.box }));
+  }
+
+  // Ids of all live tracks, including those coasting on prediction
+  public getTrackIds(): Set<number> {
+    return new Set(this.allTracks().map(t => t.id));
+  }
+
+  // Centroid paths of live tracks, e.g. pedestrian trajectories for jaywalking checks
+  public getTrajectories(trackClass?: TrackClass): { id: number; trackClass: TrackClass; points: [number, number][] }[] {
+    return this.allTracks()
+      .filter(t => !trackClass || t.trackClass === trackClass)
+      .map(t => ({ id: t.id, trackClass: t.trackClass, points: [...t.history] }));
   }
 
   // Helpers
+  private allTracks(): TrackedObject[] {
+    return TRACK_CLASSES.flatMap(c => this.pools[c]);
+  }
+
+  private findTrack(id: number): TrackedObject | undefined {
+    return this.allTracks().find(t => t.id === id);
+  }
+
+  // Each road user is counted at most once per line, in the direction of its first crossing
+  private countCrossings(track: TrackedObject, footPoint: [number, number], timestamp: number) {
+    this.zones.forEach(line => {
+      if (line.kind !== 'countLine' || track.countedLines.includes(line.id)) return;
+      const direction = crossingDirection(line, track.footPoint, footPoint);
+      if (!direction) return;
+      track.countedLines.push(line.id);
+      this.crossings.push({ lineId: line.id, trackId: track.id, objectClass: track.class, direction, timestamp });
+    });
+  }
+
+  private findLaneId(point: [number, number]): string | null {
+    return findZoneAt(this.zones, 'lane', point)?.id ?? null;
+  }
+
+  // Unit direction of recent motion, or null while the object is (nearly) still
+  private getHeading(track: TrackedObject): [number, number] | null {
+    const depth = Math.min(track.history.length, MOTION_HISTORY);
+    if (depth < 2) return null;
+    const [startX, startY] = track.history[track.history.length - depth];
+    const [endX, endY] = track.history[track.history.length - 1];
+    if (Math.hypot(endX - startX, endY - startY) <= this.rules.wrongWayMinMotion) return null;
+    return normalize([endX - startX, endY - startY]);
+  }
+
+  // Cost in [0, 1] of pairing a (predicted) track with a detection; Infinity if gated out
+  private matchCost(track: TrackedObject, det: DetectionItem, config: TrackClassConfig): number {
+    const box = det.box_2d!;
+    const iou = this.calculateIoU(track.box, box);
+    const [tx, ty] = this.getCentroid(track.box);
+    const [dx, dy] = this.getCentroid(box);
+    const distance = Math.hypot(tx - dx, ty - dy);
+    if (iou === 0 && distance > config.maxCentroidDistance) return Infinity;
+
+    const classMismatch = track.class === det.object ? 0 : 1;
+    return this.iouWeight * (1 - iou)
+      + this.distanceWeight * Math.min(1, distance / config.maxCentroidDistance)
+      + this.classWeight * classMismatch;
+  }
+
+  // Speed in km/h with a 1-sigma uncertainty from detector jitter (and scale, when uncalibrated)
+  private measureSpeed(from: [number, number], to: [number, number], seconds: number, box: [number, number, number, number]) {
+    const jitterX = ((box[3] - box[1]) / 1000) * BOX_JITTER;
+    const jitterY = ((box[2] - box[0]) / 1000) * BOX_JITTER;
+
+    if (this.calibration) {
+      const h = this.calibration.homography;
+      const metres = groundDistance(h, from, to);
+      const positionError = Math.max(
+        groundDistance(h, to, [to[0] + jitterX, to[1]]),
+        groundDistance(h, to, [to[0], to[1] + jitterY])
+      );
+      // Two independent position errors (start and end) contribute to the displacement
+      return { speed: (metres / seconds) * 3.6, uncertainty: ((Math.SQRT2 * positionError) / seconds) * 3.6 };
+    }
+
+    const metres = Math.hypot(to[0] - from[0], to[1] - from[1]) * UNCALIBRATED_FRAME_METRES;
+    const speed = (metres / seconds) * 3.6;
+    const jitterError = ((Math.SQRT2 * Math.hypot(jitterX, jitterY) * UNCALIBRATED_FRAME_METRES) / seconds) * 3.6;
+    return { speed, uncertainty: speed * UNCALIBRATED_RELATIVE_ERROR + jitterError };
+  }
+
+  private getFootPoint(box: [number, number, number, number]): [number, number] {
+    return [(box[1] + box[3]) / 2 / 1000, box[2] / 1000];
+  }
+
+  private isInFrame(box: [number, number, number, number]): boolean {
+    const [x, y] = this.getCentroid(box);
+    return x >= 0 && x <= 1 && y >= 0 && y <= 1;
+  }
+
   private getCentroid(box: [number, number, number, number]): [number, number] {
     // box: [ymin, xmin, ymax, xmax] normalized 0-1000
     // We normalize to 0-1 for internal math
@@ -191,8 +476,8 @@ export class ObjectTracker {
     if (boxAArea + boxBArea - interArea === 0) return 0;
     return interArea / (boxAArea + boxBArea - interArea);
   }
-  
-  public getActiveTracksCount(): number {
-      return this.tracks.filter(t => t.missingFrames === 0).length;
+
+  public getActiveTracksCount(trackClass?: TrackClass): number {
+      return this.allTracks().filter(t => t.missingFrames === 0 && (!trackClass || t.trackClass === trackClass)).length;
   }
 }
@@ -0,0 +1,95 @@
+// validationService.ts — re-checks backend responses against shared/trafficSchema.json
+// (the same schema the backend enforces on model output) before the tracker or
+// dashboard dereference them.
+
+import trafficSchema from '../shared/trafficSchema.json';
+import { FullAnalysisResult, LocationContextData } from '../types';
+
+interface SchemaNode {
+  $ref?: string;
+  type?: string;
+  properties?: Record<string, SchemaNode>;
+  required?: string[];
+  items?: SchemaNode;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export type SchemaName = keyof typeof trafficSchema.definitions;
+
+const definitions = trafficSchema.definitions as Record<string, SchemaNode>;
+
+// Raised when a response does not match the shared schema.
+// `source` tells whether the backend rejected the model output or the client rejected the backend response.
+export class SchemaValidationError extends Error {
+  constructor(public source: 'server' | 'client', public issues: string[], message?: string) {
+    super(message || `Analysis response failed validation (${issues.length} issue${issues.length === 1 ? '' : 's'}).`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const deref = (schema: SchemaNode): SchemaNode =>
+  schema.$ref ? definitions[schema.$ref.replace('#/definitions/', '')] : schema;
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+const matchesType = (expected: string, value: unknown) => {
+  const actual = typeOf(value);
+  return expected === 'number' ? actual === 'number' || actual === 'integer' : actual === expected;
+};
+
+const check = (schema: SchemaNode, value: unknown, path: string, issues: string[]) => {
+  const s = deref(schema);
+
+  if (s.type && !matchesType(s.type, value)) {
+    issues.push(`${path}: expected ${s.type}, got ${typeOf(value)}`);
+    return;
+  }
+  if (s.enum && !s.enum.includes(value)) {
+    issues.push(`${path}: ${JSON.stringify(value)} is not one of ${s.enum.join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (s.minimum !== undefined && value < s.minimum) issues.push(`${path}: ${value} is below minimum ${s.minimum}`);
+    if (s.maximum !== undefined && value > s.maximum) issues.push(`${path}: ${value} is above maximum ${s.maximum}`);
+  }
+  if (Array.isArray(value)) {
+    if (s.minItems !== undefined && value.length < s.minItems) issues.push(`${path}: expected at least ${s.minItems} items`);
+    if (s.maxItems !== undefined && value.length > s.maxItems) issues.push(`${path}: expected at most ${s.maxItems} items`);
+    if (s.items) value.forEach((item, i) => check(s.items!, item, `${path}[${i}]`, issues));
+  }
+  if (s.type === 'object' && value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    (s.required || []).forEach(key => {
+      if (record[key] === undefined) issues.push(`${path}.${key}: is required`);
+    });
+    Object.entries(s.properties || {}).forEach(([key, propSchema]) => {
+      if (record[key] !== undefined) check(propSchema, record[key], `${path}.${key}`, issues);
+    });
+  }
+};
+
+export const validateAgainst = (name: SchemaName, value: unknown): string[] => {
+  const issues: string[] = [];
+  check({ $ref: `#/definitions/${name}` }, value, '$', issues);
+  return issues;
+};
+
+export const assertFullAnalysisResult = (value: unknown): FullAnalysisResult => {
+  const issues = validateAgainst('FullAnalysisResult', value);
+  if (issues.length > 0) throw new SchemaValidationError('client', issues);
+  return value as FullAnalysisResult;
+};
+
+export const assertLocationContext = (value: unknown): LocationContextData => {
+  const issues = validateAgainst('LocationContextData', value);
+  if (issues.length > 0) throw new SchemaValidationError('client', issues, 'Location response failed validation.');
+  return value as LocationContextData;
+};
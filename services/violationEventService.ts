@@ -0,0 +1,75 @@
+// violationEventService.ts — folds the per-frame tracking violations into events
+// keyed by track and violation type, so one speeding vehicle seen on ten frames
+// is one violation rather than ten.
+
+import { Severity, Violation, ViolationEvent } from '../types';
+
+const SEVERITY_RANK: Record<Severity, number> = { Low: 0, Medium: 1, High: 2 };
+
+export interface ViolationEventUpdate {
+  opened: Violation[]; // Violations that started an event this frame, tagged with its id
+  events: ViolationEvent[]; // Events opened, updated or closed this frame
+}
+
+const eventKey = (trackId: number, type: Violation['type']) => `${trackId}:${type}`;
+
+/**
+ * Keeps the open violation events of one source. An event opens the first
+ * time a track is flagged for a violation type, is updated on every later
+ * frame it is flagged again, and closes when the tracker drops the track or
+ * the source is reset.
+ */
+export class ViolationAggregator {
+  private open = new Map<string, ViolationEvent>();
+
+  public update(violations: Violation[], liveTrackIds: Set<number>, timestamp: number): ViolationEventUpdate {
+    const opened: Violation[] = [];
+    const changed: ViolationEvent[] = [];
+
+    violations.forEach(v => {
+      if (v.trackId === undefined) return;
+      const key = eventKey(v.trackId, v.type);
+      const event = this.open.get(key);
+      if (event) {
+        event.lastSeenAt = timestamp;
+        event.frames += 1;
+        event.description = v.description;
+        if (SEVERITY_RANK[v.severity] > SEVERITY_RANK[event.severity]) event.severity = v.severity;
+        changed.push({ ...event });
+        return;
+      }
+      const created: ViolationEvent = {
+        id: crypto.randomUUID(),
+        trackId: v.trackId,
+        type: v.type,
+        severity: v.severity,
+        description: v.description,
+        startedAt: timestamp,
+        lastSeenAt: timestamp,
+        frames: 1,
+      };
+      this.open.set(key, created);
+      opened.push({ ...v, eventId: created.id });
+      changed.push({ ...created });
+    });
+
+    this.open.forEach((event, key) => {
+      if (liveTrackIds.has(event.trackId)) return;
+      event.endedAt = timestamp;
+      this.open.delete(key);
+      changed.push({ ...event });
+    });
+
+    return { opened, events: changed };
+  }
+
+  /**
+   * Closes every open event at the time it was last seen, e.g. when the source
+   * changes, and returns them so they can be saved like any other closed event.
+   */
+  public reset(): ViolationEvent[] {
+    const closed = [...this.open.values()].map(event => ({ ...event, endedAt: event.lastSeenAt }));
+    this.open.clear();
+    return closed;
+  }
+}
@@ -0,0 +1,80 @@
+// zoneService.ts — lanes, stop lines, crosswalks, no-entry zones and counting lines
+// drawn per source, plus the geometry used to evaluate tracks against them.
+
+import { CrossingDirection, Zone, ZoneKind } from '../types';
+import { loadSourceSetting, saveSourceSetting } from './sourceSettingsStore';
+
+type Point = [number, number];
+
+const SETTING_KIND = 'zones';
+
+export const ZONE_LABELS: Record<ZoneKind, string> = {
+  lane: 'Lane',
+  stopLine: 'Stop Line',
+  crosswalk: 'Crosswalk',
+  noEntry: 'No Entry',
+  countLine: 'Count Line',
+};
+
+export const ZONE_COLORS: Record<ZoneKind, string> = {
+  lane: '#38bdf8',
+  stopLine: '#ef4444',
+  crosswalk: '#facc15',
+  noEntry: '#f97316',
+  countLine: '#a3e635',
+};
+
+export const DEFAULT_DIRECTION_LABELS: [string, string] = ['Inbound', 'Outbound'];
+
+export const loadZones = (sourceId: string | null): Zone[] =>
+  (sourceId && loadSourceSetting<Zone[]>(SETTING_KIND, sourceId)) || [];
+
+export const saveZones = (sourceId: string, zones: Zone[]) =>
+  saveSourceSetting(SETTING_KIND, sourceId, zones.length > 0 ? zones : null);
+
+// Geometry
+
+export const pointInPolygon = ([x, y]: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const orientation = (a: Point, b: Point, c: Point) => Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+
+/** True when segment p1-p2 properly crosses segment q1-q2. */
+export const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point): boolean =>
+  orientation(p1, p2, q1) * orientation(p1, p2, q2) < 0 && orientation(q1, q2, p1) * orientation(q1, q2, p2) < 0;
+
+export const normalize = ([x, y]: Point): Point => {
+  const length = Math.hypot(x, y);
+  return length === 0 ? [0, 0] : [x / length, y / length];
+};
+
+export const findZoneAt = (zones: Zone[], kind: ZoneKind, point: Point): Zone | undefined =>
+  zones.find(z => z.kind === kind && z.points.length >= 3 && pointInPolygon(point, z.points));
+
+export const crossedStopLine = (zones: Zone[], from: Point, to: Point): Zone | undefined =>
+  zones.find(z => z.kind === 'stopLine' && z.points.length === 2 && segmentsIntersect(from, to, z.points[0], z.points[1]));
+
+export const isLineKind = (kind: ZoneKind) => kind === 'stopLine' || kind === 'countLine';
+
+/** Normal of a line zone: its forward crossing direction (right of first-to-second point on screen). */
+export const lineNormal = (zone: Zone): Point => {
+  const [[x1, y1], [x2, y2]] = zone.points;
+  return normalize([-(y2 - y1), x2 - x1]);
+};
+
+/** Direction in which the path from-to crosses a line zone, or null if it does not. */
+export const crossingDirection = (line: Zone, from: Point, to: Point): CrossingDirection | null => {
+  if (line.points.length !== 2 || !segmentsIntersect(from, to, line.points[0], line.points[1])) return null;
+  const [nx, ny] = lineNormal(line);
+  return (to[0] - from[0]) * nx + (to[1] - from[1]) * ny > 0 ? 'forward' : 'reverse';
+};
+
+export const directionLabel = (line: Zone, direction: CrossingDirection): string =>
+  (line.directionLabels || DEFAULT_DIRECTION_LABELS)[direction === 'forward' ? 0 : 1];
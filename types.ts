@@ -1,13 +1,14 @@
 
 export enum AgentStatus {
   IDLE = 'IDLE',
-  VISION_SCANNING = 'VISION_SCANNING', // Agent 1
-  DATA_ANALYSIS = 'DATA_ANALYSIS',     // Agent 2
-  REPORT_GENERATION = 'REPORT_GENERATION', // Agent 3
+  RUNNING = 'RUNNING', // Agents at work; which ones is tracked per agent (AgentRunState)
   COMPLETE = 'COMPLETE',
   ERROR = 'ERROR'
 }
 
+// Tracker pool a detection is assigned to
+export type TrackClass = 'vehicle' | 'cyclist' | 'pedestrian';
+
 export interface DetectionItem {
   object: string;
   count: number;
@@ -16,10 +17,26 @@ export interface DetectionItem {
   // New Tracking Fields
   box_2d?: [number, number, number, number]; // [ymin, xmin, ymax, xmax] (Normalized 0-1000)
   trackId?: number;
+  trackClass?: TrackClass;
+  trajectory?: [number, number][]; // Recent centroids [x, y] normalized 0-1, oldest first
   estimatedSpeed?: number; // km/h
+  speedUncertainty?: number; // ± km/h (1 sigma) for estimatedSpeed
   laneEvent?: 'Stable' | 'Lane Change' | 'Merging';
   isSpeeding?: boolean; // New: Tracking derived
+  speedLimit?: number; // Tracking derived: the limit the speeding check applied (the lane's own, or the camera's), km/h
   isWrongWay?: boolean; // New: Tracking derived
+  laneId?: string; // Zone-derived: lane polygon containing the object's ground point
+  isRedLightViolation?: boolean; // Zone-derived: crossed a stop line on red
+  isJaywalking?: boolean; // Zone-derived: pedestrian in a lane outside any crosswalk
+  isInNoEntryZone?: boolean; // Zone-derived
+}
+
+// Per-camera ground-plane calibration (see services/calibrationService.ts)
+export interface CameraCalibration {
+  imagePoints: [number, number][]; // Four clicked points [x, y], normalized 0-1
+  worldPoints: [number, number][]; // Matching ground positions in metres
+  homography: number[];            // 3x3 row-major, image -> ground
+  updatedAt: number;
 }
 
 export interface TrafficLight {
@@ -27,10 +44,68 @@ export interface TrafficLight {
   count: number;
 }
 
+export type Severity = 'Low' | 'Medium' | 'High';
+
 export interface Violation {
   type: 'Red Light' | 'Jaywalking' | 'Wrong Lane' | 'Speeding' | 'Other';
   description: string;
-  severity: 'Low' | 'Medium' | 'High';
+  severity: Severity;
+  trackId?: number; // Tracking-derived violations: the offending track
+  eventId?: string; // Tracking-derived violations: the event this violation opened
+}
+
+// One tracking-derived violation followed across frames (see services/violationEventService.ts)
+export interface ViolationEvent {
+  id: string;
+  trackId: number;
+  type: Violation['type'];
+  severity: Severity; // Highest severity seen while the event was open
+  description: string; // From the latest frame it was flagged on
+  startedAt: number;
+  lastSeenAt: number;
+  endedAt?: number; // Set once the track has ended
+  frames: number; // Frames the violation was flagged on
+}
+
+// Per-camera thresholds for tracking-derived violations (see services/rulesService.ts)
+export interface ViolationRules {
+  speedLimit: number;           // km/h
+  speedTolerance: number;       // km/h over the limit allowed before flagging
+  minTrackAge: number;          // Frames a track must have been measured before it can be flagged
+  minConsecutiveFrames: number; // Frames a condition must hold in a row before flagging
+  wrongWayEnabled: boolean;
+  wrongWayMinMotion: number;    // Normalized vertical movement per frame counted as "moving"
+  speedingSeverity: { medium: number; high: number }; // km/h over limit+tolerance for Medium / High
+  wrongWaySeverity: Severity;
+  redLightSeverity: Severity;
+  jaywalkingSeverity: Severity;
+  noEntrySeverity: Severity;
+}
+
+// Road geometry drawn over a camera view (see services/zoneService.ts).
+// Points are [x, y] normalized 0-1 over the monitor frame.
+export type ZoneKind = 'lane' | 'stopLine' | 'crosswalk' | 'noEntry' | 'countLine';
+
+export interface Zone {
+  id: string;
+  kind: ZoneKind;
+  name: string;
+  points: [number, number][]; // Polygon, or the two ends of a stop/counting line
+  direction?: [number, number]; // Lanes: allowed direction of travel (unit vector)
+  speedLimit?: number; // Lanes: overrides ViolationRules.speedLimit (km/h)
+  directionLabels?: [string, string]; // Counting lines: names for forward / reverse crossings
+}
+
+// A tracked road user crossing a counting line. 'forward' is the direction of
+// the line's normal (to the right of its first-to-second point, in image space).
+export type CrossingDirection = 'forward' | 'reverse';
+
+export interface LineCrossing {
+  lineId: string;
+  trackId: number;
+  objectClass: string; // Detector label, e.g. 'car', 'bus'
+  direction: CrossingDirection;
+  timestamp: number;
 }
 
 export interface TrafficAnalysis {
@@ -61,15 +136,123 @@ export interface LocationContextData {
   trafficInfluencers: string[];
 }
 
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+// An agent of the backend pipeline, as served by /api/pipeline
+export interface AgentDefinition {
+  id: string;
+  label: string;
+  description: string;
+  enabled: boolean;
+  optional: boolean; // Its failure only skips the agents that depend on it
+  image: boolean; // Sees the frame, not just other agents' output
+  dependsOn: string[]; // Agent ids whose output it needs (or that must run first)
+}
+
+export interface PipelineDefinition {
+  name: string;
+  agents: AgentDefinition[];
+}
+
+export type AgentRunState = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+// One agent's part in an analysis, as run on the backend
+export interface AgentStage {
+  agent: string; // AgentDefinition id
+  model: string;
+  startedAt: number;
+  durationMs: number;
+  attempts: number; // Provider calls, including retries after invalid output
+  usage: TokenUsage; // Summed over attempts
+  costUsd?: number; // Absent when the model's price is unknown
+  promptVersion?: number; // Version of the agent's prompt template (absent on older results)
+  output?: Record<string, unknown>; // The agent's validated output, i.e. the input of the agents after it
+  error?: string; // Why an optional agent produced no output
+}
+
+export interface PipelineRun {
+  provider: string;
+  model: string;
+  promptRevision?: number; // Prompt store revision the analysis ran under (see services/promptApi.ts)
+  totalMs: number; // Wall-clock time; agents that do not depend on each other overlap
+  usage: TokenUsage;
+  costUsd?: number;
+  stages: AgentStage[];
+}
+
 export interface FullAnalysisResult {
+  analysisId?: string; // Record id in the backend analysis database, when stored
   timestamp: number;
   detections: DetectionItem[];
   analysis: TrafficAnalysis;
   report: TrafficReport;
   locationContext?: LocationContextData;
+  lineCrossings?: LineCrossing[]; // Counting-line crossings completed in this frame
+  violationEvents?: ViolationEvent[]; // Violation events opened, updated or closed in this frame
+  pipeline?: PipelineRun; // Per-agent timings, usage and outputs
 }
 
 export interface HistoryItem extends FullAnalysisResult {
   id: string;
-  thumbnail: string; // Base64 thumbnail
+  thumbnail: string; // Image URL (object URL of the stored thumbnail Blob)
+  sourceId?: string; // Source the frame came from (see services/sourceSettingsStore.ts)
+}
+
+// A tracking-derived violation kept with its evidence for review (see services/incidentStore.ts)
+export type IncidentStatus = 'pending' | 'confirmed' | 'dismissed';
+
+export interface Incident {
+  id: string;
+  timestamp: number; // Capture time of the frame the violation was flagged on
+  violation: Violation;
+  trackId?: number;
+  objectClass?: string; // Detector label of the offending track
+  sourceId?: string;
+  analysisId?: string; // History item the frame was stored as
+  status: IncidentStatus;
+  reviewedAt?: number;
+  note?: string;
+  // Image URLs (object URLs of the stored Blobs); frames carry the detection overlay
+  frame: string;
+  frameBefore?: string;
+  frameAfter?: string;
+  crop?: string; // The offending object, cut from the unannotated frame
+}
+
+// Alerting rules evaluated on every analysis (see services/alertService.ts)
+export type AlertMetric = 'congestionLevel' | 'totalVehicles' | 'pedestrianCount' | 'estimatedAverageSpeed' | 'priorityScore';
+
+export type AlertCondition =
+  | { kind: 'metric'; metric: AlertMetric; operator: '>' | '<'; threshold: number; frames: number } // Held for `frames` consecutive frames
+  | { kind: 'flowStatus'; status: TrafficAnalysis['trafficFlowStatus'] }
+  | { kind: 'violation'; minSeverity: Severity; violationType?: Violation['type'] }; // Any matching new violation
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  condition: AlertCondition;
+  severity: Severity; // Violation rules use the violation's own severity
+  cooldownSeconds: number; // Minimum time between two alerts of the rule on one source
+}
+
+export interface AlertChannels {
+  notification: boolean; // Browser Notification API
+  toast: boolean;
+  webhook: boolean; // Forwarded by the backend to its configured webhook
+}
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  message: string;
+  severity: Severity;
+  timestamp: number;
+  sourceId?: string;
+  analysisId?: string;
 }
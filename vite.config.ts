@@ -12,7 +12,12 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Backend environment profiles (see services/configService.ts)
+        'process.env.BACKEND_PROFILE': JSON.stringify(env.BACKEND_PROFILE || ''),
+        'process.env.BACKEND_URL_PRODUCTION': JSON.stringify(env.BACKEND_URL_PRODUCTION || ''),
+        'process.env.BACKEND_URL_STAGING': JSON.stringify(env.BACKEND_URL_STAGING || ''),
+        'process.env.BACKEND_URL_LOCAL': JSON.stringify(env.BACKEND_URL_LOCAL || '')
       },
       resolve: {
         alias: {